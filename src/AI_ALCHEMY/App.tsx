@@ -1,17 +1,62 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Sandbox, SandboxRef } from './components/Sandbox';
 import { ElementToolbar } from './components/ElementToolbar';
 import { LogPanel } from './components/LogPanel';
-import { INITIAL_ELEMENTS } from './constants';
-import { ElementDef } from './types';
-import { parseElementCommand, getSupervisorAction } from './services/geminiService';
+import { PopulationPanel } from './components/PopulationPanel';
+import { StatsPanel } from './components/StatsPanel';
+import { Encyclopedia } from './components/Encyclopedia';
+import { Timeline } from './components/Timeline';
+import { ArmedStamp, StampPanel } from './components/StampPanel';
+import { ScenarioPicker } from './components/ScenarioPicker';
+import { ScenarioHud } from './components/ScenarioHud';
+import { ScenarioResults } from './components/ScenarioResults';
+import { BOUNDARY_LABELS, INITIAL_ELEMENTS, SCENARIOS, WORLD_SIZES } from './constants';
+import { BoundaryMode, DrawTool, ElementDef, LineageStats, LogEntry, LogType, RunState, StatsSample, WorldSize } from './types';
+import { parseElementCommand, getSupervisorAction } from './services/aiService';
+import { downloadFile } from './services/fileDownload';
+import { randomSeed } from './engine/rng';
+import { RecordedRun, parseRecordedRun } from './engine/replay';
+import { ReactionCacheSnapshot } from './engine/simulationClient';
+import { SnapshotInfo, TimelineInfo } from './engine/timeline';
+import { Scenario, ScenarioProgress, allowsElement, scenarioReport } from './engine/scenario';
+import { WorldFile, encodeWorld, decodeWorld } from './engine/worldFile';
+import { loadAutosave, saveAutosave } from './services/worldStorage';
+import { statsToCsv } from './services/statsHistory';
+import { createLogEntry, logsToJsonl } from './services/eventLog';
+import { Stamp, deleteStamp, getStamps, resolveStamp, saveStamp, transformStamp } from './services/stampLibrary';
+import { exportReactionLibrary, importReactionLibrary, getReactionLibrarySize } from './services/reactionLibrary';
 
 function App() {
   const [elements, setElements] = useState<ElementDef[]>(INITIAL_ELEMENTS);
   const [selectedElementId, setSelectedElementId] = useState<number>(2); // Default to Sand
   const [brushSize, setBrushSize] = useState<number>(3);
+  const [tool, setTool] = useState<DrawTool>(DrawTool.BRUSH);
   const [triggerClear, setTriggerClear] = useState(0);
-  const [logs, setLogs] = useState<string[]>([]);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [seed, setSeed] = useState(randomSeed);
+  const [replayRun, setReplayRun] = useState<RecordedRun | null>(null);
+  const [world, setWorld] = useState<WorldFile | null>(null);
+  const [thermalView, setThermalView] = useState(false);
+  const [inspect, setInspect] = useState(false);
+  const [worldSize, setWorldSize] = useState<WorldSize>(WORLD_SIZES[0]);
+  const [boundary, setBoundary] = useState<BoundaryMode>(BoundaryMode.WALLS);
+  const [showPopulation, setShowPopulation] = useState(false);
+  const [population, setPopulation] = useState<LineageStats[]>([]);
+  const [showStats, setShowStats] = useState(false);
+  const [statsSamples, setStatsSamples] = useState<StatsSample[]>([]);
+  const [showEncyclopedia, setShowEncyclopedia] = useState(false);
+  const [reactionSnapshot, setReactionSnapshot] = useState<ReactionCacheSnapshot | null>(null);
+  const [timeline, setTimeline] = useState<TimelineInfo>({ snapshots: [], undo: 0, redo: 0 });
+  const [runState, setRunState] = useState<RunState>({ paused: false, speed: 1 });
+  const [showStamps, setShowStamps] = useState(false);
+  const [stamps, setStamps] = useState<Stamp[]>(getStamps);
+  const [selectingStamp, setSelectingStamp] = useState(false);
+  const [stampDraft, setStampDraft] = useState<Omit<Stamp, 'name'> | null>(null);
+  const [armedStamp, setArmedStamp] = useState<ArmedStamp | null>(null);
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [scenarioProgress, setScenarioProgress] = useState<ScenarioProgress | null>(null);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showResults, setShowResults] = useState(false);
   
   // Supervisor State
   const [isSupervisorActive, setIsSupervisorActive] = useState(false);
@@ -35,37 +80,320 @@ function App() {
     });
   }, []);
 
-  const handleReaction = useCallback((a: string, b: string, result: string, isNew: boolean) => {
-      const timestamp = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
-      const newBadge = isNew ? `<span class="text-yellow-400 font-bold text-[10px] border border-yellow-500 px-1 rounded ml-2">NEW</span>` : '';
-      const logMessage = `
-        <div class="opacity-50 text-[10px] mb-0.5">${timestamp}</div>
-        <div class="flex items-center flex-wrap gap-1">
-            <span class="font-bold text-purple-300">${a}</span>
-            <span class="text-gray-500">+</span>
-            <span class="font-bold text-purple-300">${b}</span>
-            <span class="text-gray-500">→</span>
-            <span class="font-bold text-green-400">${result}</span>
-            ${newBadge}
-        </div>
-      `;
-      setLogs(prev => [...prev, logMessage]);
+  // Entries refer to elements by ID. Names of elements that are only being added (new
+  // discoveries) are resolved once they exist.
+  const elementsRef = useRef(elements);
+  elementsRef.current = elements;
+  const unresolvedLogNames = useRef(new Map<number, string[]>());
+  const findElementId = (name: string) => elementsRef.current.find(e => e.name.toLowerCase() === name.toLowerCase())?.id;
+
+  const addLog = useCallback((type: LogType, text: string, elementNames: string[] = [], reaction?: LogEntry['reaction']) => {
+      const ids = elementNames.map(findElementId).filter((id): id is number => id !== undefined);
+      const entry = createLogEntry(type, text, ids, reaction);
+      const missing = elementNames.filter(name => findElementId(name) === undefined);
+      if (missing.length > 0) unresolvedLogNames.current.set(entry.id, missing);
+      setLogs(prev => [...prev, entry]);
   }, []);
 
+  useEffect(() => {
+    const resolved = new Map<number, number[]>();
+    unresolvedLogNames.current.forEach((names, entryId) => {
+      const ids = names.map(findElementId).filter((id): id is number => id !== undefined);
+      if (ids.length === 0) return;
+      resolved.set(entryId, ids);
+      unresolvedLogNames.current.delete(entryId);
+    });
+    if (resolved.size === 0) return;
+    setLogs(prev => prev.map(entry =>
+      resolved.has(entry.id) ? { ...entry, elementIds: [...entry.elementIds, ...resolved.get(entry.id)!] } : entry
+    ));
+  }, [elements]);
+
+  // Frequent; a world without bots keeps the same (empty) state so nothing re-renders
+  const handlePopulation = useCallback((next: LineageStats[]) => {
+    setPopulation(prev => prev.length === 0 && next.length === 0 ? prev : next);
+  }, []);
+
+  const handleReaction = useCallback((a: string, b: string, result: string, isNew: boolean) => {
+      const products = result.split(' + ');
+      addLog(LogType.REACTION, `${a} + ${b} → ${result}`, [a, b, ...products], { reactants: [a, b], products, isNew });
+  }, [addLog]);
+
+  // Elements outside a running scenario's palette cannot be picked, wherever they are picked from
+  const selectElement = (id: number) => {
+    const element = elements.find(e => e.id === id);
+    if (element && allowsElement(scenario, element.name)) setSelectedElementId(id);
+  };
+
+  // Playtests start from the scenario's own world, with the Supervisor off (it stays locked while one runs)
+  const startScenario = (next: Scenario) => {
+    setIsSupervisorActive(false);
+    setReplayRun(null);
+    setWorld(null);
+    setSeed(next.seed);
+    setWorldSize({ width: next.width, height: next.height });
+    setBoundary(next.boundary);
+    setScenario({ ...next }); // A new object starts it over, also when it is the same scenario
+    setScenarioProgress(null);
+    setShowScenarios(false);
+    setShowResults(false);
+    const first = elements.find(e => e.name === next.elements[0]);
+    if (first) setSelectedElementId(first.id);
+    sandboxRef.current?.setPaused(false);
+    addLog(LogType.WORLD, `🎯 Scenario "${next.name}" started (limit ${next.tickLimit} ticks).`, next.elements);
+  };
+
+  const leaveScenario = () => {
+    setScenario(null);
+    setScenarioProgress(null);
+    setShowResults(false);
+    handleSeedChange(randomSeed());
+  };
+
+  // Finished: stop the world on the deciding tick and show the results
+  useEffect(() => {
+    if (!scenario || !scenarioProgress || scenarioProgress.status === 'running') return;
+    sandboxRef.current?.setPaused(true);
+    setShowResults(true);
+    addLog(LogType.WORLD, scenarioProgress.status === 'won'
+      ? `🏆 Scenario "${scenario.name}" complete in ${scenarioProgress.tick} ticks.`
+      : `💀 Scenario "${scenario.name}" failed: ${scenarioProgress.reason}.`);
+  }, [scenarioProgress?.status]);
+
+  const handleExportScenarioResults = () => {
+    if (!scenario || !scenarioProgress) return;
+    downloadFile(`alchemy-scenario-${scenario.id}.json`, JSON.stringify(scenarioReport(scenario, scenarioProgress), null, 2), 'application/json');
+  };
+
+  // In a scenario, resetting starts it over
   const handleClear = () => {
+    if (scenario) {
+      startScenario(scenario);
+      return;
+    }
     setTriggerClear(prev => prev + 1);
-    setLogs(prev => [...prev, `<span class="text-red-400 italic">World Reset.</span>`]);
+    addLog(LogType.WORLD, 'World Reset.');
+  };
+
+  // Changing the world leaves a running scenario
+  const handleSeedChange = (newSeed: number) => {
+    setScenario(null);
+    setWorld(null);
+    setSeed(newSeed);
+    addLog(LogType.WORLD, `New world (seed ${newSeed}).`);
   };
 
+  const handleWorldSizeChange = (size: WorldSize) => {
+    setScenario(null);
+    setWorld(null);
+    setWorldSize(size);
+    addLog(LogType.WORLD, `New world (${size.width}x${size.height}).`);
+  };
+
+  const handleBoundaryChange = (mode: BoundaryMode) => {
+    setScenario(null);
+    setWorld(null);
+    setBoundary(mode);
+    addLog(LogType.WORLD, `New world (${BOUNDARY_LABELS[mode]}).`);
+  };
+
+  const handleExportRun = async () => {
+    const run = await sandboxRef.current?.exportRun();
+    if (!run) return;
+    downloadFile(`alchemy-run-${run.seed}.json`, JSON.stringify(run), 'application/json');
+  };
+
+  const handleReplayRun = async (file: File) => {
+    try {
+      const run = parseRecordedRun(await file.text());
+      setIsSupervisorActive(false);
+      setScenario(null);
+      setReplayRun(run);
+      addLog(LogType.WORLD, `▶ Replaying run (seed ${run.seed}, ${run.ticks} ticks).`);
+    } catch (e) {
+      addLog(LogType.ERROR, 'Could not load run file.');
+    }
+  };
+
+  const applyWorld = useCallback((loaded: WorldFile) => {
+    setReplayRun(null);
+    setScenario(null);
+    setElements(loaded.elements);
+    setSeed(loaded.seed);
+    setWorld(loaded);
+  }, []);
+
+  const handleSaveWorld = async (compress: boolean) => {
+    const current = await sandboxRef.current?.exportWorld();
+    if (!current) return;
+    const blob = await encodeWorld(current, compress);
+    downloadFile(`alchemy-world-${current.seed}.${compress ? 'gz' : 'json'}`, blob, blob.type);
+  };
+
+  const handleLoadWorld = async (file: File) => {
+    try {
+      const loaded = await decodeWorld(file);
+      applyWorld(loaded);
+      addLog(LogType.WORLD, `📂 Loaded world (seed ${loaded.seed}, ${loaded.elements.length} elements).`);
+    } catch (e) {
+      console.error(e);
+      addLog(LogType.ERROR, 'Could not load world file.');
+    }
+  };
+
+  const handleExportStats = () => {
+    const samples = sandboxRef.current?.getStatsHistory() ?? [];
+    if (samples.length === 0) return;
+    downloadFile(`alchemy-stats-${seed}.csv`, statsToCsv(samples), 'text/csv');
+  };
+
+  const refreshEncyclopedia = async () => {
+    setReactionSnapshot(null);
+    setReactionSnapshot(await sandboxRef.current?.exportReactions() ?? null);
+  };
+
+  const openEncyclopedia = () => {
+    setShowEncyclopedia(true);
+    refreshEncyclopedia();
+  };
+
+  const handleExportLogs = () => {
+    downloadFile(`alchemy-log-${seed}.jsonl`, logsToJsonl(logs), 'application/x-ndjson');
+  };
+
+  const handleCheckpoint = () => {
+    sandboxRef.current?.checkpoint();
+    addLog(LogType.WORLD, '📌 Checkpoint saved.');
+  };
+
+  const handleRewind = (snapshot: SnapshotInfo) => {
+    sandboxRef.current?.rewind(snapshot.id);
+    addLog(LogType.WORLD, `⏪ Rewound to tick ${snapshot.tick}.`);
+  };
+
+  // Resolved against the current elements, so stamps saved in other sessions paste the same elements
+  const placedStamp = useMemo(() => {
+    const stamp = armedStamp && stamps.find(s => s.name === armedStamp.name);
+    return stamp ? resolveStamp(transformStamp(stamp, armedStamp.quarterTurns, armedStamp.mirrored), elements, scenario?.elements) : null;
+  }, [armedStamp, stamps, elements, scenario]);
+
+  const toggleStamps = () => {
+    setShowStamps(!showStamps);
+    setSelectingStamp(false);
+    setArmedStamp(null);
+  };
+
+  const handleStampCaptured = useCallback((draft: Omit<Stamp, 'name'>) => {
+    setStampDraft(draft);
+    setSelectingStamp(false);
+  }, []);
+
+  const handleSaveStamp = (name: string) => {
+    if (!stampDraft) return;
+    setStamps(saveStamp({ ...stampDraft, name }));
+    setStampDraft(null);
+    addLog(LogType.WORLD, `🧩 Saved stamp "${name}" (${stampDraft.width}x${stampDraft.height}).`, stampDraft.palette.slice(1));
+  };
+
+  const handleArmStamp = (name: string | null) => {
+    setSelectingStamp(false);
+    setArmedStamp(name ? { name, quarterTurns: 0, mirrored: false } : null);
+    const stamp = name ? stamps.find(s => s.name === name) : undefined;
+    const { missing, forbidden } = stamp ? resolveStamp(stamp, elements, scenario?.elements) : { missing: [], forbidden: [] };
+    if (missing.length > 0) {
+      addLog(LogType.WORLD, `🧩 Stamp "${name}" uses elements this world does not have (${missing.join(', ')}); those cells are left alone.`);
+    }
+    if (forbidden.length > 0) {
+      addLog(LogType.WORLD, `🧩 Stamp "${name}" uses elements this scenario does not allow (${forbidden.join(', ')}); those cells are left alone.`);
+    }
+  };
+
+  const handleDeleteStamp = (name: string) => {
+    if (armedStamp?.name === name) setArmedStamp(null);
+    setStamps(deleteStamp(name));
+  };
+
+  // Ctrl+Z undoes the last stroke, Ctrl+Shift+Z or Ctrl+Y redoes it, Space pauses and '.' steps
+  // one tick; R and M rotate and mirror the stamp being pasted, Esc puts it down (not while typing)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const sandbox = sandboxRef.current;
+      if (!sandbox || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+      const key = e.key.toLowerCase();
+      if (e.ctrlKey || e.metaKey) {
+        if (key === 'z' && !e.shiftKey) sandbox.undo();
+        else if (key === 'y' || key === 'z') sandbox.redo();
+        else return;
+      } else if (key === ' ') {
+        sandbox.setPaused(!sandbox.getRunState().paused);
+      } else if (key === '.') {
+        sandbox.stepOnce();
+      } else if (key === 'r') {
+        setArmedStamp(prev => prev && { ...prev, quarterTurns: (prev.quarterTurns + 1) % 4 });
+      } else if (key === 'm') {
+        setArmedStamp(prev => prev && { ...prev, mirrored: !prev.mirrored });
+      } else if (key === 'escape') {
+        setArmedStamp(null);
+        setSelectingStamp(false);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handleExportReactions = () => {
+    downloadFile('alchemy-reactions.json', exportReactionLibrary(), 'application/json');
+  };
+
+  const handleImportReactions = async (file: File) => {
+    try {
+      const added = importReactionLibrary(await file.text());
+      addLog(LogType.WORLD, `📚 Imported ${added} reactions (${getReactionLibrarySize()} known).`);
+    } catch (e) {
+      addLog(LogType.ERROR, 'Could not import reaction library.');
+    }
+  };
+
+  // Restore the last session, then keep autosaving it
+  useEffect(() => {
+    loadAutosave().then(saved => {
+      if (!saved) return;
+      applyWorld(saved);
+      addLog(LogType.WORLD, '📂 Restored autosaved world.');
+    });
+  }, [applyWorld]);
+
+  useEffect(() => {
+    if (replayRun) return;
+
+    const autosave = async () => {
+      const current = await sandboxRef.current?.exportWorld();
+      if (current) saveAutosave(current).catch(e => console.warn("Autosave failed", e));
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') autosave();
+    };
+
+    const interval = setInterval(autosave, 10000);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [replayRun]);
+
   const handleUserCommand = async (text: string) => {
-      setLogs(prev => [...prev, `<div class="text-purple-400 italic text-[10px]">Processing: "${text}"...</div>`]);
+      addLog(LogType.COMMAND, `Processing: "${text}"...`);
       
       try {
           const result = await parseElementCommand(text, elements);
           
           if (result.operation === 'CREATE' && result.elementData) {
              handleElementDiscovery(result.elementData as any);
-             setLogs(prev => [...prev, `<div class="text-green-400 font-bold">✨ Created: ${result.elementData?.name}</div>`]);
+             addLog(LogType.DISCOVERY, `✨ Created: ${result.elementData?.name}`, result.elementData.name ? [result.elementData.name] : []);
           } 
           else if (result.operation === 'UPDATE' && result.targetName && result.elementData) {
               setElements(prev => prev.map(e => {
@@ -74,18 +402,19 @@ function App() {
                   }
                   return e;
               }));
-              setLogs(prev => [...prev, `<div class="text-blue-400 font-bold">🔄 Updated: ${result.targetName}</div>`]);
+              addLog(LogType.COMMAND, `🔄 Updated: ${result.targetName}`, [result.targetName]);
           } else {
-              setLogs(prev => [...prev, `<div class="text-gray-400">AI: ${result.message || "Could not understand."}</div>`]);
+              addLog(LogType.COMMAND, `AI: ${result.message || "Could not understand."}`);
           }
       } catch (e) {
-          setLogs(prev => [...prev, `<div class="text-red-400">Error processing command.</div>`]);
+          addLog(LogType.ERROR, 'Error processing command.');
       }
   };
 
-  // Supervisor Loop
+  // Supervisor Loop (idle while the world is paused)
   useEffect(() => {
-    if (!isSupervisorActive) return;
+    // Scenarios limit what may be painted, which the Supervisor does not know about
+    if (!isSupervisorActive || runState.paused || scenario) return;
 
     const runSupervisor = async () => {
         if (!sandboxRef.current) return;
@@ -97,48 +426,73 @@ function App() {
         if (!imageBase64) return;
 
         // Use the Ref value here, so typing doesn't reset the interval
-        const decision = await getSupervisorAction(stats, elementNames, imageBase64, supervisorGuidanceRef.current);
+        const decision = await getSupervisorAction(
+            stats, elementNames, imageBase64, supervisorGuidanceRef.current, sandboxRef.current.getWorldInfo()
+        );
 
         if (decision.actionType === 'DRAW' && decision.drawCommand) {
-             const elem = elements.find(e => e.name.toLowerCase() === decision.drawCommand!.elementName.toLowerCase());
-             if (elem) {
+             const command = decision.drawCommand;
+             const byName = (name?: string) => elements.find(e => e.name.toLowerCase() === name?.toLowerCase());
+             const elem = byName(command.elementName);
+             const target = byName(command.replaceName);
+             // Replacing needs to know what it replaces
+             if (elem && (command.tool !== DrawTool.REPLACE || target)) {
                  sandboxRef.current.agentDraw(
-                     decision.drawCommand.x, 
-                     decision.drawCommand.y, 
+                     command.x, 
+                     command.y, 
                      elem.id, 
-                     decision.drawCommand.radius
+                     command.radius,
+                     { tool: command.tool, x2: command.x2, y2: command.y2, targetId: target?.id }
                  );
-                 setLogs(prev => [...prev, `<div class="text-cyan-400 text-[10px] italic">🤖 Supervisor: ${decision.reason}</div>`]);
+                 addLog(LogType.SUPERVISOR, `🤖 Supervisor: ${decision.reason}`, [elem.name, ...(target ? [target.name] : [])]);
              }
         } else if (decision.actionType === 'NEW_ELEMENT' && decision.newElementCommand) {
              // Use existing command parser to create it roughly
              await handleUserCommand(`Create ${decision.newElementCommand.name}. ${decision.newElementCommand.description}`);
-             setLogs(prev => [...prev, `<div class="text-cyan-400 text-[10px] italic">🤖 Supervisor: Invented something for balance.</div>`]);
+             addLog(LogType.SUPERVISOR, '🤖 Supervisor: Invented something for balance.', [decision.newElementCommand.name]);
         }
     };
 
     runSupervisor(); // Run immediately on activate
     const interval = setInterval(runSupervisor, 5000); // Run every 5 seconds
     return () => clearInterval(interval);
-  }, [isSupervisorActive, elements]); // Removed supervisorInput from dependencies
+  }, [isSupervisorActive, runState.paused, elements, scenario]); // Removed supervisorInput from dependencies
 
   const commitGuidance = () => {
       if (!supervisorInput.trim()) return;
       supervisorGuidanceRef.current = supervisorInput;
-      setLogs(prev => [...prev, `<div class="text-cyan-400 text-[10px] italic">📨 Guidance sent: "${supervisorInput}"</div>`]);
+      addLog(LogType.SUPERVISOR, `📨 Guidance sent: "${supervisorInput}"`);
   };
 
   return (
     <div className="flex h-screen w-screen bg-gray-950 overflow-hidden font-sans">
       {/* Sidebar */}
       <ElementToolbar
-        elements={elements}
+        elements={elements.filter(e => allowsElement(scenario, e.name))}
         selectedElementId={selectedElementId}
-        onSelectElement={setSelectedElementId}
+        onSelectElement={selectElement}
         brushSize={brushSize}
         onBrushSizeChange={setBrushSize}
+        tool={tool}
+        onToolChange={setTool}
+        runState={runState}
+        onPausedChange={(paused) => sandboxRef.current?.setPaused(paused)}
+        onStep={() => sandboxRef.current?.stepOnce()}
+        onSpeedChange={(speed) => sandboxRef.current?.setSpeed(speed)}
         onClear={handleClear}
         onUserCommand={handleUserCommand}
+        seed={seed}
+        onSeedChange={handleSeedChange}
+        worldSize={worldSize}
+        onWorldSizeChange={handleWorldSizeChange}
+        boundary={boundary}
+        onBoundaryChange={handleBoundaryChange}
+        onExportRun={handleExportRun}
+        onReplayRun={handleReplayRun}
+        onSaveWorld={handleSaveWorld}
+        onLoadWorld={handleLoadWorld}
+        onExportReactions={handleExportReactions}
+        onImportReactions={handleImportReactions}
       />
 
       {/* Main View */}
@@ -158,15 +512,76 @@ function App() {
                             {elements.find(e => e.id === selectedElementId)?.description}
                         </p>
                     </div>
-                    <button
-                        onClick={() => setIsSupervisorActive(!isSupervisorActive)}
-                        className={`flex items-center gap-2 px-4 py-2 rounded-lg border transition-all ${isSupervisorActive ? 'bg-cyan-900/50 border-cyan-500 text-cyan-300 shadow-[0_0_10px_rgba(34,211,238,0.3)]' : 'bg-gray-800 border-gray-600 text-gray-500 hover:bg-gray-700'}`}
-                    >
-                        <div className={`w-2 h-2 rounded-full ${isSupervisorActive ? 'bg-cyan-400 animate-pulse' : 'bg-gray-500'}`} />
-                        <span className="text-xs font-bold uppercase tracking-wider">
-                            {isSupervisorActive ? 'AI Supervisor ON' : 'AI Supervisor OFF'}
-                        </span>
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setThermalView(!thermalView)}
+                            title="Show cell temperatures"
+                            className={`px-3 py-2 rounded-lg border text-xs font-bold uppercase tracking-wider transition-all ${thermalView ? 'bg-orange-900/50 border-orange-500 text-orange-300' : 'bg-gray-800 border-gray-600 text-gray-500 hover:bg-gray-700'}`}
+                        >
+                            🌡 Thermal
+                        </button>
+                        <button
+                            onClick={() => setInspect(!inspect)}
+                            title="Hover the canvas to see what a cell is (painting is off meanwhile)"
+                            className={`px-3 py-2 rounded-lg border text-xs font-bold uppercase tracking-wider transition-all ${inspect ? 'bg-sky-900/50 border-sky-500 text-sky-300' : 'bg-gray-800 border-gray-600 text-gray-500 hover:bg-gray-700'}`}
+                        >
+                            🔍 Inspect
+                        </button>
+                        <button
+                            onClick={() => setShowPopulation(!showPopulation)}
+                            title="Show bot lineages and their genomes"
+                            className={`px-3 py-2 rounded-lg border text-xs font-bold uppercase tracking-wider transition-all ${showPopulation ? 'bg-fuchsia-900/50 border-fuchsia-500 text-fuchsia-300' : 'bg-gray-800 border-gray-600 text-gray-500 hover:bg-gray-700'}`}
+                        >
+                            🧬 Lineages
+                        </button>
+                        <button
+                            onClick={() => setShowStats(!showStats)}
+                            title="Chart element counts over time"
+                            className={`px-3 py-2 rounded-lg border text-xs font-bold uppercase tracking-wider transition-all ${showStats ? 'bg-emerald-900/50 border-emerald-500 text-emerald-300' : 'bg-gray-800 border-gray-600 text-gray-500 hover:bg-gray-700'}`}
+                        >
+                            📈 Charts
+                        </button>
+                        <button
+                            onClick={toggleStamps}
+                            title="Save regions of the world as stamps and paste them"
+                            className={`px-3 py-2 rounded-lg border text-xs font-bold uppercase tracking-wider transition-all ${showStamps ? 'bg-teal-900/50 border-teal-500 text-teal-300' : 'bg-gray-800 border-gray-600 text-gray-500 hover:bg-gray-700'}`}
+                        >
+                            🧩 Stamps
+                        </button>
+                        <button
+                            onClick={() => setShowScenarios(true)}
+                            title="Challenges with objectives and a tick limit"
+                            className={`px-3 py-2 rounded-lg border text-xs font-bold uppercase tracking-wider transition-all ${scenario ? 'bg-amber-900/50 border-amber-500 text-amber-300' : 'bg-gray-800 border-gray-600 text-gray-500 hover:bg-gray-700'}`}
+                        >
+                            🎯 Scenarios
+                        </button>
+                        <button
+                            onClick={openEncyclopedia}
+                            title="Browse every element, its reactions and the reaction network"
+                            className="px-3 py-2 rounded-lg border text-xs font-bold uppercase tracking-wider transition-all bg-gray-800 border-gray-600 text-gray-500 hover:bg-gray-700"
+                        >
+                            📖 Encyclopedia
+                        </button>
+                        {replayRun && (
+                            <button
+                                onClick={() => setReplayRun(null)}
+                                className="px-3 py-2 rounded-lg border border-cyan-700 text-cyan-300 bg-cyan-950/50 hover:bg-cyan-900/50 text-xs font-bold uppercase tracking-wider"
+                            >
+                                Stop Replay
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setIsSupervisorActive(!isSupervisorActive)}
+                            disabled={!!replayRun || !!scenario}
+                            title={scenario ? 'The Supervisor is off during scenarios' : undefined}
+                            className={`flex items-center gap-2 px-4 py-2 rounded-lg border transition-all ${isSupervisorActive ? 'bg-cyan-900/50 border-cyan-500 text-cyan-300 shadow-[0_0_10px_rgba(34,211,238,0.3)]' : 'bg-gray-800 border-gray-600 text-gray-500 hover:bg-gray-700'}`}
+                        >
+                            <div className={`w-2 h-2 rounded-full ${isSupervisorActive ? 'bg-cyan-400 animate-pulse' : 'bg-gray-500'}`} />
+                            <span className="text-xs font-bold uppercase tracking-wider">
+                                {isSupervisorActive ? 'AI Supervisor ON' : 'AI Supervisor OFF'}
+                            </span>
+                        </button>
+                    </div>
                 </div>
                 {/* Supervisor Communication Channel */}
                 {isSupervisorActive && (
@@ -193,6 +608,15 @@ function App() {
                 )}
             </div>
 
+            {scenario && (
+              <ScenarioHud
+                scenario={scenario}
+                progress={scenarioProgress}
+                onRestart={() => startScenario(scenario)}
+                onLeave={leaveScenario}
+              />
+            )}
+
             <Sandbox
               ref={sandboxRef}
               elements={elements}
@@ -200,8 +624,36 @@ function App() {
               onReaction={handleReaction}
               selectedElementId={selectedElementId}
               brushSize={brushSize}
+              tool={tool}
               triggerClear={triggerClear}
+              seed={seed}
+              width={worldSize.width}
+              height={worldSize.height}
+              boundary={boundary}
+              replay={replayRun}
+              world={world}
+              scenario={scenario}
+              thermalView={thermalView}
+              inspect={inspect}
+              selectingStamp={showStamps && selectingStamp}
+              onStampCaptured={handleStampCaptured}
+              stamp={showStamps ? placedStamp : null}
+              onPopulation={handlePopulation}
+              onStatsSample={setStatsSamples}
+              onTimeline={setTimeline}
+              onRunStateChange={setRunState}
+              onScenarioProgress={setScenarioProgress}
             />
+
+            {!replayRun && (
+              <Timeline
+                timeline={timeline}
+                onUndo={() => sandboxRef.current?.undo()}
+                onRedo={() => sandboxRef.current?.redo()}
+                onCheckpoint={handleCheckpoint}
+                onRewind={handleRewind}
+              />
+            )}
             
             <div className="text-gray-500 text-xs text-center max-w-lg">
                 Tip: Use the text box in the header to tell the Supervisor what to do.
@@ -209,8 +661,64 @@ function App() {
         </div>
       </div>
 
-      {/* Right Sidebar - Log */}
-      <LogPanel logs={logs} />
+      {/* Right Sidebar - Bot population and Log */}
+      {showPopulation && <PopulationPanel population={population} elements={elements} />}
+      {showStats && <StatsPanel samples={statsSamples} elements={elements} onExportCsv={handleExportStats} />}
+      {showStamps && (
+        <StampPanel
+          stamps={stamps}
+          selecting={selectingStamp}
+          draft={stampDraft}
+          armed={armedStamp}
+          onToggleSelecting={() => {
+            setSelectingStamp(!selectingStamp);
+            setArmedStamp(null);
+          }}
+          onSaveDraft={handleSaveStamp}
+          onDiscardDraft={() => setStampDraft(null)}
+          onArm={handleArmStamp}
+          onRotate={() => setArmedStamp(prev => prev && { ...prev, quarterTurns: (prev.quarterTurns + 1) % 4 })}
+          onMirror={() => setArmedStamp(prev => prev && { ...prev, mirrored: !prev.mirrored })}
+          onDelete={handleDeleteStamp}
+        />
+      )}
+      {showEncyclopedia && (
+        <Encyclopedia
+          snapshot={reactionSnapshot}
+          onClose={() => setShowEncyclopedia(false)}
+          onRefresh={refreshEncyclopedia}
+          onSelectElement={(id) => {
+            selectElement(id);
+            setShowEncyclopedia(false);
+          }}
+        />
+      )}
+      {showScenarios && (
+        <ScenarioPicker
+          scenarios={SCENARIOS}
+          elements={elements}
+          activeId={scenario?.id}
+          onStart={startScenario}
+          onClose={() => setShowScenarios(false)}
+        />
+      )}
+      {showResults && scenario && scenarioProgress && (
+        <ScenarioResults
+          scenario={scenario}
+          progress={scenarioProgress}
+          onRetry={() => startScenario(scenario)}
+          onContinue={() => {
+            setShowResults(false);
+            sandboxRef.current?.setPaused(false);
+          }}
+          onPickAnother={() => {
+            setShowResults(false);
+            setShowScenarios(true);
+          }}
+          onExport={handleExportScenarioResults}
+        />
+      )}
+      <LogPanel logs={logs} elements={elements} onExport={handleExportLogs} />
     </div>
   );
 }
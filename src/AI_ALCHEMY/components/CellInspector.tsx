@@ -0,0 +1,90 @@
+import React from 'react';
+import { ElementDef, PhysicsType } from '../types';
+
+// Where a pair of touching elements stands in the reaction pipeline
+export type ReactionStatus =
+  | 'cached' // The engine knows what they make
+  | 'inert' // Known not to react (cached failure, inert pair, handled by a rule or diet)
+  | 'waiting' // Answered, but a product element is still being added
+  | 'asking' // Request in flight
+  | 'queued' // Waiting for a free request slot
+  | 'unreported'; // Not reported by the engine yet
+
+export interface CellReaction {
+  partnerId: number;
+  key: string;
+  status: ReactionStatus;
+  products?: string[]; // Names, for cached reactions
+}
+
+// Everything known about one cell of the latest frame
+export interface CellInfo {
+  x: number;
+  y: number;
+  id: number;
+  value: number; // The density layer: gas mass, hydration, battery or density depending on physics
+  temperature: number;
+  charged: boolean;
+  energyId: number;
+  reactions: CellReaction[]; // With its neighbors and its energy overlay
+}
+
+interface CellInspectorProps {
+  info: CellInfo;
+  elements: ElementDef[]; // The engine's elements, which the IDs refer to
+}
+
+const STATUS_STYLE: Record<ReactionStatus, string> = {
+  cached: 'text-green-400',
+  inert: 'text-gray-500',
+  waiting: 'text-yellow-400',
+  asking: 'text-purple-300',
+  queued: 'text-purple-500',
+  unreported: 'text-gray-600',
+};
+
+const valueLabel = (physics?: PhysicsType) =>
+  physics === PhysicsType.GAS ? 'Mass'
+    : physics === PhysicsType.LIFE ? 'Hydration'
+    : physics === PhysicsType.BOT ? 'Battery'
+    : 'Density';
+
+export const CellInspector: React.FC<CellInspectorProps> = ({ info, elements }) => {
+  const byId = (id: number) => elements.find(e => e.id === id);
+  const nameOf = (id: number) => byId(id)?.name ?? `Unknown #${id}`;
+  const element = byId(info.id);
+  const energy = info.energyId !== 0 ? byId(info.energyId) : undefined;
+
+  return (
+    <div className="absolute bottom-6 right-2 w-60 bg-black/85 border border-sky-500/50 rounded-lg p-2 text-[10px] font-mono text-gray-300 pointer-events-none space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="w-3 h-3 rounded-full border border-white/20 shrink-0" style={{ backgroundColor: element?.color ?? '#FF00FF' }} />
+        <span className="text-xs font-bold text-white truncate">{nameOf(info.id)}</span>
+        <span className="ml-auto text-gray-500">{info.x},{info.y}</span>
+      </div>
+      <div className="text-gray-500">
+        {element?.physics ?? 'not in the palette'} · {info.temperature.toFixed(1)}°C{info.charged && ' · ⚡ charged'}
+      </div>
+      {info.id !== 0 && <div>{valueLabel(element?.physics)}: {info.value.toFixed(3)}</div>}
+      {info.energyId !== 0 && (
+        <div className="flex items-center gap-1">
+          Energy:
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: energy?.color ?? '#FFFF00' }} />
+          {nameOf(info.energyId)}
+        </div>
+      )}
+      {info.reactions.length > 0 && (
+        <div className="border-t border-gray-700 pt-1 space-y-0.5">
+          {info.reactions.map(r => (
+            <div key={r.key} className="flex gap-1">
+              <span className="truncate">+ {nameOf(r.partnerId)}</span>
+              <span className={`ml-auto shrink-0 ${STATUS_STYLE[r.status]}`}>
+                {r.status === 'cached' ? `→ ${r.products!.join(' + ')}` : r.status}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,8 @@
-import React, { useState } from 'react';
-import { ElementDef } from '../types';
+import React, { useEffect, useState } from 'react';
+import { randomSeed } from '../engine/rng';
+import { getAvailableProviders, getActiveProvider, setActiveProvider } from '../services/aiService';
+import { BOUNDARY_LABELS, SIMULATION_SPEEDS, WORLD_SIZES } from '../constants';
+import { BoundaryMode, DrawTool, ElementDef, RunState, WorldSize } from '../types';
 
 interface ElementToolbarProps {
   elements: ElementDef[];
@@ -7,21 +10,77 @@ interface ElementToolbarProps {
   onSelectElement: (id: number) => void;
   brushSize: number;
   onBrushSizeChange: (size: number) => void;
+  tool: DrawTool;
+  onToolChange: (tool: DrawTool) => void;
+  runState: RunState;
+  onPausedChange: (paused: boolean) => void;
+  onStep: () => void;
+  onSpeedChange: (speed: number) => void;
   onClear: () => void;
   onUserCommand: (text: string) => Promise<void>;
+  seed: number;
+  onSeedChange: (seed: number) => void;
+  worldSize: WorldSize;
+  onWorldSizeChange: (size: WorldSize) => void;
+  boundary: BoundaryMode;
+  onBoundaryChange: (mode: BoundaryMode) => void;
+  onExportRun: () => void;
+  onReplayRun: (file: File) => void;
+  onSaveWorld: (compress: boolean) => void;
+  onLoadWorld: (file: File) => void;
+  onExportReactions: () => void;
+  onImportReactions: (file: File) => void;
 }
 
+const TOOLS: Record<DrawTool, { icon: string; title: string }> = {
+  [DrawTool.BRUSH]: { icon: '🖌', title: 'Brush: drag to paint' },
+  [DrawTool.SPRAY]: { icon: '💨', title: 'Spray: drag to scatter a few cells' },
+  [DrawTool.LINE]: { icon: '📏', title: 'Line: drag from one end to the other' },
+  [DrawTool.RECT]: { icon: '▭', title: 'Rectangle outline: drag from corner to corner' },
+  [DrawTool.FILLED_RECT]: { icon: '■', title: 'Filled rectangle: drag from corner to corner' },
+  [DrawTool.FILL]: { icon: '🪣', title: 'Fill: click to flood the connected area' },
+  [DrawTool.REPLACE]: { icon: '🔁', title: 'Replace: drag to paint only over the element where you start' },
+};
+
 export const ElementToolbar: React.FC<ElementToolbarProps> = ({
   elements,
   selectedElementId,
   onSelectElement,
   brushSize,
   onBrushSizeChange,
+  tool,
+  onToolChange,
+  runState,
+  onPausedChange,
+  onStep,
+  onSpeedChange,
   onClear,
   onUserCommand,
+  seed,
+  onSeedChange,
+  worldSize,
+  onWorldSizeChange,
+  boundary,
+  onBoundaryChange,
+  onExportRun,
+  onReplayRun,
+  onSaveWorld,
+  onLoadWorld,
+  onExportReactions,
+  onImportReactions,
 }) => {
   const [command, setCommand] = useState('');
+  const [seedDraft, setSeedDraft] = useState(String(seed));
+
+  useEffect(() => setSeedDraft(String(seed)), [seed]);
+
+  const commitSeed = () => {
+    const parsed = parseInt(seedDraft, 10);
+    if (Number.isFinite(parsed) && parsed >= 0 && parsed !== seed) onSeedChange(parsed);
+    else setSeedDraft(String(seed));
+  };
   const [isProcessing, setIsProcessing] = useState(false);
+  const [providerId, setProviderId] = useState(getActiveProvider().id);
 
   const handleCommandSubmit = async () => {
     if (!command.trim()) return;
@@ -39,9 +98,19 @@ export const ElementToolbar: React.FC<ElementToolbarProps> = ({
       <h1 className="text-2xl font-bold mb-1 bg-gradient-to-r from-purple-400 to-pink-600 bg-clip-text text-transparent">
         AI Alchemy
       </h1>
-      <p className="text-xs text-gray-500 mb-6">
+      <p className="text-xs text-gray-500 mb-2">
         Sandbox + Generative AI
       </p>
+      <select
+        value={providerId}
+        onChange={(e) => setProviderId(setActiveProvider(e.target.value as typeof providerId).id)}
+        title="Model used for reactions, the Creator Console and the Supervisor"
+        className="mb-6 w-full bg-gray-800 text-xs text-gray-300 p-1.5 rounded border border-gray-700 focus:border-purple-500 outline-none"
+      >
+        {getAvailableProviders().map(p => (
+          <option key={p.id} value={p.id}>{p.label}</option>
+        ))}
+      </select>
 
       {/* Creator Console */}
       <div className="mb-6 bg-gray-800 p-3 rounded-lg border border-gray-700">
@@ -86,6 +155,44 @@ export const ElementToolbar: React.FC<ElementToolbarProps> = ({
           onChange={(e) => onBrushSizeChange(parseInt(e.target.value))}
           className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
         />
+        <div className="flex gap-1 mt-2">
+          {Object.values(DrawTool).map(t => (
+            <button
+              key={t}
+              onClick={() => onToolChange(t)}
+              title={TOOLS[t].title}
+              className={`flex-1 py-1 rounded border text-xs transition-colors ${tool === t ? 'bg-gray-800 border-purple-500' : 'bg-gray-800 border-gray-700 hover:border-gray-600'}`}
+            >
+              {TOOLS[t].icon}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Speed Control */}
+      <div className="mb-4 flex gap-2">
+        <button
+          onClick={() => onPausedChange(!runState.paused)}
+          title={runState.paused ? 'Resume (Space)' : 'Pause (Space)'}
+          className={`flex-1 py-1 rounded border text-xs font-medium transition-colors ${runState.paused ? 'bg-amber-900/50 border-amber-500 text-amber-300' : 'bg-gray-800 border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+        >
+          {runState.paused ? '▶ Resume' : '⏸ Pause'}
+        </button>
+        <button
+          onClick={onStep}
+          title="Advance one tick (.)"
+          className="px-2 py-1 bg-gray-800 border border-gray-600 rounded hover:bg-gray-700 text-xs text-gray-300"
+        >
+          ⏭
+        </button>
+        <select
+          value={runState.speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          title="Ticks per frame"
+          className="bg-gray-800 text-xs text-white px-1 py-1 rounded border border-gray-600 focus:border-purple-500 outline-none font-mono"
+        >
+          {SIMULATION_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
       </div>
 
       {/* Elements List */}
@@ -117,7 +224,135 @@ export const ElementToolbar: React.FC<ElementToolbarProps> = ({
         </div>
       </div>
 
+      {/* Run Controls */}
       <div className="mt-4 pt-3 border-t border-gray-700">
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Seed
+        </label>
+        <div className="flex gap-2 mb-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={seedDraft}
+            onChange={(e) => setSeedDraft(e.target.value)}
+            onBlur={commitSeed}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitSeed();
+            }}
+            className="flex-1 min-w-0 bg-gray-800 text-xs text-white px-2 py-1 rounded border border-gray-600 focus:border-purple-500 outline-none font-mono"
+          />
+          <button
+            onClick={() => onSeedChange(randomSeed())}
+            title="New random seed"
+            className="px-2 py-1 bg-gray-800 border border-gray-600 rounded hover:bg-gray-700 text-xs"
+          >
+            🎲
+          </button>
+        </div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          World Size
+        </label>
+        <select
+          value={`${worldSize.width}x${worldSize.height}`}
+          onChange={(e) => {
+            const size = WORLD_SIZES.find(s => `${s.width}x${s.height}` === e.target.value);
+            if (size) onWorldSizeChange(size);
+          }}
+          className="w-full mb-2 bg-gray-800 text-xs text-white px-2 py-1 rounded border border-gray-600 focus:border-purple-500 outline-none font-mono"
+        >
+          {WORLD_SIZES.map(s => (
+            <option key={`${s.width}x${s.height}`} value={`${s.width}x${s.height}`}>
+              {s.width} × {s.height}
+            </option>
+          ))}
+        </select>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Edges
+        </label>
+        <select
+          value={boundary}
+          onChange={(e) => onBoundaryChange(e.target.value as BoundaryMode)}
+          className="w-full mb-2 bg-gray-800 text-xs text-white px-2 py-1 rounded border border-gray-600 focus:border-purple-500 outline-none font-mono"
+        >
+          {Object.values(BoundaryMode).map(mode => (
+            <option key={mode} value={mode}>{BOUNDARY_LABELS[mode]}</option>
+          ))}
+        </select>
+        <div className="flex gap-2 mb-2">
+          <button
+            onClick={onExportRun}
+            className="flex-1 py-1.5 bg-gray-800 text-gray-300 border border-gray-600 rounded hover:bg-gray-700 transition-colors text-[10px] font-medium uppercase tracking-wide"
+          >
+            Export Run
+          </button>
+          <label className="flex-1 py-1.5 bg-gray-800 text-gray-300 border border-gray-600 rounded hover:bg-gray-700 transition-colors text-[10px] font-medium uppercase tracking-wide text-center cursor-pointer">
+            Replay Run
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onReplayRun(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        <div className="flex gap-2 mb-2">
+          <button
+            onClick={() => onSaveWorld(false)}
+            title="Save world as JSON"
+            className="flex-1 py-1.5 bg-gray-800 text-gray-300 border border-gray-600 rounded hover:bg-gray-700 transition-colors text-[10px] font-medium uppercase tracking-wide"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => onSaveWorld(true)}
+            title="Save world as compressed binary"
+            className="flex-1 py-1.5 bg-gray-800 text-gray-300 border border-gray-600 rounded hover:bg-gray-700 transition-colors text-[10px] font-medium uppercase tracking-wide"
+          >
+            Save .gz
+          </button>
+          <label className="flex-1 py-1.5 bg-gray-800 text-gray-300 border border-gray-600 rounded hover:bg-gray-700 transition-colors text-[10px] font-medium uppercase tracking-wide text-center cursor-pointer">
+            Load
+            <input
+              type="file"
+              accept=".json,.gz,application/json,application/gzip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onLoadWorld(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        <div className="flex gap-2 mb-2">
+          <button
+            onClick={onExportReactions}
+            title="Download the reaction library"
+            className="flex-1 py-1.5 bg-gray-800 text-gray-300 border border-gray-600 rounded hover:bg-gray-700 transition-colors text-[10px] font-medium uppercase tracking-wide"
+          >
+            Export Reactions
+          </button>
+          <label
+            title="Merge a reaction library from a teammate"
+            className="flex-1 py-1.5 bg-gray-800 text-gray-300 border border-gray-600 rounded hover:bg-gray-700 transition-colors text-[10px] font-medium uppercase tracking-wide text-center cursor-pointer"
+          >
+            Import Reactions
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportReactions(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
         <button
           onClick={onClear}
           className="w-full py-2 px-4 bg-red-500/10 text-red-400 border border-red-500/30 rounded hover:bg-red-500/20 transition-colors text-xs font-medium uppercase tracking-wide"
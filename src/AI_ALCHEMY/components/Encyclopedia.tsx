@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from 'react';
+import { ElementDef } from '../types';
+import { ReactionCacheSnapshot } from '../engine/simulationClient';
+import { ReactionEdge, buildReactionGraph, consumersOf, findPath, producersOf } from '../services/reactionGraph';
+
+interface EncyclopediaProps {
+  snapshot: ReactionCacheSnapshot | null; // null while loading
+  onClose: () => void;
+  onRefresh: () => void;
+  onSelectElement: (id: number) => void; // Picks the element as the brush
+}
+
+const GRAPH_SIZE = 520;
+const NODE_RADIUS = 7;
+
+const KIND_STYLE: Record<ReactionEdge['kind'], string> = {
+  reaction: 'border-purple-500 text-purple-300',
+  rule: 'border-blue-500 text-blue-300',
+  decay: 'border-gray-500 text-gray-300',
+  heat: 'border-orange-500 text-orange-300',
+  diet: 'border-green-500 text-green-300',
+};
+
+// Shown above the property list rather than in it
+const hiddenProperties = new Set(['id', 'name', 'color', 'description']);
+
+const formatValue = (value: unknown) => typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Every element with its properties and reactions, and the reaction network as a graph
+export const Encyclopedia: React.FC<EncyclopediaProps> = ({ snapshot, onClose, onRefresh, onSelectElement }) => {
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [pathFrom, setPathFrom] = useState('Sand');
+  const [pathTo, setPathTo] = useState('');
+
+  const graph = useMemo(
+    () => snapshot ? buildReactionGraph(snapshot.elements, snapshot.reactions, snapshot.rules) : null,
+    [snapshot]
+  );
+  const nodes: ElementDef[] = graph?.nodes ?? [];
+  const byId = new Map(nodes.map(e => [e.id, e] as const));
+  const findByName = (name: string) => nodes.find(e => e.name.toLowerCase() === name.trim().toLowerCase());
+  const nameOf = (id: number) => byId.get(id)?.name ?? `#${id}`;
+
+  const query = search.trim().toLowerCase();
+  const matches = (e: ElementDef) =>
+    !query || e.name.toLowerCase().includes(query) || e.description.toLowerCase().includes(query);
+  const listed = nodes.filter(matches);
+  const selected = selectedId !== null ? byId.get(selectedId) : undefined;
+
+  const fromElement = findByName(pathFrom);
+  const toElement = findByName(pathTo);
+  const path = graph && fromElement && toElement ? findPath(graph, fromElement.id, toElement.id) : undefined;
+  const pathEdges = new Set(path ?? []);
+
+  // Nodes on a circle, in element order
+  const positions = new Map(nodes.map((e, k) => {
+    const angle = (k / Math.max(1, nodes.length)) * Math.PI * 2 - Math.PI / 2;
+    const r = GRAPH_SIZE / 2 - 40;
+    return [e.id, { x: GRAPH_SIZE / 2 + r * Math.cos(angle), y: GRAPH_SIZE / 2 + r * Math.sin(angle), angle }] as const;
+  }));
+
+  const describe = (edge: ReactionEdge) => (
+    <>
+      {edge.inputs.map(nameOf).join(' + ')}
+      {' → '}
+      {edge.outputs.length > 0 ? edge.outputs.map(nameOf).join(' + ') : 'nothing'}
+      {edge.catalysts.length > 0 && <span className="text-gray-500"> with {edge.catalysts.map(nameOf).join(', ')}</span>}
+      {edge.note && <span className="text-gray-500"> ({edge.note})</span>}
+    </>
+  );
+
+  const edgeList = (edges: ReactionEdge[]) => edges.length === 0
+    ? <div className="text-gray-600 italic">None known yet.</div>
+    : edges.map((edge, k) => (
+        <div key={k} className="flex items-start gap-2">
+          <span className={`px-1 border rounded text-[9px] uppercase shrink-0 ${KIND_STYLE[edge.kind]}`}>{edge.kind}</span>
+          <span className="text-gray-300">{describe(edge)}</span>
+        </div>
+      ));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-6xl h-full max-h-[90vh] flex flex-col text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 p-4 border-b border-gray-800">
+          <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+            <span>📖</span> Encyclopedia
+          </h2>
+          <span className="text-[10px] text-gray-500">
+            {nodes.length} elements, {graph?.edges.length ?? 0} reactions
+          </span>
+          <button onClick={onRefresh} className="ml-auto px-2 py-1 rounded border border-gray-600 text-xs text-gray-400 hover:bg-gray-800">
+            Refresh
+          </button>
+          <button onClick={onClose} className="px-2 py-1 rounded border border-gray-600 text-xs text-gray-400 hover:bg-gray-800">
+            ✕
+          </button>
+        </div>
+
+        {!graph ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500 italic text-sm">Reading the reaction cache...</div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Element list */}
+            <div className="w-56 border-r border-gray-800 p-3 flex flex-col min-h-0">
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search elements..."
+                className="w-full bg-gray-800 text-xs text-white p-2 rounded border border-gray-600 focus:border-purple-500 outline-none mb-2"
+              />
+              <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+                {listed.map(e => (
+                  <button
+                    key={e.id}
+                    onClick={() => setSelectedId(e.id)}
+                    className={`w-full flex items-center gap-2 px-2 py-1 rounded text-xs text-left ${e.id === selectedId ? 'bg-purple-900/50 text-white' : 'text-gray-300 hover:bg-gray-800'}`}
+                  >
+                    <span className="w-3 h-3 rounded-full shrink-0 border border-white/20" style={{ backgroundColor: e.color }} />
+                    <span className="truncate">{e.name}</span>
+                    <span className="ml-auto text-[9px] text-gray-500">{e.physics}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Reaction network */}
+            <div className="flex-1 flex items-center justify-center p-2 min-w-0">
+              <svg viewBox={`0 0 ${GRAPH_SIZE} ${GRAPH_SIZE}`} className="max-h-full max-w-full">
+                {graph.edges.flatMap((edge, k) => edge.inputs.flatMap(a => edge.outputs.map(b => {
+                  const from = positions.get(a);
+                  const to = positions.get(b);
+                  if (!from || !to || a === b) return null;
+                  const onPath = pathEdges.has(edge);
+                  const touched = selectedId !== null && (a === selectedId || b === selectedId);
+                  return (
+                    <line
+                      key={`${k}:${a}:${b}`}
+                      x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                      stroke={onPath ? '#FACC15' : touched ? '#C084FC' : '#4B5563'}
+                      strokeOpacity={onPath || touched ? 0.9 : selectedId !== null || path ? 0.1 : 0.35}
+                      strokeWidth={onPath ? 2.5 : 1}
+                    />
+                  );
+                })))}
+                {nodes.map(e => {
+                  const p = positions.get(e.id)!;
+                  const dim = !matches(e);
+                  const labelRight = Math.cos(p.angle) >= 0;
+                  return (
+                    <g key={e.id} onClick={() => setSelectedId(e.id)} className="cursor-pointer" opacity={dim ? 0.2 : 1}>
+                      <circle
+                        cx={p.x} cy={p.y} r={NODE_RADIUS}
+                        fill={e.color}
+                        stroke={e.id === selectedId ? '#FFFFFF' : '#111827'}
+                        strokeWidth={e.id === selectedId ? 2 : 1}
+                      />
+                      <text
+                        x={p.x + (labelRight ? 1 : -1) * (NODE_RADIUS + 3)}
+                        y={p.y + 3}
+                        textAnchor={labelRight ? 'start' : 'end'}
+                        fontSize={9}
+                        fill="#D1D5DB"
+                      >
+                        {e.name}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+
+            {/* Details and path query */}
+            <div className="w-80 border-l border-gray-800 p-3 overflow-y-auto custom-scrollbar text-xs space-y-4">
+              <div>
+                <h3 className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider mb-2">Path</h3>
+                <div className="flex items-center gap-1 mb-2">
+                  <input
+                    value={pathFrom}
+                    onChange={(e) => setPathFrom(e.target.value)}
+                    list="encyclopedia-elements"
+                    className="w-full bg-gray-800 text-xs text-white p-1.5 rounded border border-gray-600 focus:border-yellow-500 outline-none"
+                  />
+                  <span className="text-gray-500">→</span>
+                  <input
+                    value={pathTo}
+                    onChange={(e) => setPathTo(e.target.value)}
+                    list="encyclopedia-elements"
+                    placeholder="Element"
+                    className="w-full bg-gray-800 text-xs text-white p-1.5 rounded border border-gray-600 focus:border-yellow-500 outline-none"
+                  />
+                  <datalist id="encyclopedia-elements">
+                    {nodes.map(e => <option key={e.id} value={e.name} />)}
+                  </datalist>
+                </div>
+                {fromElement && toElement ? (
+                  path ? (
+                    path.length === 0
+                      ? <div className="text-gray-500 italic">Same element.</div>
+                      : <ol className="space-y-1 list-decimal list-inside text-yellow-200">
+                          {path.map((edge, k) => <li key={k}>{describe(edge)}</li>)}
+                        </ol>
+                  ) : <div className="text-gray-500 italic">No known way from {fromElement.name} to {toElement.name}.</div>
+                ) : <div className="text-gray-600 italic">Pick two elements to find how one turns into the other.</div>}
+              </div>
+
+              {selected ? (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="w-4 h-4 rounded-full border border-white/20" style={{ backgroundColor: selected.color }} />
+                    <span className="text-sm font-bold">{selected.name}</span>
+                    <button
+                      onClick={() => onSelectElement(selected.id)}
+                      className="ml-auto px-2 py-0.5 rounded border border-purple-500 text-purple-300 text-[10px] hover:bg-purple-900/50"
+                    >
+                      Use
+                    </button>
+                  </div>
+                  <div className="text-gray-400 italic">{selected.description}</div>
+                  <div className="font-mono text-[10px] space-y-0.5">
+                    {Object.entries(selected)
+                      .filter(([key, value]) => !hiddenProperties.has(key) && value !== undefined)
+                      .map(([key, value]) => (
+                        <div key={key} className="flex gap-2">
+                          <span className="text-gray-500 shrink-0">{key}</span>
+                          <span className="text-gray-300 break-all">
+                            {(key === 'decayTo' || key === 'relatedElementId') && typeof value === 'number' ? nameOf(value) : formatValue(value)}
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                  <div>
+                    <h3 className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider mb-1">Made by</h3>
+                    <div className="space-y-1">{edgeList(producersOf(graph, selected.id))}</div>
+                  </div>
+                  <div>
+                    <h3 className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider mb-1">Used in</h3>
+                    <div className="space-y-1">{edgeList(consumersOf(graph, selected.id))}</div>
+                  </div>
+                </div>
+              ) : (
+                <div className="text-gray-600 italic">Select an element in the list or the graph.</div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
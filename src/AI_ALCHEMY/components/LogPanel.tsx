@@ -1,34 +1,127 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { ElementDef, LogEntry, LogType } from '../types';
 
 interface LogPanelProps {
-  logs: string[];
+  logs: LogEntry[];
+  elements: ElementDef[];
+  onExport: () => void;
 }
 
-export const LogPanel: React.FC<LogPanelProps> = ({ logs }) => {
+const TYPE_STYLE: Record<LogType, string> = {
+  [LogType.REACTION]: 'text-gray-300',
+  [LogType.DISCOVERY]: 'text-green-400 font-bold',
+  [LogType.COMMAND]: 'text-purple-400 italic',
+  [LogType.SUPERVISOR]: 'text-cyan-400 italic',
+  [LogType.WORLD]: 'text-red-400 italic',
+  [LogType.ERROR]: 'text-red-400',
+};
+
+const TYPE_LABEL: Record<LogType, string> = {
+  [LogType.REACTION]: 'Reactions',
+  [LogType.DISCOVERY]: 'Discoveries',
+  [LogType.COMMAND]: 'Commands',
+  [LogType.SUPERVISOR]: 'Supervisor',
+  [LogType.WORLD]: 'World',
+  [LogType.ERROR]: 'Errors',
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const LogPanel: React.FC<LogPanelProps> = ({ logs, elements, onExport }) => {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const [hiddenTypes, setHiddenTypes] = useState<Set<LogType>>(new Set());
+  const [elementFilter, setElementFilter] = useState<number | null>(null);
+  const [search, setSearch] = useState('');
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [logs]);
 
+  const toggleType = (type: LogType) => setHiddenTypes(prev => {
+    const next = new Set(prev);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    return next;
+  });
+
+  // Only elements that show up in the log are worth filtering by
+  const logged = new Set(logs.flatMap(entry => entry.elementIds));
+  const filterable = elements.filter(e => logged.has(e.id));
+  const query = search.trim().toLowerCase();
+  const shown = logs.filter(entry =>
+    !hiddenTypes.has(entry.type) &&
+    (elementFilter === null || entry.elementIds.includes(elementFilter)) &&
+    (!query || entry.text.toLowerCase().includes(query))
+  );
+
   return (
     <div className="flex flex-col h-full bg-gray-900 text-white w-72 border-l border-gray-700 p-4 shadow-xl z-10 hidden md:flex">
       <h2 className="text-sm font-semibold text-gray-400 mb-3 uppercase tracking-wider flex items-center gap-2">
         <span>📜</span> Alchemist Log
+        <button
+          onClick={onExport}
+          disabled={logs.length === 0}
+          title="Download the log as JSON Lines"
+          className="ml-auto px-2 py-0.5 rounded border border-gray-600 text-[10px] text-gray-400 hover:bg-gray-800 disabled:opacity-40"
+        >
+          JSONL
+        </button>
       </h2>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {Object.values(LogType).map(type => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`px-1.5 py-0.5 rounded border text-[10px] ${hiddenTypes.has(type) ? 'border-gray-700 text-gray-600' : 'border-gray-500 text-gray-300'}`}
+          >
+            {TYPE_LABEL[type]}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1 mb-3">
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search..."
+          className="w-full min-w-0 bg-gray-800 text-xs text-white px-2 py-1 rounded border border-gray-600 focus:border-purple-500 outline-none"
+        />
+        <select
+          value={elementFilter ?? ''}
+          onChange={(e) => setElementFilter(e.target.value === '' ? null : Number(e.target.value))}
+          className="bg-gray-800 text-xs text-gray-300 px-1 py-1 rounded border border-gray-600 outline-none max-w-[45%]"
+        >
+          <option value="">All elements</option>
+          {filterable.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+        </select>
+      </div>
       <div className="flex-1 overflow-y-auto custom-scrollbar font-mono text-xs space-y-3 pr-1">
         {logs.length === 0 && (
             <div className="text-gray-600 text-center mt-10 italic">
                 Experiment to discover new reactions...
             </div>
         )}
-        {logs.map((log, i) => (
-          <div key={i} className="border-b border-gray-800 pb-2 mb-2 last:border-0 animate-in fade-in slide-in-from-right-2 duration-300">
-             <div className="text-gray-300 leading-relaxed break-words" dangerouslySetInnerHTML={{ __html: log }} />
+        {shown.map(entry => (
+          <div key={entry.id} className="border-b border-gray-800 pb-2 mb-2 last:border-0 animate-in fade-in slide-in-from-right-2 duration-300">
+            <div className="opacity-50 text-[10px] mb-0.5">{formatTime(entry.time)}</div>
+            {entry.reaction ? (
+              <div className="flex items-center flex-wrap gap-1">
+                <span className="font-bold text-purple-300">{entry.reaction.reactants[0]}</span>
+                <span className="text-gray-500">+</span>
+                <span className="font-bold text-purple-300">{entry.reaction.reactants[1]}</span>
+                <span className="text-gray-500">→</span>
+                <span className="font-bold text-green-400">{entry.reaction.products.join(' + ')}</span>
+                {entry.reaction.isNew && (
+                  <span className="text-yellow-400 font-bold text-[10px] border border-yellow-500 px-1 rounded ml-2">NEW</span>
+                )}
+              </div>
+            ) : (
+              <div className={`leading-relaxed break-words ${TYPE_STYLE[entry.type]}`}>{entry.text}</div>
+            )}
           </div>
         ))}
         <div ref={bottomRef} />
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { ElementDef, LineageStats } from '../types';
+
+interface PopulationPanelProps {
+  population: LineageStats[];
+  elements: ElementDef[];
+}
+
+const MAX_ROWS = 40;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Living bot lineages with their genomes; extinct ancestors are kept so the family tree stays readable
+export const PopulationPanel: React.FC<PopulationPanelProps> = ({ population, elements }) => {
+  const nameOf = (id: number) => elements.find(e => e.id === id)?.name ?? `#${id}`;
+  const colorOf = (id: number) => elements.find(e => e.id === id)?.color ?? '#FF00FF';
+  const living = population.reduce((sum, l) => sum + l.population, 0);
+  const largest = Math.max(1, ...population.map(l => l.population));
+  const rows = [...population]
+    .sort((a, b) => b.population - a.population || a.generation - b.generation || a.id - b.id)
+    .slice(0, MAX_ROWS);
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900 text-white w-72 border-l border-gray-700 p-4 shadow-xl z-10 hidden md:flex">
+      <h2 className="text-sm font-semibold text-gray-400 mb-1 uppercase tracking-wider flex items-center gap-2">
+        <span>🧬</span> Population
+      </h2>
+      <div className="text-[10px] text-gray-500 mb-3">
+        {living} bots in {population.filter(l => l.population > 0).length} lineages
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar font-mono text-xs space-y-2 pr-1">
+        {rows.length === 0 && (
+            <div className="text-gray-600 text-center mt-10 italic">
+                Paint some Nanobots next to Scrap and Electricity...
+            </div>
+        )}
+        {rows.map(l => (
+          <div key={l.id} className={`border-b border-gray-800 pb-2 ${l.population === 0 ? 'opacity-40' : ''}`}>
+            <div className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: colorOf(l.elementId) }} />
+              <span className="text-gray-200 font-bold">#{l.id}</span>
+              <span className="text-gray-500">gen {l.generation}</span>
+              {l.parent !== undefined && <span className="text-gray-600">from #{l.parent}</span>}
+              <span className="ml-auto text-gray-300">{l.population > 0 ? l.population : 'extinct'}</span>
+            </div>
+            <div className="h-1 bg-gray-800 rounded mt-1">
+              <div className="h-1 bg-fuchsia-500 rounded" style={{ width: `${(l.population / largest) * 100}%` }} />
+            </div>
+            <div className="text-[10px] text-gray-400 mt-1 leading-relaxed">
+              eats {nameOf(l.genome.food)} · replicates at {percent(l.genome.replicateAt)} · mutation {percent(l.genome.mutationRate)}
+              <br />
+              moves {l.genome.moveBias < -0.1 ? '←' : l.genome.moveBias > 0.1 ? '→' : '↔'} {l.genome.moveBias.toFixed(2)} · climbs {percent(l.genome.climb)} · since tick {l.founded}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,113 @@
 import React, { useEffect, useRef, useState, useCallback, useImperativeHandle, forwardRef } from 'react';
-import { PhysicsType, ElementDef, GrowthStyle } from '../types';
-import { GRID_HEIGHT, GRID_WIDTH } from '../constants';
-import { discoverReaction } from '../services/geminiService';
+import { BoundaryMode, DrawTool, ElectricRole, PhysicsType, ElementDef, LineageStats, ReactionOutcome, ReactionResult, RunState, StatsSample, WorldInfo } from '../types';
+import { discoverReaction, getActiveProvider } from '../services/aiService';
+import { lookupReaction, rememberReaction } from '../services/reactionLibrary';
+import { createStatsHistory } from '../services/statsHistory';
+import { PlacedStamp, Stamp, captureStamp } from '../services/stampLibrary';
+import { SimulationInput, countElements, reactionElements, reactionKey, resolveOutcome } from '../engine/SimulationEngine';
+import { ReactionCacheSnapshot, SimulationClient, SimulationFrame, createSimulationClient } from '../engine/simulationClient';
+import { RecordedRun } from '../engine/replay';
+import { Scenario, ScenarioProgress } from '../engine/scenario';
+import { TimelineInfo } from '../engine/timeline';
+import { CellInfo, CellInspector, ReactionStatus } from './CellInspector';
+import { WorldFile } from '../engine/worldFile';
+import { AMBIENT_TEMPERATURE, BOUNDARY_LABELS, SIMULATION_SPEEDS, STATS_HISTORY_LENGTH, STATS_INTERVAL } from '../constants';
+
+// Thermal view palette: blue (cold) -> dark (ambient) -> red -> yellow -> white (very hot)
+const THERMAL_STOPS: [number, [number, number, number]][] = [
+  [-50, [40, 90, 255]],
+  [AMBIENT_TEMPERATURE, [10, 10, 30]],
+  [100, [200, 30, 30]],
+  [400, [255, 200, 0]],
+  [800, [255, 255, 255]],
+];
+
+const thermalColor = (t: number): [number, number, number] => {
+  if (t <= THERMAL_STOPS[0][0]) return THERMAL_STOPS[0][1];
+  for (let s = 1; s < THERMAL_STOPS.length; s++) {
+    const [t1, c1] = THERMAL_STOPS[s];
+    if (t <= t1) {
+      const [t0, c0] = THERMAL_STOPS[s - 1];
+      const f = (t - t0) / (t1 - t0);
+      return [c0[0] + (c1[0] - c0[0]) * f, c0[1] + (c1[1] - c0[1]) * f, c0[2] + (c1[2] - c0[2]) * f];
+    }
+  }
+  return THERMAL_STOPS[THERMAL_STOPS.length - 1][1];
+};
+
+// One entry per whole degree between the first and last stop, so rendering is a lookup
+const THERMAL_MIN = THERMAL_STOPS[0][0];
+const THERMAL_MAX = THERMAL_STOPS[THERMAL_STOPS.length - 1][0];
+const THERMAL_LUT = new Uint8ClampedArray((THERMAL_MAX - THERMAL_MIN + 1) * 3);
+for (let t = THERMAL_MIN; t <= THERMAL_MAX; t++) THERMAL_LUT.set(thermalColor(t), (t - THERMAL_MIN) * 3);
+
+// The canvas is fitted into this box without stretching the world
+const VIEWPORT_WIDTH = 800;
+const VIEWPORT_HEIGHT = 600;
+// Longest side of the screenshots sent to the Supervisor
+const SCREENSHOT_SIZE = 512;
+
+// Share of the circle's cells each frame of spraying fills
+const SPRAY_CHANCE = 0.05;
+const MIN_SPRAY_RADIUS = 3;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// The input for a use of a drawing tool: shapes go from `from` to `to`, fill starts at `from`,
+// and the brush-like tools paint at `to`.
+const toolInput = (tool: DrawTool, elementId: number, radius: number, from: Point, to: Point, targetId = 0): SimulationInput => {
+  switch (tool) {
+    case DrawTool.SPRAY:
+      return { type: 'draw', elementId, shape: { kind: 'spray', x: to.x, y: to.y, radius: Math.max(MIN_SPRAY_RADIUS, radius), chance: SPRAY_CHANCE } };
+    case DrawTool.LINE:
+      return { type: 'draw', elementId, shape: { kind: 'line', x0: from.x, y0: from.y, x1: to.x, y1: to.y, radius } };
+    case DrawTool.RECT:
+    case DrawTool.FILLED_RECT:
+      return {
+        type: 'draw', elementId,
+        shape: { kind: 'rect', x0: from.x, y0: from.y, x1: to.x, y1: to.y, radius, filled: tool === DrawTool.FILLED_RECT },
+      };
+    case DrawTool.FILL:
+      return { type: 'draw', elementId, shape: { kind: 'fill', x: from.x, y: from.y } };
+    case DrawTool.REPLACE:
+      return { type: 'draw', elementId, shape: { kind: 'replace', x: to.x, y: to.y, radius, targetId } };
+    default:
+      return { type: 'paint', x: to.x, y: to.y, radius, elementId };
+  }
+};
+
+// Stamps are pasted centered on the cursor
+const stampCorner = (at: Point, stamp: PlacedStamp): Point =>
+  ({ x: at.x - Math.floor(stamp.width / 2), y: at.y - Math.floor(stamp.height / 2) });
+
+// Tools drawn once from press to release rather than every frame while held
+const isShapeTool = (tool: DrawTool) => tool === DrawTool.LINE || tool === DrawTool.RECT || tool === DrawTool.FILLED_RECT;
+
+// Colors and physics by element ID, rebuilt only when the engine's elements change
+interface Palette {
+  rgb: Uint8ClampedArray;
+  physics: (PhysicsType | undefined)[];
+  lamps: Uint8Array; // 1 for elements that light up while charged
+}
+
+const buildPalette = (elements: ElementDef[]): Palette => {
+  const size = Math.max(0, ...elements.map(e => e.id)) + 1;
+  const rgb = new Uint8ClampedArray(size * 3);
+  const physics: (PhysicsType | undefined)[] = new Array(size);
+  const lamps = new Uint8Array(size);
+  elements.forEach(el => {
+    const hex = el.color.replace('#', '');
+    rgb[el.id * 3] = parseInt(hex.substring(0, 2), 16);
+    rgb[el.id * 3 + 1] = parseInt(hex.substring(2, 4), 16);
+    rgb[el.id * 3 + 2] = parseInt(hex.substring(4, 6), 16);
+    physics[el.id] = el.physics;
+    if (el.electric === ElectricRole.LAMP) lamps[el.id] = 1;
+  });
+  return { rgb, physics, lamps };
+};
 
 interface SandboxProps {
   elements: ElementDef[];
@@ -9,13 +115,54 @@ interface SandboxProps {
   onReaction: (a: string, b: string, result: string, isNew: boolean) => void;
   selectedElementId: number;
   brushSize: number;
+  tool?: DrawTool;
   triggerClear: number;
+  seed: number;
+  width: number; // Size of new worlds; loaded worlds and replays keep their own
+  height: number;
+  boundary: BoundaryMode; // Edges of new worlds
+  replay?: RecordedRun | null; // When set, the sandbox plays this run back instead of accepting input
+  world?: WorldFile | null; // Saved world to start from (its seed must match `seed`)
+  scenario?: Scenario | null; // Challenge set up on new worlds (a new object starts it over)
+  thermalView?: boolean; // Render temperatures instead of materials
+  inspect?: boolean; // Hovering shows what a cell is instead of the mouse painting
+  selectingStamp?: boolean; // Dragging selects a region, which is handed to onStampCaptured
+  onStampCaptured?: (stamp: Omit<Stamp, 'name'>) => void;
+  stamp?: PlacedStamp | null; // Armed stamp: clicking pastes it centered on the cursor
+  onPopulation?: (population: LineageStats[]) => void; // Bot lineages, a few times per second
+  onStatsSample?: (samples: StatsSample[]) => void; // Element counts over time, after every new sample
+  onTimeline?: (timeline: TimelineInfo) => void; // Snapshots and undo steps, whenever they change
+  onRunStateChange?: (state: RunState) => void; // After pausing, resuming or changing speed
+  onScenarioProgress?: (progress: ScenarioProgress) => void; // When an objective changes, else every few ticks
+}
+
+// Positions are percentages of the world, like the Supervisor's
+export interface AgentDrawOptions {
+    tool?: DrawTool; // BRUSH when missing
+    x2?: number; // End of lines and rectangles
+    y2?: number;
+    targetId?: number; // The element REPLACE paints over
 }
 
 export interface SandboxRef {
     getStats: () => Record<string, number>;
+    getStatsHistory: () => StatsSample[]; // Oldest first, one sample every STATS_INTERVAL ticks
     getImageData: () => string | null;
-    agentDraw: (xPct: number, yPct: number, elementId: number, radius: number) => void;
+    getWorldInfo: () => WorldInfo;
+    agentDraw: (xPct: number, yPct: number, elementId: number, radius: number, options?: AgentDrawOptions) => void;
+    exportRun: () => Promise<RecordedRun | null>;
+    exportWorld: () => Promise<WorldFile | null>;
+    exportReactions: () => Promise<ReactionCacheSnapshot | null>;
+    // Time travel (live worlds only): undo/redo paint strokes, snapshot now, go back to a snapshot
+    undo: () => void;
+    redo: () => void;
+    checkpoint: () => void;
+    rewind: (snapshotId: number) => void;
+    // Run controls. While paused nothing advances (reactions wait to be asked too) except single steps.
+    getRunState: () => RunState;
+    setPaused: (paused: boolean) => void;
+    setSpeed: (speed: number) => void; // Ticks per frame, snapped to the nearest of SIMULATION_SPEEDS
+    stepOnce: () => void; // Pauses and advances one tick
 }
 
 export const Sandbox = forwardRef<SandboxRef, SandboxProps>(({
@@ -24,39 +171,34 @@ export const Sandbox = forwardRef<SandboxRef, SandboxProps>(({
   onReaction,
   selectedElementId,
   brushSize,
+  tool = DrawTool.BRUSH,
   triggerClear,
+  seed,
+  width,
+  height,
+  boundary,
+  replay,
+  world,
+  scenario,
+  thermalView = false,
+  inspect = false,
+  selectingStamp = false,
+  onStampCaptured,
+  stamp,
+  onPopulation,
+  onStatsSample,
+  onTimeline,
+  onRunStateChange,
+  onScenarioProgress,
 }, ref) => {
-  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
-  const clampProb = (value: unknown, max: number) => {
-    if (typeof value !== 'number' || !Number.isFinite(value)) return 0;
-    return clamp(value, 0, max);
-  };
-
-  // Safety limits (simulator-enforced; independent of Gemini prompts)
-  const MAX_DECAY_CHANCE = 0.25; // caps per-tick decay probability
-  const BASE_ENERGY_SPREAD_CHANCE = 0.02; // max diffusion probability per tick
-  const MAX_NEW_ENERGY_PER_TICK = Math.floor(GRID_WIDTH * GRID_HEIGHT * 0.02); // caps new energy pixels per tick
-
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isThinking, setIsThinking] = useState(false);
   const [thinkingMessage, setThinkingMessage] = useState<string>('');
 
-  // Simulation State
-  const gridRef = useRef<Int32Array>(new Int32Array(GRID_WIDTH * GRID_HEIGHT).fill(0));
-  const nextGridRef = useRef<Int32Array>(new Int32Array(GRID_WIDTH * GRID_HEIGHT).fill(0));
-  
-  // Energy Grid (Overlay for Fire, Electricity, etc)
-  const energyGridRef = useRef<Int32Array>(new Int32Array(GRID_WIDTH * GRID_HEIGHT).fill(0));
-  const nextEnergyGridRef = useRef<Int32Array>(new Int32Array(GRID_WIDTH * GRID_HEIGHT).fill(0));
-
-  // Density/Mass (0.0 to 1.0+) for Materials. 
-  // For LIFE: Represents Hydration/Growth Potential. 1.0 = 1 pixel of growth.
-  const densityRef = useRef<Float32Array>(new Float32Array(GRID_WIDTH * GRID_HEIGHT).fill(0));
-  const nextDensityRef = useRef<Float32Array>(new Float32Array(GRID_WIDTH * GRID_HEIGHT).fill(0));
-
-  // Reaction Cache
-  const reactionsCache = useRef<Map<string, number>>(new Map());
-  const pendingResolution = useRef<Map<string, string>>(new Map());
+  // Reaction Cache (lives in the worker's engine; this mirrors its keys, results waiting for
+  // their element to be added live here)
+  const knownReactions = useRef<Set<string>>(new Set());
+  const pendingResolution = useRef<Map<string, ReactionResult>>(new Map());
   
   // Reaction Queue Management
   const pendingReactions = useRef<Set<string>>(new Set());
@@ -67,185 +209,358 @@ export const Sandbox = forwardRef<SandboxRef, SandboxProps>(({
   const MAX_CONCURRENT_REQUESTS = 4;
   const MAX_QUEUE_SIZE = 50;
 
-  const isDrawing = useRef(false);
-  const mousePos = useRef({ x: 0, y: 0 });
+  const [replayFinished, setReplayFinished] = useState(false);
+  const [awakeChunks, setAwakeChunks] = useState('');
+  const [tick, setTick] = useState(0);
+  const [runState, setRunStateValue] = useState<RunState>({ paused: false, speed: 1 });
+  // Read by the physics loop and the reaction queue without restarting them
+  const runStateRef = useRef(runState);
+  const pendingStepsRef = useRef(0); // Single steps asked for while paused
+  const redrawRef = useRef(false); // Something changed while paused, fetch a frame without stepping
+
+  // Simulation State: the engine runs in a worker, the main thread keeps the latest frame
+  const worldWidth = replay?.width ?? world?.width ?? width;
+  const worldHeight = replay?.height ?? world?.height ?? height;
+  const worldBoundary = (replay ? replay.boundary : world ? world.boundary : boundary) ?? BoundaryMode.WALLS;
+  const displayScale = Math.min(VIEWPORT_WIDTH / worldWidth, VIEWPORT_HEIGHT / worldHeight);
+  const clientRef = useRef<SimulationClient | null>(null);
+  const frameRef = useRef<SimulationFrame | null>(null); // Shown on the canvas
+  const incomingFrameRef = useRef<SimulationFrame | null>(null); // Arrived, not drawn yet
+  const paletteRef = useRef<Palette>(buildPalette(elements));
+  const frameElementsRef = useRef<ElementDef[]>(elements);
+  const statsHistoryRef = useRef(createStatsHistory(STATS_HISTORY_LENGTH));
+  const lastTickRef = useRef(0);
+
+  const send = (input: SimulationInput) => {
+    redrawRef.current = true;
+    clientRef.current?.input(input);
+  };
+
+  const setRunState = (next: Partial<RunState>) => {
+    runStateRef.current = { ...runStateRef.current, ...next };
+    setRunStateValue(runStateRef.current);
+    onRunStateChange?.(runStateRef.current);
+  };
 
-  const getIdx = (x: number, y: number) => {
-    if (x < 0 || x >= GRID_WIDTH || y < 0 || y >= GRID_HEIGHT) return -1;
-    return y * GRID_WIDTH + x;
+  // Undo, redo and rewinding change the world, which has to show even while paused
+  const travel = (go: (client: SimulationClient) => void) => {
+    if (replay || !clientRef.current) return;
+    go(clientRef.current);
+    redrawRef.current = true;
   };
 
+  const setReaction = (key: string, outcome: ReactionOutcome | null) => {
+    knownReactions.current.add(key);
+    send({ type: 'reaction', key, outcome });
+  };
+
+  const handleFrame = (frame: SimulationFrame) => {
+    if (frame.elements) {
+      frameElementsRef.current = frame.elements;
+      paletteRef.current = buildPalette(frame.elements);
+    }
+    frame.unknownReactions.forEach(key => {
+      if (
+          !knownReactions.current.has(key) &&
+          !pendingResolution.current.has(key) && 
+          !inflightReactions.current.has(key) &&
+          !isRateLimited.current && 
+          pendingReactions.current.size < MAX_QUEUE_SIZE
+      ) {
+          pendingReactions.current.add(key);
+      }
+    });
+    if (frame.replayFinished) setReplayFinished(true);
+    if (frame.population) onPopulation?.(frame.population);
+    if (frame.timeline) onTimeline?.(frame.timeline);
+    if (frame.scenario) onScenarioProgress?.(frame.scenario);
+    const previousTick = lastTickRef.current;
+    if (frame.tick < previousTick) {
+      // Rewound: the samples after this point never happened
+      statsHistoryRef.current.dropAfter(frame.tick);
+      onStatsSample?.(statsHistoryRef.current.samples());
+    }
+    lastTickRef.current = frame.tick;
+    // Frames can be several ticks apart, so sample whenever a multiple of the interval was passed
+    if (Math.floor(frame.tick / STATS_INTERVAL) > Math.floor(previousTick / STATS_INTERVAL)) {
+      statsHistoryRef.current.push({ tick: frame.tick, counts: countElements(frame.grid, frame.energyGrid, frameElementsRef.current) });
+      onStatsSample?.(statsHistoryRef.current.samples());
+    }
+    incomingFrameRef.current = frame;
+  };
+  const handleFrameRef = useRef(handleFrame);
+  handleFrameRef.current = handleFrame;
+
+  useEffect(() => {
+    const client = createSimulationClient(frame => handleFrameRef.current(frame));
+    clientRef.current = client;
+    return () => {
+      client.terminate();
+      clientRef.current = null;
+    };
+  }, []);
+
+  // A fresh (or loaded) recorded world per seed and size, or a playback of a recorded run
+  useEffect(() => {
+    if (world) {
+        // Element IDs in the loaded world may differ, so queued keys are meaningless now
+        pendingResolution.current.clear();
+        pendingReactions.current.clear();
+        knownReactions.current = new Set(world.reactions.map(([key]) => key));
+    }
+    // Otherwise discovered reactions are session knowledge; the worker keeps them across worlds
+    frameRef.current = null;
+    incomingFrameRef.current = null;
+    statsHistoryRef.current.clear();
+    onStatsSample?.([]);
+    lastTickRef.current = 0;
+    setReplayFinished(false);
+    clientRef.current?.init({ seed, width, height, boundary, elements, world, replay, scenario });
+  }, [seed, width, height, boundary, replay, world, scenario]);
+
+  // Read by the render loop without restarting it
+  const thermalViewRef = useRef(thermalView);
+  thermalViewRef.current = thermalView;
+
+  const isDrawing = useRef(false);
+  const mousePos = useRef({ x: 0, y: 0 });
+  const isHovering = useRef(false);
+  const strokeStart = useRef<Point>({ x: 0, y: 0 });
+  const replaceTarget = useRef(0); // What the REPLACE tool paints over, picked where the stroke starts
+  const [shapePreview, setShapePreview] = useState<{ from: Point; to: Point } | null>(null);
+  const [selection, setSelection] = useState<{ from: Point; to: Point } | null>(null);
+  const [stampAt, setStampAt] = useState<Point | null>(null); // Top-left corner of the armed stamp
+  const [inspection, setInspection] = useState<CellInfo | null>(null);
+
   // Expose methods for the Supervisor Agent
   useImperativeHandle(ref, () => ({
       getStats: () => {
-          const counts: Record<string, number> = {};
-          const grid = gridRef.current;
-          const totalPixels = grid.length;
-          
-          elements.forEach(e => counts[e.name] = 0);
-
-          let baseOccupied = 0;
-          for (let i = 0; i < grid.length; i++) {
-              if (grid[i] > 0) { // Ignore negative (consumed) values
-                  const elem = elements.find(e => e.id === grid[i]);
-                  if (elem) {
-                      counts[elem.name] = (counts[elem.name] || 0) + 1;
-                      baseOccupied++;
-                  }
-              }
-          }
-          
-          // Correctly set Empty count based on screen area
-          counts['Empty'] = totalPixels - baseOccupied;
-          counts['Total'] = totalPixels; // Explicit total for AI context
-
-          // Also check energy grid for fire/elec
-          const enGrid = energyGridRef.current;
-          for(let i=0; i<enGrid.length; i++) {
-              if(enGrid[i] !== 0) {
-                   const elem = elements.find(e => e.id === enGrid[i]);
-                   if (elem) counts[elem.name] = (counts[elem.name] || 0) + 1;
-              }
-          }
-          return counts;
+          const frame = frameRef.current;
+          return frame ? countElements(frame.grid, frame.energyGrid, frameElementsRef.current) : {};
       },
+      getStatsHistory: () => statsHistoryRef.current.samples(),
       getImageData: () => {
-          if (!canvasRef.current) return null;
+          const canvas = canvasRef.current;
+          if (!canvas) return null;
+          // Same aspect ratio as the world, scaled so small and large worlds give similar images
+          const scale = SCREENSHOT_SIZE / Math.max(canvas.width, canvas.height);
+          const shot = document.createElement('canvas');
+          shot.width = Math.round(canvas.width * scale);
+          shot.height = Math.round(canvas.height * scale);
+          const ctx = shot.getContext('2d');
+          if (!ctx) return null;
+          ctx.imageSmoothingEnabled = false;
+          ctx.drawImage(canvas, 0, 0, shot.width, shot.height);
           // Return base64 string without data prefix for API
-          return canvasRef.current.toDataURL('image/jpeg', 0.5).split(',')[1];
+          return shot.toDataURL('image/jpeg', 0.5).split(',')[1];
+      },
+      getWorldInfo: () => ({ width: worldWidth, height: worldHeight, boundary: worldBoundary }),
+      agentDraw: (xPct: number, yPct: number, elementId: number, radius: number, options: AgentDrawOptions = {}) => {
+          if (replay) return;
+          const toCell = (xp: number, yp: number) => ({
+              x: Math.floor((xp / 100) * worldWidth),
+              y: Math.floor((yp / 100) * worldHeight),
+          });
+          const from = toCell(xPct, yPct);
+          const to = options.x2 !== undefined && options.y2 !== undefined ? toCell(options.x2, options.y2) : from;
+          send(toolInput(options.tool ?? DrawTool.BRUSH, elementId, radius, from, to, options.targetId));
+      },
+      exportRun: () => clientRef.current?.exportRun() ?? Promise.resolve(null),
+      exportWorld: () => clientRef.current?.exportWorld() ?? Promise.resolve(null),
+      exportReactions: () => clientRef.current?.exportReactions() ?? Promise.resolve(null),
+      undo: () => travel(client => client.undo()),
+      redo: () => travel(client => client.redo()),
+      checkpoint: () => { if (!replay) clientRef.current?.checkpoint(); },
+      rewind: (snapshotId: number) => travel(client => client.rewind(snapshotId)),
+      getRunState: () => runStateRef.current,
+      setPaused: (paused: boolean) => setRunState({ paused }),
+      setSpeed: (speed: number) => setRunState({
+          speed: SIMULATION_SPEEDS.reduce((best, s) => Math.abs(s - speed) < Math.abs(best - speed) ? s : best),
+      }),
+      stepOnce: () => {
+          pendingStepsRef.current++;
+          if (!runStateRef.current.paused) setRunState({ paused: true });
       },
-      agentDraw: (xPct: number, yPct: number, elementId: number, radius: number) => {
-          const centerX = Math.floor((xPct / 100) * GRID_WIDTH);
-          const centerY = Math.floor((yPct / 100) * GRID_HEIGHT);
-          
-          const selectedElem = elements.find(e => e.id === elementId);
-          // Allow drawing "Empty" (elementId 0)
-          const isEnergy = selectedElem?.physics === PhysicsType.ENERGY;
-          const isErase = elementId === 0;
-
-          for (let dy = -radius; dy <= radius; dy++) {
-              for (let dx = -radius; dx <= radius; dx++) {
-                  if (dx*dx + dy*dy > radius*radius) continue;
-                  const px = centerX + dx;
-                  const py = centerY + dy;
-                  const idx = getIdx(px, py);
-                  
-                  if (idx !== -1) {
-                       if (isErase) {
-                           gridRef.current[idx] = 0;
-                           energyGridRef.current[idx] = 0;
-                           densityRef.current[idx] = 0;
-                       } else if (isEnergy) {
-                           energyGridRef.current[idx] = elementId;
-                       } else {
-                           gridRef.current[idx] = elementId;
-                           densityRef.current[idx] = 1.0;
-                       }
-                  }
-              }
-          }
-      }
   }));
 
   // Initialize / Clear
   useEffect(() => {
-    gridRef.current.fill(0);
-    nextGridRef.current.fill(0);
-    energyGridRef.current.fill(0);
-    nextEnergyGridRef.current.fill(0);
-    densityRef.current.fill(0);
-    nextDensityRef.current.fill(0);
+    if (replay) return;
+    // Clearing can be undone like a stroke (the first run is the initial clear)
+    const undoable = triggerClear > 0;
+    if (undoable) send({ type: 'beginStroke' });
+    send({ type: 'clear' });
+    if (undoable) send({ type: 'endStroke' });
   }, [triggerClear]);
 
   // Resolve pending reaction IDs
   useEffect(() => {
-    pendingResolution.current.forEach((name, key) => {
-       const existing = elements.find(e => e.name.toLowerCase() === name.toLowerCase());
-       if (existing) {
-           reactionsCache.current.set(key, existing.id);
+    if (replay) return;
+    send({ type: 'elements', elements });
+
+    pendingResolution.current.forEach((result, key) => {
+       const outcome = resolveOutcome(result, elements);
+       if (outcome) {
+           setReaction(key, outcome);
            pendingResolution.current.delete(key);
        }
     });
-
-    const getId = (n: string) => elements.find(e => e.name === n)?.id;
-    const w = getId('Water');
-    const e = getId('Electricity');
-    const h = getId('Hydrogen');
-    const o = getId('Oxygen');
-    const f = getId('Fire');
-    
-    const ignore = (id1?: number, id2?: number) => {
-        if (id1 !== undefined && id2 !== undefined) {
-            const key = id1 < id2 ? `${id1}:${id2}` : `${id2}:${id1}`;
-            reactionsCache.current.set(key, 0); 
-        }
-    };
-
-    // Standard exclusions
-    ignore(w, e); 
-    ignore(h, o); 
-    ignore(h, f); 
-    ignore(o, f); 
-    ignore(h, e); 
-    ignore(o, e); 
-
-    // Prevent LIFE elements from reacting chemically with Water
-    // We want physics absorption (Growth) to take precedence over mixing.
-    if (w !== undefined) {
-        elements.forEach(elem => {
-            if (elem.physics === PhysicsType.LIFE) {
-                ignore(w, elem.id);
-            }
-        });
-    }
-    
-  }, [elements]);
+  }, [elements, seed, width, height, boundary, replay, world]);
 
   // Input Handlers
-  const handleMouseDown = () => { isDrawing.current = true; };
-  const handleMouseUp = () => { isDrawing.current = false; };
+  // Each stroke (press to release) is one undo step
+  const handleMouseDown = () => {
+    if (inspect || replay) return;
+    const start = { ...mousePos.current };
+    strokeStart.current = start;
+    if (selectingStamp) {
+      setSelection({ from: start, to: start });
+      return;
+    }
+    send({ type: 'beginStroke' });
+    if (stamp) {
+      const { x, y } = stampCorner(start, stamp);
+      send({ type: 'stamp', x, y, width: stamp.width, height: stamp.height, grid: stamp.grid, energy: stamp.energy });
+      send({ type: 'endStroke' });
+      return;
+    }
+    const radius = Math.floor(brushSize / 2);
+    if (tool === DrawTool.FILL) {
+      send(toolInput(tool, selectedElementId, radius, start, start));
+      send({ type: 'endStroke' });
+      return;
+    }
+    if (tool === DrawTool.REPLACE) {
+      const frame = frameRef.current;
+      const i = start.y * worldWidth + start.x;
+      // The material there, or the energy when there is only energy
+      replaceTarget.current = frame && i >= 0 && i < frame.grid.length
+        ? frame.grid[i] || frame.energyGrid[i]
+        : 0;
+    }
+    if (isShapeTool(tool)) setShapePreview({ from: start, to: start });
+    isDrawing.current = true;
+  };
+  const handleMouseUp = () => {
+    const frame = frameRef.current;
+    if (selection && frame) {
+      const clamp = (v: number, size: number) => Math.min(size - 1, Math.max(0, v));
+      const x0 = clamp(Math.min(selection.from.x, selection.to.x), frame.width);
+      const y0 = clamp(Math.min(selection.from.y, selection.to.y), frame.height);
+      const x1 = clamp(Math.max(selection.from.x, selection.to.x), frame.width);
+      const y1 = clamp(Math.max(selection.from.y, selection.to.y), frame.height);
+      onStampCaptured?.(captureStamp(frame.grid, frame.energyGrid, frame.width, frameElementsRef.current, {
+        x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1,
+      }));
+      setSelection(null);
+    }
+    if (isDrawing.current && isShapeTool(tool)) {
+      send(toolInput(tool, selectedElementId, Math.floor(brushSize / 2), strokeStart.current, mousePos.current));
+      setShapePreview(null);
+    }
+    if (isDrawing.current) send({ type: 'endStroke' });
+    isDrawing.current = false;
+  };
+  const handleMouseLeave = () => {
+    handleMouseUp();
+    isHovering.current = false;
+    setStampAt(null);
+  };
   const handleMouseMove = (e: React.MouseEvent) => {
+    isHovering.current = true;
     const canvas = canvasRef.current;
     if (!canvas) return;
     const rect = canvas.getBoundingClientRect();
-    const scaleX = GRID_WIDTH / rect.width;
-    const scaleY = GRID_HEIGHT / rect.height;
+    const scaleX = worldWidth / rect.width;
+    const scaleY = worldHeight / rect.height;
     mousePos.current = {
       x: Math.floor((e.clientX - rect.left) * scaleX),
       y: Math.floor((e.clientY - rect.top) * scaleY),
     };
+    if (isDrawing.current && isShapeTool(tool)) setShapePreview({ from: strokeStart.current, to: mousePos.current });
+    if (selection) setSelection({ from: strokeStart.current, to: mousePos.current });
+    if (stamp) setStampAt(stampCorner(mousePos.current, stamp));
   };
 
+  // Held tools paint every frame; shapes wait for the release
   const paint = useCallback(() => {
-    if (!isDrawing.current) return;
-    const { x, y } = mousePos.current;
-    const r = Math.floor(brushSize / 2);
-    const selectedElem = elements.find(e => e.id === selectedElementId);
-    const isEnergy = selectedElem?.physics === PhysicsType.ENERGY;
-
-    for (let dy = -r; dy <= r; dy++) {
-      for (let dx = -r; dx <= r; dx++) {
-        if (dx*dx + dy*dy > r*r) continue; 
-        const px = x + dx;
-        const py = y + dy;
-        const idx = getIdx(px, py);
-        
-        if (idx !== -1) {
-            if (isEnergy) {
-                energyGridRef.current[idx] = selectedElementId;
-            } else {
-                gridRef.current[idx] = selectedElementId;
-                densityRef.current[idx] = 1.0; 
-            }
-        }
-      }
+    if (!isDrawing.current || isShapeTool(tool)) return;
+    const at = mousePos.current;
+    send(toolInput(tool, selectedElementId, Math.floor(brushSize / 2), at, at, replaceTarget.current));
+  }, [brushSize, selectedElementId, tool]);
+
+  // Inspector: reads the hovered cell from the latest frame a few times per second, and the engine's
+  // reaction cache (which also knows the pairs that never react) every second
+  useEffect(() => {
+    if (!inspect) {
+      setInspection(null);
+      return;
     }
-  }, [brushSize, selectedElementId, elements]);
+    let cache = new Map<string, ReactionOutcome | null>();
+    const refreshCache = () => clientRef.current?.exportReactions().then(snapshot => { cache = new Map(snapshot.reactions); });
+
+    const statusOf = (key: string): ReactionStatus => {
+      const outcome = cache.get(key);
+      if (outcome) return 'cached';
+      if (outcome === null) return 'inert';
+      if (pendingResolution.current.has(key)) return 'waiting';
+      if (inflightReactions.current.has(key)) return 'asking';
+      if (pendingReactions.current.has(key)) return 'queued';
+      return 'unreported';
+    };
+
+    const inspectCell = (frame: SimulationFrame, x: number, y: number): CellInfo => {
+      const i = y * frame.width + x;
+      const id = frame.grid[i];
+      const energyId = frame.energyGrid[i];
+      // The same partners the engine checks: the four neighbors and the energy overlay
+      const partners = new Set<number>();
+      if (id > 0) {
+        [[x, y - 1], [x, y + 1], [x - 1, y], [x + 1, y]].forEach(([nx, ny]) => {
+          if (nx < 0 || ny < 0 || nx >= frame.width || ny >= frame.height) return;
+          const n = frame.grid[ny * frame.width + nx];
+          if (n > 0 && n !== id) partners.add(n);
+        });
+        if (energyId !== 0 && energyId !== id) partners.add(energyId);
+      }
+      const names = new Map<number, string>(frameElementsRef.current.map(e => [e.id, e.name]));
+      return {
+        x, y, id, energyId,
+        value: frame.density[i],
+        temperature: frame.temperature[i],
+        charged: frame.charge[i] !== 0,
+        reactions: [...partners].map(partnerId => {
+          const key = reactionKey(id, partnerId);
+          const status = statusOf(key);
+          const products = status === 'cached'
+            ? cache.get(key)!.products.map(p => names.get(p.id) ?? `#${p.id}`)
+            : undefined;
+          return { partnerId, key, status, products };
+        }),
+      };
+    };
+
+    refreshCache();
+    let polls = 0;
+    const interval = setInterval(() => {
+      if (++polls % 5 === 0) refreshCache();
+      const frame = frameRef.current;
+      const { x, y } = mousePos.current;
+      const inside = frame && x >= 0 && y >= 0 && x < frame.width && y < frame.height;
+      setInspection(isHovering.current && inside ? inspectCell(frame, x, y) : null);
+    }, 200);
+    return () => clearInterval(interval);
+  }, [inspect]);
 
   // Reaction Processing
   const processReactions = useCallback(async () => {
     // Check limits
     if (isRateLimited.current) return;
+    // Paused worlds ask for nothing; queued pairs wait for the world to run again
+    if (runStateRef.current.paused) {
+        if (activeRequestCount.current === 0) setIsThinking(false);
+        return;
+    }
     if (activeRequestCount.current >= MAX_CONCURRENT_REQUESTS) return;
     if (pendingReactions.current.size === 0) {
         if (activeRequestCount.current === 0) setIsThinking(false);
@@ -272,7 +587,7 @@ export const Sandbox = forwardRef<SandboxRef, SandboxProps>(({
         pendingReactions.current.delete(reactionKey);
         
         // Double check cache just in case
-        if (reactionsCache.current.has(reactionKey) || pendingResolution.current.has(reactionKey) || inflightReactions.current.has(reactionKey)) {
+        if (knownReactions.current.has(reactionKey) || pendingResolution.current.has(reactionKey) || inflightReactions.current.has(reactionKey)) {
              return;
         }
 
@@ -286,20 +601,34 @@ export const Sandbox = forwardRef<SandboxRef, SandboxProps>(({
         if (elemA && elemB) {
             setThinkingMessage(`Mixing: ${elemA.name} + ${elemB.name}...`);
             try {
-                const result = await discoverReaction(elemA, elemB);
+                // Reuse what earlier sessions (or teammates) already discovered
+                const known = lookupReaction(elemA.name, elemB.name);
+                const result = known ? known.result : await discoverReaction(elemA, elemB);
+                if (!known && getActiveProvider().remote) rememberReaction(elemA.name, elemB.name, result);
                 
-                if (result) {
-                    const existing = elements.find(e => e.name.toLowerCase() === result.name.toLowerCase());
-                    if (existing) {
-                        reactionsCache.current.set(reactionKey, existing.id);
-                        onReaction(elemA.name, elemB.name, existing.name, false);
+                // Every product that is not an element yet is discovered along with the result
+                const newElements = result
+                  ? reactionElements(result).filter(made => !elements.some(e => e.name.toLowerCase() === made.name.toLowerCase()))
+                  : [];
+                newElements.forEach(onElementDiscovery);
+
+                if (result?.rule) {
+                    // Conditional or asymmetric reaction: the engine evaluates it as a rule for this pair
+                    send({ type: 'rule', rule: { ...result.rule, reactants: [elemA.name, elemB.name] } });
+                    setReaction(reactionKey, null);
+                    onReaction(elemA.name, elemB.name, result.rule.products.join(' + '), newElements.length > 0);
+                } else if (result) {
+                    const outcome = resolveOutcome(result, elements);
+                    const productNames = result.products?.length ? result.products.map(p => p.name).join(' + ') : result.name;
+                    if (outcome) {
+                        setReaction(reactionKey, outcome);
+                        onReaction(elemA.name, elemB.name, productNames, false);
                     } else {
-                        onElementDiscovery(result);
-                        pendingResolution.current.set(reactionKey, result.name);
-                        onReaction(elemA.name, elemB.name, result.name, true);
+                        pendingResolution.current.set(reactionKey, result);
+                        onReaction(elemA.name, elemB.name, productNames, true);
                     }
                 } else {
-                    reactionsCache.current.set(reactionKey, 0); 
+                    setReaction(reactionKey, null); 
                 }
             } catch (error: any) {
                 if (error.message === 'RATE_LIMIT') {
@@ -312,7 +641,7 @@ export const Sandbox = forwardRef<SandboxRef, SandboxProps>(({
                     }, 10000);
                 } else {
                     console.error("Reaction failed", error);
-                    reactionsCache.current.set(reactionKey, 0); // Cache failure as no-reaction to prevent infinite retry loop
+                    setReaction(reactionKey, null); // Cache failure as no-reaction to prevent infinite retry loop
                 }
             }
         }
@@ -334,797 +663,137 @@ export const Sandbox = forwardRef<SandboxRef, SandboxProps>(({
     return () => clearInterval(interval);
   }, [processReactions]);
 
+  // Footer stats, sampled rather than re-rendering every frame
+  useEffect(() => {
+    const interval = setInterval(() => {
+        const frame = frameRef.current;
+        setAwakeChunks(frame ? `${frame.awakeChunks}/${frame.totalChunks}` : '');
+        setTick(frame?.tick ?? 0);
+    }, 500);
+    return () => clearInterval(interval);
+  }, []);
 
-  // Physics Loop
+  // Physics Loop: ask the worker for the next step, draw whatever frame it sent last
   useEffect(() => {
     let animationId: number;
-    
+    let imgData: ImageData | null = null;
+    let tickBudget = 0; // Ticks owed at the current speed, fractional below 1x
+
     const update = () => {
-      // 1. Sanitize Grid (Cleanup consumed particles from previous frame)
-      // -1 marks a consumed water particle. It must be reset to 0 (Empty) for this frame.
-      for (let k = 0; k < gridRef.current.length; k++) {
-          if (gridRef.current[k] < 0) gridRef.current[k] = 0;
+      if (!replay) paint();
+      const client = clientRef.current;
+      const { paused, speed } = runStateRef.current;
+      if (client && !paused) {
+        // Ticks owed while a step is still in flight pile up to one frame's worth, not more
+        tickBudget = Math.min(tickBudget + speed, Math.max(1, speed));
+        const ticks = Math.floor(tickBudget);
+        if (ticks > 0 && client.step(ticks)) tickBudget -= ticks;
+      } else if (client && pendingStepsRef.current > 0) {
+        if (client.step(1)) pendingStepsRef.current--;
+      } else if (client && redrawRef.current) {
+        if (client.step(0)) redrawRef.current = false;
       }
 
-      paint();
-
-      const grid = gridRef.current;
-      const nextGrid = nextGridRef.current;
-      const energyGrid = energyGridRef.current;
-      const nextEnergyGrid = nextEnergyGridRef.current;
-      const density = densityRef.current;
-      const nextDensity = nextDensityRef.current;
-
-      nextGrid.fill(0);
-      nextDensity.fill(0);
-      nextEnergyGrid.fill(0);
-
-      let newEnergyThisTick = 0;
-      const setEnergy = (idx: number, energyId: number) => {
-        if (idx === -1) return false;
-        if (nextEnergyGrid[idx] === energyId) return true;
-        if (nextEnergyGrid[idx] === 0) {
-          if (newEnergyThisTick >= MAX_NEW_ENERGY_PER_TICK) return false;
-          newEnergyThisTick++;
+      const frame = incomingFrameRef.current;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (frame && ctx) {
+        incomingFrameRef.current = null;
+        if (!imgData || imgData.width !== frame.width || imgData.height !== frame.height) {
+            imgData = ctx.createImageData(frame.width, frame.height);
         }
-        nextEnergyGrid[idx] = energyId;
-        return true;
-      };
-
-      const elemMap = new Map<number, ElementDef>();
-      elements.forEach(e => elemMap.set(e.id, e));
-
-      const getId = (name: string) => elements.find(e => e.name === name)?.id;
-      const waterId = getId('Water');
-      const elecId = getId('Electricity');
-      const hydroId = getId('Hydrogen');
-      const oxyId = getId('Oxygen');
-      const fireId = getId('Fire');
-      const heaterId = getId('Heater');
-      const fanId = getId('Fan');
-      const waterWheelId = getId('Water Wheel');
-      const scrapId = getId('Scrap');
-
-      // Iterate Bottom to Top 
-      for (let y = GRID_HEIGHT - 1; y >= 0; y--) {
-        const leftToRight = Math.random() > 0.5;
-        const xStart = leftToRight ? 0 : GRID_WIDTH - 1;
-        const xEnd = leftToRight ? GRID_WIDTH : -1;
-        const xStep = leftToRight ? 1 : -1;
-
-        for (let x = xStart; x !== xEnd; x += xStep) {
-          const i = getIdx(x, y);
-          
-          // --- ENERGY PHYSICS (Decay & Spread) ---
-          const enId = energyGrid[i];
-          if (enId !== 0) {
-              const enElem = elemMap.get(enId);
-              if (enElem) {
-                   const decayChance = clampProb(enElem.decayChance, MAX_DECAY_CHANCE);
-                   // Decay
-                   if (Math.random() > decayChance) {
-                       nextEnergyGrid[i] = enId;
-                       
-                       // Simple Spread (Diffusion)
-                       // Disable spread for Electricity to keep it as a static source
-                       const isStatic = enId === elecId;
-
-                       // Prevent runaway energy growth by tying spread probability to decay probability.
-                       // (Low-decay energy spreads slowly; zero-decay becomes static.)
-                       const spreadChance = Math.min(BASE_ENERGY_SPREAD_CHANCE, decayChance);
-                       if (!isStatic && spreadChance > 0 && Math.random() < spreadChance) {
-                            const dirs = [getIdx(x+1, y), getIdx(x-1, y), getIdx(x, y-1), getIdx(x, y+1)];
-                            const validDirs = dirs.filter(d => d !== -1 && nextEnergyGrid[d] === 0);
-                            if (validDirs.length > 0) {
-                                const dest = validDirs[Math.floor(Math.random() * validDirs.length)];
-                                setEnergy(dest, enId);
-                            }
-                       }
-                   }
-              }
-          }
-
-          // --- MATERIAL PHYSICS ---
-          const cellId = grid[i];
-          if (cellId <= 0) continue; // Skip empty or consumed (-1) cells
-          if (nextGrid[i] !== 0) continue; // Already moved/consumed in next state
-
-          const elem = elemMap.get(cellId);
-          if (!elem) continue;
-
-          let currentMass = density[i];
-          if (currentMass <= 0.005) currentMass = 0; 
-          // For LIFE, currentMass can be 0 (dry), so we continue even if 0.
-          if (elem.physics !== PhysicsType.LIFE && currentMass === 0) continue;
-
-          const neighbors = [
-              getIdx(x, y-1),
-              getIdx(x, y+1),
-              getIdx(x-1, y),
-              getIdx(x+1, y)
-          ];
-          
-          // HARDCODED REACTIONS
-          if (cellId === waterId && elecId !== undefined && hydroId !== undefined && oxyId !== undefined) {
-              let hasElec = enId === elecId;
-              if (!hasElec) {
-                   for (const nIdx of neighbors) {
-                      if (nIdx !== -1 && energyGrid[nIdx] === elecId) { hasElec = true; break; }
-                  }
-              }
-              if (hasElec && Math.random() < 0.2) {
-                  nextGrid[i] = Math.random() > 0.5 ? hydroId : oxyId;
-                  nextDensity[i] = 1.0; 
-                  continue; 
-              }
-          }
-
-          if (cellId === hydroId) {
-               let ignited = enId === fireId || enId === elecId;
-               if (!ignited) {
-                    for (const nIdx of neighbors) {
-                        if (nIdx !== -1) {
-                            const nEn = energyGrid[nIdx];
-                            const nMat = grid[nIdx];
-                            if (nEn === fireId || nEn === elecId || nMat === fireId || nMat === heaterId) { ignited = true; break; }
-                        }
-                    }
-               }
-               if (ignited && fireId) {
-                   nextGrid[i] = 0; // Burn away
-                   const smokeId = getId('Smoke');
-                   if (smokeId) {
-                       nextGrid[i] = smokeId;
-                       nextDensity[i] = 1.0;
-                   } 
-                   setEnergy(i, fireId);
-                   continue; 
-               }
-          }
-          
-          if (cellId === oxyId && waterId !== undefined && fireId !== undefined) {
-              let touchedFire = enId === fireId;
-              if (!touchedFire) {
-                  for(const nIdx of neighbors) {
-                      if (nIdx !== -1 && (energyGrid[nIdx] === fireId || grid[nIdx] === heaterId)) { touchedFire = true; break; }
-                  }
-              }
-              if (touchedFire) {
-                  if (Math.random() < 0.3) {
-                      nextGrid[i] = waterId;
-                      nextDensity[i] = 1.0;
-                  } else {
-                      nextGrid[i] = 0;
-                  }
-                  setEnergy(i, fireId);
-                  continue;
-              }
-          }
-
-          // Default Decay
-          const materialDecayChance = clampProb(elem.decayChance, MAX_DECAY_CHANCE);
-          if (elem.physics !== PhysicsType.BOT && elem.decayTo !== undefined && Math.random() < materialDecayChance) {
-             nextGrid[i] = elem.decayTo;
-             nextDensity[i] = currentMass * 0.9;
-             continue;
-          }
-          
-          // MOVEMENT PHYSICS
-          let moved = false;
-
-          // --- BOT LOGIC ---
-          if (elem.physics === PhysicsType.BOT) {
-              let battery = currentMass;
-
-              // 1. Check Hazards (Water kills bots)
-              let dead = false;
-              for (const n of neighbors) {
-                  if (n!==-1 && grid[n]!==0) {
-                      const nEl = elemMap.get(grid[n]);
-                      if (nEl?.physics === PhysicsType.LIQUID) {
-                          dead = true;
-                          break;
-                      }
-                  }
-              }
-              if (dead) {
-                  if (elem.decayTo) nextGrid[i] = elem.decayTo;
-                  else nextGrid[i] = 0;
-                  nextDensity[i] = 1.0;
-                  continue;
-              }
-
-              // 2. Recharge
-              let charging = enId === elecId;
-              if (!charging) {
-                   for(const n of neighbors) {
-                       if (n!==-1 && energyGrid[n] === elecId) { charging = true; break; }
-                   }
-              }
-              if (charging) battery = 1.0;
-
-              // 3. Drain Battery
-              battery -= 0.002; // Drain rate
-              if (battery <= 0) {
-                  if (elem.decayTo) nextGrid[i] = elem.decayTo;
-                  else nextGrid[i] = 0;
-                  nextDensity[i] = 1.0;
-                  continue;
-              }
-              
-              // 4. Replication (Automata Rule)
-              // If high battery and touching SCRAP or WALL, turn it into a bot
-              if (battery > 0.8 && Math.random() < 0.05) {
-                   const targets = neighbors.filter(n => {
-                       if (n === -1) return false;
-                       const nid = grid[n];
-                       return nid !== 0 && (nid === scrapId || nid === 1); // Scrap or Wall
-                   });
-                   
-                   if (targets.length > 0) {
-                       const target = targets[Math.floor(Math.random() * targets.length)];
-                       if (nextGrid[target] === 0) { // Only if not moved yet
-                           nextGrid[target] = cellId;
-                           nextDensity[target] = 0.5; // Start with half charge
-                           battery -= 0.1; // Cost to replicate
-                       }
-                   }
-              }
-
-              // 5. Movement (Fall, then Crawl)
-              const down = getIdx(x, y + 1);
-              if (down !== -1 && grid[down] === 0 && nextGrid[down] === 0) {
-                  nextGrid[down] = cellId;
-                  nextDensity[down] = battery;
-                  moved = true;
-              } else {
-                  // Crawl
-                  const l = getIdx(x - 1, y);
-                  const r = getIdx(x + 1, y);
-                  const dirs = [];
-                  if (l!==-1 && grid[l]===0 && nextGrid[l]===0) dirs.push(l);
-                  if (r!==-1 && grid[r]===0 && nextGrid[r]===0) dirs.push(r);
-                  
-                  // Climb over small obstacles
-                  if (dirs.length === 0) {
-                      const ul = getIdx(x - 1, y - 1);
-                      const ur = getIdx(x + 1, y - 1);
-                      if (ul!==-1 && grid[ul]===0 && nextGrid[ul]===0) dirs.push(ul);
-                      if (ur!==-1 && grid[ur]===0 && nextGrid[ur]===0) dirs.push(ur);
-                  }
-
-                  if (dirs.length > 0) {
-                      const dest = dirs[Math.floor(Math.random() * dirs.length)];
-                      nextGrid[dest] = cellId;
-                      nextDensity[dest] = battery;
-                      moved = true;
-                  }
-              }
-
-              if (!moved) {
-                  nextGrid[i] = cellId;
-                  nextDensity[i] = battery;
-              }
-              continue; // Skip generic movement
-          }
-
-          if (elem.physics === PhysicsType.MECHANISM) {
-              nextGrid[i] = cellId;
-              nextDensity[i] = currentMass;
-              
-              if (cellId === waterWheelId) {
-                  const top = getIdx(x, y-1);
-                  if (top !== -1 && grid[top] !== 0) {
-                      const topId = grid[top];
-                      const topEl = elemMap.get(topId);
-                      if (topEl?.physics === PhysicsType.LIQUID && nextGrid[top] === 0) {
-                           const right = getIdx(x+1, y);
-                           const left = getIdx(x-1, y);
-                           const dests = [right, left].filter(d => d !== -1 && grid[d] === 0 && nextGrid[d] === 0);
-                           if (dests.length > 0) {
-                               const dest = dests[Math.floor(Math.random() * dests.length)];
-                               nextGrid[dest] = topId;
-                               nextDensity[dest] = density[top];
-                           }
-                      }
-                  }
-                  
-                  let touchingWater = false;
-                  for(const n of neighbors) {
-                      if (n !== -1 && grid[n] !== 0) {
-                          const nEl = elemMap.get(grid[n]);
-                          if (nEl?.physics === PhysicsType.LIQUID) touchingWater = true;
-                      }
-                  }
-                  if (touchingWater && Math.random() < 0.05 && elecId) {
-                      const empty = neighbors.filter(n => n !== -1 && energyGrid[n] === 0 && nextEnergyGrid[n] === 0); 
-                      if (empty.length > 0) {
-                          const t = empty[Math.floor(Math.random() * empty.length)];
-                          setEnergy(t, elecId);
-                      }
-                  }
-              }
-              
-              if (cellId === fanId) {
-                   const push = (nIdx: number) => {
-                      if (nIdx !== -1 && grid[nIdx] !== 0) {
-                          const gId = grid[nIdx];
-                          const gEl = elemMap.get(gId);
-                          if (gEl && (gEl.physics === PhysicsType.GAS)) {
-                              const up2 = getIdx(x, y-2);
-                              if (up2 !== -1 && grid[up2] === 0 && nextGrid[up2] === 0) {
-                                   nextGrid[up2] = gId;
-                                   nextDensity[up2] = density[nIdx];
-                                   if (nextGrid[nIdx] === gId) nextGrid[nIdx] = 0;
-                              }
-                          }
-                      }
-                   };
-                   push(getIdx(x, y+1));
-              }
-              
-              if (cellId === heaterId) {
-                   if (fireId && Math.random() < 0.2) {
-                       const up = getIdx(x, y-1);
-                       setEnergy(up, fireId);
-                   }
-                   neighbors.forEach(n => {
-                      if (n !== -1 && grid[n] === waterId) {
-                           if (nextGrid[n] === waterId) {
-                               nextGrid[n] = 0; // Steam/Empty
-                               if (Math.random() < 0.3 && fireId) setEnergy(n, fireId);
-                           }
-                      }
-                   });
-              }
-              continue;
-          }
-
-          // --- LIFE PHYSICS (Connected Growth) ---
-          if (elem.physics === PhysicsType.LIFE) {
-             
-             // Overcrowding Check (Spread style)
-             if (elem.growthStyle === GrowthStyle.SPREAD) {
-                  let sameNeighbors = 0;
-                  const allNeighbors = [
-                      getIdx(x-1,y-1), getIdx(x,y-1), getIdx(x+1,y-1),
-                      getIdx(x-1,y),              getIdx(x+1,y),
-                      getIdx(x-1,y+1), getIdx(x,y+1), getIdx(x+1,y+1)
-                  ];
-                  for(const n of allNeighbors) {
-                      if (n!==-1 && grid[n] === cellId) sameNeighbors++;
-                  }
-                  if (sameNeighbors >= 7 && Math.random() < 0.05) {
-                      nextGrid[i] = 0; // Die
-                      continue;
-                  }
-             }
-
-             // Support Check
-             const down = getIdx(x, y + 1);
-             const supportId = down !== -1 ? grid[down] : 0;
-             const supportElem = supportId > 0 ? elemMap.get(supportId) : null;
-             const hasSupport = supportId > 0 && (supportElem?.physics === PhysicsType.SOLID || supportElem?.physics === PhysicsType.POWDER || supportElem?.physics === PhysicsType.LIFE);
-
-             if ((elem.growthStyle === GrowthStyle.VERTICAL || elem.growthStyle === GrowthStyle.SURFACE) && !hasSupport) {
-                  if (Math.random() < 0.1) { 
-                       nextGrid[i] = 0;
-                       continue;
-                  }
-             }
-             
-             // Keep Alive
-             nextGrid[i] = cellId;
-
-             // --- HYDRODYNAMICS & GROWTH ---
-             // `myMass` represents absorbed water/nutrients. 1.0 = 1 pixel growth potential.
-             let myMass = currentMass; 
-
-             // 1. ABSORPTION: Drink water from neighbors
-             // Life can drink if touches Water.
-             if (myMass < 1.0 && waterId !== undefined) {
-                 const waterNeighbors = neighbors.filter(n => 
-                     n !== -1 && grid[n] === waterId && nextGrid[n] <= 0
-                 );
-                 if (waterNeighbors.length > 0) {
-                     const wIdx = waterNeighbors[Math.floor(Math.random() * waterNeighbors.length)];
-                     // Double check it hasn't been consumed
-                     if (nextGrid[wIdx] === 0) {
-                         nextGrid[wIdx] = -1; // Consume
-                         myMass += 1.0;
-                     }
-                 }
-             }
-
-             // 2. GROWTH: If we have enough mass/water, grow.
-             let didGrow = false;
-             if (myMass >= 1.0 && (elem.growthChance || 0) > 0) {
-                 if (Math.random() < (elem.growthChance || 0)) {
-                      let potentialGrowth: number[] = [];
-                      
-                      if (elem.growthStyle === GrowthStyle.SURFACE) {
-                          const l = getIdx(x - 1, y);
-                          const r = getIdx(x + 1, y);
-                          const ld = getIdx(x - 1, y + 1);
-                          const rd = getIdx(x + 1, y + 1);
-                          const isGround = (idx: number) => {
-                             if (idx === -1) return false;
-                             const id = grid[idx];
-                             if (id <= 0) return false;
-                             const e = elemMap.get(id);
-                             return e?.physics === PhysicsType.SOLID || e?.physics === PhysicsType.POWDER;
-                          };
-                          if (l !== -1 && grid[l] === 0 && nextGrid[l] === 0 && isGround(ld)) potentialGrowth.push(l);
-                          if (r !== -1 && grid[r] === 0 && nextGrid[r] === 0 && isGround(rd)) potentialGrowth.push(r);
-                      } else if (elem.growthStyle === GrowthStyle.VERTICAL) {
-                          const up = getIdx(x, y - 1);
-                          if (up !== -1 && grid[up] === 0 && nextGrid[up] === 0) potentialGrowth.push(up);
-                          
-                          if (Math.random() < 0.2) {
-                             const ul = getIdx(x - 1, y - 1);
-                             const ur = getIdx(x + 1, y - 1);
-                             if (ul !== -1 && grid[ul] === 0 && nextGrid[ul] === 0) potentialGrowth.push(ul);
-                             if (ur !== -1 && grid[ur] === 0 && nextGrid[ur] === 0) potentialGrowth.push(ur);
-                          }
-
-                          // Spawning Leaves (also requires mass)
-                          if (elem.relatedElementId && Math.random() < 0.3) {
-                              const dirs = [getIdx(x-1, y), getIdx(x+1, y), getIdx(x, y-1), getIdx(x-1, y-1), getIdx(x+1, y-1)];
-                              const valid = dirs.filter(d => d !== -1 && grid[d] === 0 && nextGrid[d] === 0);
-                              if (valid.length > 0) {
-                                  const leafDest = valid[Math.floor(Math.random() * valid.length)];
-                                  nextGrid[leafDest] = elem.relatedElementId;
-                                  nextDensity[leafDest] = 0; // New leaves start dry
-                                  myMass -= 1.0;
-                                  didGrow = true;
-                              }
-                          }
-                      } else if (elem.growthStyle === GrowthStyle.CLING) {
-                          const down = getIdx(x, y + 1);
-                          if (down !== -1 && grid[down] === 0 && nextGrid[down] === 0) potentialGrowth.push(down);
-                          let touchingWall = false;
-                          neighbors.forEach(n => {
-                              if (n!==-1 && grid[n]>0 && elemMap.get(grid[n])?.physics === PhysicsType.SOLID) touchingWall = true;
-                          });
-                          if (touchingWall) {
-                              const emptyNeighbors = neighbors.filter(n => n !== -1 && grid[n] === 0 && nextGrid[n] === 0);
-                              potentialGrowth.push(...emptyNeighbors);
-                          }
-                      } else {
-                          // SPREAD
-                          const dirs = [getIdx(x, y-1), getIdx(x, y+1), getIdx(x-1, y), getIdx(x+1, y)];
-                          potentialGrowth = dirs.filter(d => d !== -1 && grid[d] === 0 && nextGrid[d] === 0);
-                      }
-
-                      if (!didGrow && potentialGrowth.length > 0) {
-                          const growDest = potentialGrowth[Math.floor(Math.random() * potentialGrowth.length)];
-                          if (nextGrid[growDest] === 0) {
-                              nextGrid[growDest] = cellId;
-                              nextDensity[growDest] = 0; // Start dry
-                              myMass -= 1.0;
-                              didGrow = true;
-                          }
-                      }
-                 }
-             }
-
-             // 3. TRANSPORT: Diffuse mass to "drier" neighbors of connected type
-             // Allow bidirectional flow: Root <-> Leaf
-             if (myMass > 0) {
-                 const connected = neighbors.filter(n => {
-                     if (n === -1) return false;
-                     const nid = grid[n];
-                     if (nid <= 0) return false;
-
-                     // 1. Same element type (Tree to Tree)
-                     if (nid === cellId) return true;
-                     
-                     // 2. Parent -> Child (Tree -> Leaf)
-                     if (elem.relatedElementId && nid === elem.relatedElementId) return true;
-                     
-                     // 3. Child -> Parent (Leaf -> Tree)
-                     // Check if neighbor defines ME as its child
-                     const nElem = elemMap.get(nid);
-                     if (nElem && nElem.relatedElementId === cellId) return true;
-
-                     return false;
-                 });
-
-                 // Find neighbor with lowest density (gradient descent)
-                 // We look at `density` (previous frame) for stability
-                 connected.sort((a, b) => density[a] - density[b]);
-
-                 let transferred = false;
-                 if (connected.length > 0) {
-                     const target = connected[0];
-                     if (density[target] < myMass) {
-                         const diff = myMass - density[target];
-                         const transfer = diff * 0.5; // Equalize
-                         if (transfer > 0.05) {
-                             nextDensity[target] += transfer; // Give to neighbor
-                             myMass -= transfer; // Take from self
-                             transferred = true;
-                         }
-                     }
-                 }
-             }
-
-             // Store remaining mass
-             nextDensity[i] += myMass;
-
-             continue;
-          }
-
-          // SOLID (Static)
-          if (elem.physics === PhysicsType.SOLID) {
-             nextGrid[i] = cellId;
-             nextDensity[i] = currentMass;
-          } 
-          // POWDER
-          else if (elem.physics === PhysicsType.POWDER) {
-            const down = getIdx(x, y + 1);
-            if (down !== -1 && grid[down] === 0 && nextGrid[down] === 0) {
-                nextGrid[down] = cellId;
-                nextDensity[down] = currentMass;
-                moved = true;
-            } else if (down !== -1) {
-                 const targetId = nextGrid[down]; 
-                 if (targetId !== 0) {
-                     const targetElem = elemMap.get(targetId);
-                     if (targetElem && (targetElem.physics === PhysicsType.LIQUID || targetElem.physics === PhysicsType.GAS)) {
-                         nextGrid[down] = cellId;
-                         nextDensity[down] = currentMass;
-                         nextGrid[i] = targetId;
-                         nextDensity[i] = nextDensityRef.current[down];
-                         moved = true;
-                     }
-                 }
+        const data = imgData.data;
+        const { rgb, physics, lamps } = paletteRef.current;
+        const paletteSize = physics.length;
+
+        const gridData = frame.grid;
+        const energyData = frame.energyGrid;
+        const densityData = frame.density;
+        const temperatureData = frame.temperature;
+        const chargeData = frame.charge;
+        const time = Date.now() / 50; 
+        const showThermal = thermalViewRef.current;
+
+        for (let i = 0; i < gridData.length; i++) {
+            const id = gridData[i];
+            const enId = energyData[i];
+            const idx = i * 4;
+
+            if (showThermal) {
+                const t = Math.round(Math.min(THERMAL_MAX, Math.max(THERMAL_MIN, temperatureData[i])));
+                const lut = (t - THERMAL_MIN) * 3;
+                // Lift occupied cells slightly so shapes stay readable
+                const lift = id > 0 ? 25 : 0;
+                data[idx] = THERMAL_LUT[lut] + lift;
+                data[idx+1] = THERMAL_LUT[lut+1] + lift;
+                data[idx+2] = THERMAL_LUT[lut+2] + lift;
+                data[idx+3] = 255;
+                continue;
             }
 
-            if (!moved) {
-                const dl = getIdx(x - 1, y + 1);
-                const dr = getIdx(x + 1, y + 1);
-                const canL = dl !== -1 && grid[dl] === 0 && nextGrid[dl] === 0;
-                const canR = dr !== -1 && grid[dr] === 0 && nextGrid[dr] === 0;
-                if (canL && canR) {
-                    const dest = Math.random() > 0.5 ? dl : dr;
-                    nextGrid[dest] = cellId;
-                    nextDensity[dest] = currentMass;
-                    moved = true;
-                } else if (canL) {
-                    nextGrid[dl] = cellId;
-                    nextDensity[dl] = currentMass;
-                    moved = true;
-                } else if (canR) {
-                    nextGrid[dr] = cellId;
-                    nextDensity[dr] = currentMass;
-                    moved = true;
-                }
-            }
-          } 
-          // LIQUID
-          else if (elem.physics === PhysicsType.LIQUID) {
-             const down = getIdx(x, y + 1);
-             if (down !== -1 && grid[down] === 0 && nextGrid[down] === 0) {
-                nextGrid[down] = cellId;
-                nextDensity[down] = currentMass;
-                moved = true;
-             } else if (down !== -1) {
-                 const targetId = nextGrid[down];
-                 if (targetId !== 0) {
-                     const targetElem = elemMap.get(targetId);
-                     if (targetElem && targetElem.physics === PhysicsType.GAS) {
-                         nextGrid[down] = cellId;
-                         nextDensity[down] = currentMass;
-                         nextGrid[i] = targetId;
-                         nextDensity[i] = nextDensityRef.current[down];
-                         moved = true;
-                     }
-                 }
-             }
-
-             if (!moved) {
-                const l = getIdx(x - 1, y);
-                const r = getIdx(x + 1, y);
-                const canL = l !== -1 && grid[l] === 0 && nextGrid[l] === 0;
-                const canR = r !== -1 && grid[r] === 0 && nextGrid[r] === 0;
-                if (canL && canR) {
-                    const dest = Math.random() > 0.5 ? l : r;
-                    nextGrid[dest] = cellId;
-                    nextDensity[dest] = currentMass;
-                    moved = true;
-                } else if (canL) {
-                    nextGrid[l] = cellId;
-                    nextDensity[l] = currentMass;
-                    moved = true;
-                } else if (canR) {
-                    nextGrid[r] = cellId;
-                    nextDensity[r] = currentMass;
-                    moved = true;
-                }
-             }
-          }
-          // GAS
-          else if (elem.physics === PhysicsType.GAS) {
-             if (Math.random() < 0.15) { 
-                 const neighbors = [getIdx(x+1,y), getIdx(x-1,y), getIdx(x,y+1), getIdx(x,y-1)];
-                 const valid = neighbors.filter(n => n!==-1);
-                 const target = valid[Math.floor(Math.random() * valid.length)];
-                 const targetId = nextGrid[target];
-                 if (targetId !== 0 && targetId !== cellId) {
-                     const tElem = elemMap.get(targetId);
-                     if (tElem?.physics === PhysicsType.GAS) {
-                         nextGrid[target] = cellId;
-                         nextDensity[target] = currentMass;
-                         nextGrid[i] = targetId;
-                         nextDensity[i] = nextDensityRef.current[target];
-                         moved = true;
-                     }
-                 }
-             }
-
-             if (!moved) {
-                 const up = getIdx(x, y - 1);
-                 if (up !== -1 && nextGrid[up] === 0) {
-                     const upId = grid[up]; 
-                     if (upId !== 0) {
-                         const upElem = elemMap.get(upId);
-                         if (upElem && (upElem.physics === PhysicsType.LIQUID || upElem.physics === PhysicsType.POWDER)) {
-                             nextGrid[up] = cellId;
-                             nextDensity[up] = currentMass;
-                             nextGrid[i] = upId;
-                             nextDensity[i] = density[up];
-                             moved = true;
-                         }
-                     }
-                 }
-                 if (!moved) {
-                     let target = -1;
-                     if (up !== -1 && grid[up] === 0 && nextGrid[up] === 0) target = up;
-                     else {
-                         const dirs = [getIdx(x-1,y), getIdx(x+1,y), getIdx(x-1,y-1), getIdx(x+1,y-1)];
-                         const valid = dirs.filter(d => d!==-1 && grid[d]===0 && nextGrid[d]===0);
-                         if(valid.length>0) target = valid[Math.floor(Math.random()*valid.length)];
-                     }
-                     
-                     if (currentMass > 0.1 && target !== -1) {
-                         const half = currentMass / 2;
-                         nextGrid[i] = cellId; nextDensity[i] = half;
-                         nextGrid[target] = cellId; nextDensity[target] = half;
-                         moved = true;
-                     } else if (target !== -1) {
-                         nextGrid[target] = cellId; nextDensity[target] = currentMass;
-                         moved = true;
-                     }
-                 }
-             }
-          }
-
-          if (!moved && nextGrid[i] === 0) {
-              nextGrid[i] = cellId;
-              nextDensity[i] = currentMass;
-          }
-
-          // --- AI REACTION DISCOVERY ---
-          const queueReaction = (id1: number, id2: number) => {
-               if (id1 === id2) return;
-               const key = id1 < id2 ? `${id1}:${id2}` : `${id2}:${id1}`;
-               
-               if (reactionsCache.current.has(key)) {
-                    const res = reactionsCache.current.get(key);
-                    if (res && res > 0) { nextGrid[i] = res; nextDensity[i] = 1.0; }
-               } 
-               else if (
-                   !pendingResolution.current.has(key) && 
-                   !inflightReactions.current.has(key) &&
-                   !isRateLimited.current && 
-                   pendingReactions.current.size < MAX_QUEUE_SIZE
-               ) {
-                   pendingReactions.current.add(key);
-               }
-          };
-
-          for (const nIdx of neighbors) {
-              if (nIdx !== -1 && grid[nIdx] > 0) {
-                  queueReaction(cellId, grid[nIdx]);
-              }
-          }
-          if (enId !== 0) {
-              queueReaction(cellId, enId);
-          }
-        }
-      }
+            let r = 17, g = 17, b = 17, a = 255; 
 
-      gridRef.current.set(nextGrid);
-      densityRef.current.set(nextDensity);
-      energyGridRef.current.set(nextEnergyGrid);
-      
-      // Render
-      const canvas = canvasRef.current;
-      if (canvas) {
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-            const imgData = ctx.createImageData(GRID_WIDTH, GRID_HEIGHT);
-            const data = imgData.data;
-            const colorCache = new Map<number, [number, number, number]>();
-            
-            const gridData = gridRef.current;
-            const energyData = energyGridRef.current;
-            const densityData = densityRef.current;
-            const time = Date.now() / 50; 
-
-            for (let i = 0; i < gridData.length; i++) {
-                const id = gridData[i];
-                const enId = energyData[i];
-                const idx = i * 4;
-
-                let r = 17, g = 17, b = 17, a = 255; 
-
-                if (id > 0) {
-                    if (!colorCache.has(id)) {
-                        const el = elemMap.get(id);
-                        if (el) {
-                            const hex = el.color.replace('#', '');
-                            colorCache.set(id, [
-                                parseInt(hex.substring(0, 2), 16),
-                                parseInt(hex.substring(2, 4), 16),
-                                parseInt(hex.substring(4, 6), 16)
-                            ]);
-                        } else colorCache.set(id, [255,0,255]);
-                    }
-                    const [cr, cg, cb] = colorCache.get(id)!;
-                    const el = elemMap.get(id);
-                    
-                    if (el?.physics === PhysicsType.MECHANISM) {
-                         const noise = Math.sin(time + i * 0.1) * 30;
-                         r = cr + noise; g = cg + noise; b = cb + noise;
-                    } else if (el?.physics === PhysicsType.GAS) {
-                         const mass = densityData[i];
-                         a = Math.min(255, Math.max(40, Math.floor(mass * 255)));
-                         r=cr; g=cg; b=cb;
-                    } else if (el?.physics === PhysicsType.LIFE) {
-                        // Visualizing Hydration
-                        const hydration = Math.min(1.0, densityData[i]); // 0 to 1
-                        const noise = Math.sin(i * 132.1) * 10;
-                        // Brighter if hydrated
-                        r = Math.min(255, cr + noise + hydration * 40);
-                        g = Math.min(255, cg + noise + hydration * 40);
-                        b = Math.min(255, cb + noise + hydration * 40);
-                    } else if (el?.physics === PhysicsType.BOT) {
-                        const battery = densityData[i];
-                        // Fade out as battery dies
-                        r = cr * battery;
-                        g = cg * battery;
-                        b = cb * battery;
-                    } else {
-                         r=cr; g=cg; b=cb;
-                    }
+            if (id > 0) {
+                const known = id < paletteSize && physics[id] !== undefined;
+                const cr = known ? rgb[id * 3] : 255;
+                const cg = known ? rgb[id * 3 + 1] : 0;
+                const cb = known ? rgb[id * 3 + 2] : 255;
+                const elPhysics = known ? physics[id] : undefined;
+                
+                if (elPhysics === PhysicsType.MECHANISM) {
+                     const noise = Math.sin(time + i * 0.1) * 30;
+                     r = cr + noise; g = cg + noise; b = cb + noise;
+                } else if (elPhysics === PhysicsType.GAS) {
+                     const mass = densityData[i];
+                     a = Math.min(255, Math.max(40, Math.floor(mass * 255)));
+                     r=cr; g=cg; b=cb;
+                } else if (elPhysics === PhysicsType.LIFE) {
+                    // Visualizing Hydration
+                    const hydration = Math.min(1.0, densityData[i]); // 0 to 1
+                    const noise = Math.sin(i * 132.1) * 10;
+                    // Brighter if hydrated
+                    r = Math.min(255, cr + noise + hydration * 40);
+                    g = Math.min(255, cg + noise + hydration * 40);
+                    b = Math.min(255, cb + noise + hydration * 40);
+                } else if (elPhysics === PhysicsType.BOT) {
+                    const battery = densityData[i];
+                    // Fade out as battery dies
+                    r = cr * battery;
+                    g = cg * battery;
+                    b = cb * battery;
+                } else if (known && lamps[id]) {
+                    // Lit lamps glow, unpowered ones stay dim
+                    const light = chargeData[i] ? 1 : 0.35;
+                    r = cr * light; g = cg * light; b = cb * light;
+                } else {
+                     r=cr; g=cg; b=cb;
                 }
 
-                if (enId !== 0) {
-                    if (!colorCache.has(enId)) {
-                         const el = elemMap.get(enId);
-                         if (el) {
-                            const hex = el.color.replace('#', '');
-                            colorCache.set(enId, [
-                                parseInt(hex.substring(0, 2), 16),
-                                parseInt(hex.substring(2, 4), 16),
-                                parseInt(hex.substring(4, 6), 16)
-                            ]);
-                         } else colorCache.set(enId, [255, 255, 0]);
-                    }
-                    const [er, eg, eb] = colorCache.get(enId)!;
-                    
-                    r = Math.min(255, r + er * 0.8);
-                    g = Math.min(255, g + eg * 0.8);
-                    b = Math.min(255, b + eb * 0.8);
-                    if (id === 0) a = 200; 
+                // Charged wires and machines get a faint yellow tint
+                if (chargeData[i] && !(known && lamps[id])) {
+                    r = Math.min(255, r + 30); g = Math.min(255, g + 30);
                 }
+            }
 
-                data[idx] = r; data[idx+1] = g; data[idx+2] = b; data[idx+3] = a;
+            if (enId !== 0) {
+                const known = enId > 0 && enId < paletteSize && physics[enId] !== undefined;
+                const er = known ? rgb[enId * 3] : 255;
+                const eg = known ? rgb[enId * 3 + 1] : 255;
+                const eb = known ? rgb[enId * 3 + 2] : 0;
+                
+                r = Math.min(255, r + er * 0.8);
+                g = Math.min(255, g + eg * 0.8);
+                b = Math.min(255, b + eb * 0.8);
+                if (id === 0) a = 200; 
             }
-            ctx.putImageData(imgData, 0, 0);
+
+            data[idx] = r; data[idx+1] = g; data[idx+2] = b; data[idx+3] = a;
         }
+        ctx.putImageData(imgData, 0, 0);
+
+        // The previous frame is no longer read by anyone; its buffers go back to the worker
+        if (frameRef.current) clientRef.current?.recycle(frameRef.current);
+        frameRef.current = frame;
       }
 
       animationId = requestAnimationFrame(update);
@@ -1132,21 +801,74 @@ export const Sandbox = forwardRef<SandboxRef, SandboxProps>(({
 
     animationId = requestAnimationFrame(update);
     return () => cancelAnimationFrame(animationId);
-  }, [elements, paint]);
+  }, [paint, replay]);
 
   return (
-    <div className="relative bg-gray-800 border-4 border-gray-700 rounded-lg shadow-2xl overflow-hidden cursor-crosshair select-none">
+    <div className={`relative bg-gray-800 border-4 border-gray-700 rounded-lg shadow-2xl overflow-hidden select-none ${inspect ? 'cursor-help' : 'cursor-crosshair'}`}>
       <canvas
         ref={canvasRef}
-        width={GRID_WIDTH}
-        height={GRID_HEIGHT}
+        width={worldWidth}
+        height={worldHeight}
         className="w-full h-full"
-        style={{ width: '800px', height: '600px' }}
+        style={{
+          width: `${Math.round(worldWidth * displayScale)}px`,
+          height: `${Math.round(worldHeight * displayScale)}px`,
+          imageRendering: 'pixelated',
+        }}
         onMouseDown={handleMouseDown}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
         onMouseMove={handleMouseMove}
       />
+      {shapePreview && (
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox={`0 0 ${worldWidth} ${worldHeight}`}
+          preserveAspectRatio="none"
+        >
+          {tool === DrawTool.LINE ? (
+            <line
+              x1={shapePreview.from.x + 0.5} y1={shapePreview.from.y + 0.5}
+              x2={shapePreview.to.x + 0.5} y2={shapePreview.to.y + 0.5}
+              stroke="white" strokeOpacity={0.6} strokeLinecap="round"
+              strokeWidth={Math.floor(brushSize / 2) * 2 + 1}
+            />
+          ) : (
+            <rect
+              x={Math.min(shapePreview.from.x, shapePreview.to.x)}
+              y={Math.min(shapePreview.from.y, shapePreview.to.y)}
+              width={Math.abs(shapePreview.to.x - shapePreview.from.x) + 1}
+              height={Math.abs(shapePreview.to.y - shapePreview.from.y) + 1}
+              fill={tool === DrawTool.FILLED_RECT ? 'white' : 'none'} fillOpacity={0.3}
+              stroke="white" strokeOpacity={0.6}
+              strokeWidth={Math.floor(brushSize / 2) * 2 + 1}
+            />
+          )}
+        </svg>
+      )}
+      {(selection || (stamp && stampAt)) && (
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox={`0 0 ${worldWidth} ${worldHeight}`}
+          preserveAspectRatio="none"
+        >
+          {selection ? (
+            <rect
+              x={Math.min(selection.from.x, selection.to.x)}
+              y={Math.min(selection.from.y, selection.to.y)}
+              width={Math.abs(selection.to.x - selection.from.x) + 1}
+              height={Math.abs(selection.to.y - selection.from.y) + 1}
+              fill="#2DD4BF" fillOpacity={0.1} stroke="#2DD4BF" strokeWidth={1} strokeDasharray="2 2"
+            />
+          ) : (
+            <rect
+              x={stampAt!.x} y={stampAt!.y} width={stamp!.width} height={stamp!.height}
+              fill="#2DD4BF" fillOpacity={0.2} stroke="#2DD4BF" strokeWidth={1}
+            />
+          )}
+        </svg>
+      )}
+      {inspection && <CellInspector info={inspection} elements={frameElementsRef.current} />}
       {isThinking && (
         <div className="absolute top-4 right-4 bg-black/80 text-purple-400 px-3 py-1 rounded-full text-xs font-mono flex items-center gap-2 border border-purple-500/50 animate-pulse pointer-events-none">
             <div className="w-2 h-2 bg-purple-500 rounded-full animate-bounce"/>
@@ -1159,9 +881,21 @@ export const Sandbox = forwardRef<SandboxRef, SandboxProps>(({
             {thinkingMessage}
         </div>
       )}
+      {runState.paused && !replay && (
+        <div className="absolute top-4 left-4 bg-black/80 text-amber-300 px-3 py-1 rounded-full text-xs font-mono border border-amber-500/50 pointer-events-none">
+            ⏸ Paused · tick {tick}
+        </div>
+      )}
+      {replay && (
+        <div className="absolute top-4 left-4 bg-black/80 text-cyan-300 px-3 py-1 rounded-full text-xs font-mono border border-cyan-500/50 pointer-events-none">
+            {replayFinished ? 'Replay finished' : runState.paused ? `Replay paused at tick ${tick}` : 'Replaying'} · seed {replay.seed} · {replay.ticks} ticks
+        </div>
+      )}
       <div className="absolute bottom-2 left-2 text-gray-500 text-[10px] font-mono pointer-events-none">
-        Physics: {GRID_WIDTH}x{GRID_HEIGHT} | Elements: {elements.length}
+        Physics: {worldWidth}x{worldHeight} {BOUNDARY_LABELS[worldBoundary]} | Seed: {replay ? replay.seed : seed} | Elements: {elements.length} | Tick: {tick}
+        {runState.speed !== 1 && ` | Speed: ${runState.speed}x`}
+        {awakeChunks && ` | Awake chunks: ${awakeChunks}`}
       </div>
     </div>
   );
-});
+});
\ No newline at end of file
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Objective, ObjectiveProgress, Scenario, ScenarioProgress, describeObjective } from '../engine/scenario';
+
+interface ScenarioHudProps {
+  scenario: Scenario;
+  progress: ScenarioProgress | null; // Null until the first frame of the scenario arrives
+  onRestart: () => void;
+  onLeave: () => void;
+}
+
+const progressLabel = (objective: Objective, progress: ObjectiveProgress) => {
+  switch (objective.kind) {
+    case 'produce': return `${Math.min(progress.count, objective.count)}/${objective.count}`;
+    case 'sustain': return `${progress.count} alive`;
+    case 'eliminate': return `${progress.count} left`;
+  }
+};
+
+// Objectives and time left of the running scenario, above the canvas
+export const ScenarioHud: React.FC<ScenarioHudProps> = ({ scenario, progress, onRestart, onLeave }) => {
+  const tick = progress?.tick ?? 0;
+
+  return (
+    <div className="bg-gray-900/80 backdrop-blur text-white rounded-xl border border-amber-700/60 shadow-lg px-4 py-2 flex flex-col gap-1 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="font-bold text-amber-300">🎯 {scenario.name}</span>
+        <div className="flex-1 h-1.5 bg-gray-800 rounded overflow-hidden">
+          <div className="h-full bg-amber-500" style={{ width: `${Math.min(100, (tick / scenario.tickLimit) * 100)}%` }} />
+        </div>
+        <span className="w-24 text-right font-mono text-[10px] text-gray-400">{tick}/{scenario.tickLimit}</span>
+        <button onClick={onRestart} className="px-2 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800">
+          ↺ Restart
+        </button>
+        <button onClick={onLeave} title="Back to a free sandbox (starts a new world)" className="px-2 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800">
+          Leave
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-0.5">
+        {scenario.objectives.map((objective, i) => {
+          const state = progress?.objectives[i];
+          return (
+            <span key={i} className={state?.done ? 'text-green-400' : state?.failed ? 'text-red-400' : 'text-gray-300'}>
+              {state?.done ? '✓' : state?.failed ? '✗' : '◎'} {describeObjective(objective)}
+              {state && <span className="ml-1 font-mono text-[10px] text-gray-500">{progressLabel(objective, state)}</span>}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { ElementDef } from '../types';
+import { Scenario, describeObjective } from '../engine/scenario';
+
+interface ScenarioPickerProps {
+  scenarios: Scenario[];
+  elements: ElementDef[];
+  activeId?: string;
+  onStart: (scenario: Scenario) => void;
+  onClose: () => void;
+}
+
+export const ScenarioPicker: React.FC<ScenarioPickerProps> = ({ scenarios, elements, activeId, onStart, onClose }) => {
+  const colorOf = (name: string) => elements.find(e => e.name === name)?.color ?? '#FF00FF';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 p-4 border-b border-gray-800">
+          <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+            <span>🎯</span> Scenarios
+          </h2>
+          <span className="text-[10px] text-gray-500">Starting one replaces the current world</span>
+          <button onClick={onClose} className="ml-auto px-2 py-1 rounded border border-gray-600 text-xs text-gray-400 hover:bg-gray-800">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+          {scenarios.map(s => (
+            <div key={s.id} className={`rounded-lg border p-3 ${s.id === activeId ? 'border-amber-500 bg-amber-900/20' : 'border-gray-700 bg-gray-800'}`}>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-bold">{s.name}</span>
+                <span className="text-[10px] text-gray-500 font-mono">{s.width}x{s.height} · {s.tickLimit} ticks</span>
+                <button
+                  onClick={() => onStart(s)}
+                  className="ml-auto px-3 py-1 rounded border border-amber-500 text-amber-300 text-xs font-bold hover:bg-amber-900/50"
+                >
+                  {s.id === activeId ? 'Restart' : 'Start'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-400 mt-1">{s.description}</p>
+              <ul className="mt-2 text-xs text-gray-300 space-y-0.5">
+                {s.objectives.map((o, i) => <li key={i}>◎ {describeObjective(o)}</li>)}
+              </ul>
+              <div className="mt-2 flex flex-wrap items-center gap-1 text-[10px] text-gray-500">
+                Available:
+                {s.elements.map(name => (
+                  <span key={name} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-gray-900 text-gray-300">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(name) }} />
+                    {name}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
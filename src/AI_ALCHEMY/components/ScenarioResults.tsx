@@ -0,0 +1,62 @@
+import React from 'react';
+import { Scenario, ScenarioProgress, describeObjective } from '../engine/scenario';
+
+interface ScenarioResultsProps {
+  scenario: Scenario;
+  progress: ScenarioProgress; // Finished
+  onRetry: () => void;
+  onContinue: () => void; // Close and keep running the world
+  onPickAnother: () => void;
+  onExport: () => void;
+}
+
+export const ScenarioResults: React.FC<ScenarioResultsProps> = ({ scenario, progress, onRetry, onContinue, onPickAnother, onExport }) => {
+  const won = progress.status === 'won';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-6" onClick={onContinue}>
+      <div
+        className={`bg-gray-900 border rounded-xl shadow-2xl w-full max-w-md flex flex-col text-white ${won ? 'border-green-600' : 'border-red-700'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-800 text-center">
+          <div className="text-3xl">{won ? '🏆' : '💀'}</div>
+          <h2 className={`text-lg font-bold mt-1 ${won ? 'text-green-400' : 'text-red-400'}`}>
+            {scenario.name}: {won ? 'Complete' : 'Failed'}
+          </h2>
+          <p className="text-xs text-gray-400 mt-1">
+            {won ? `Done in ${progress.tick} of ${scenario.tickLimit} ticks.` : progress.reason}
+          </p>
+        </div>
+
+        <ul className="p-4 space-y-1 text-xs">
+          {scenario.objectives.map((objective, i) => {
+            const state = progress.objectives[i];
+            return (
+              <li key={i} className="flex gap-2">
+                <span className={state.done ? 'text-green-400' : 'text-red-400'}>{state.done ? '✓' : '✗'}</span>
+                <span className="text-gray-300">{describeObjective(objective)}</span>
+                <span className="ml-auto font-mono text-[10px] text-gray-500">{state.count} {objective.element}</span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="p-4 border-t border-gray-800 flex gap-2 text-xs">
+          <button onClick={onRetry} className="flex-1 py-1.5 rounded border border-amber-500 text-amber-300 font-bold hover:bg-amber-900/50">
+            ↺ Retry
+          </button>
+          <button onClick={onPickAnother} className="flex-1 py-1.5 rounded border border-gray-600 text-gray-300 hover:bg-gray-800">
+            Scenarios
+          </button>
+          <button onClick={onContinue} className="flex-1 py-1.5 rounded border border-gray-600 text-gray-300 hover:bg-gray-800">
+            Keep Playing
+          </button>
+          <button onClick={onExport} title="Download the results as JSON" className="px-2 py-1.5 rounded border border-gray-600 text-gray-400 hover:bg-gray-800">
+            ⬇
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Stamp } from '../services/stampLibrary';
+
+// The stamp being pasted and how it is turned
+export interface ArmedStamp {
+  name: string;
+  quarterTurns: number;
+  mirrored: boolean;
+}
+
+interface StampPanelProps {
+  stamps: Stamp[];
+  selecting: boolean;
+  draft: Omit<Stamp, 'name'> | null; // Selected region waiting for a name
+  armed: ArmedStamp | null;
+  onToggleSelecting: () => void;
+  onSaveDraft: (name: string) => void;
+  onDiscardDraft: () => void;
+  onArm: (name: string | null) => void;
+  onRotate: () => void;
+  onMirror: () => void;
+  onDelete: (name: string) => void;
+}
+
+// Saved regions of the grid: select one on the canvas and name it, then pick a stamp and click
+// the canvas to paste it (R rotates, M mirrors, Esc puts it down)
+export const StampPanel: React.FC<StampPanelProps> = ({
+  stamps, selecting, draft, armed, onToggleSelecting, onSaveDraft, onDiscardDraft, onArm, onRotate, onMirror, onDelete,
+}) => {
+  const [name, setName] = useState('');
+
+  useEffect(() => setName(''), [draft]);
+
+  const save = () => {
+    if (name.trim()) onSaveDraft(name.trim());
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900 text-white w-72 border-l border-gray-700 p-4 shadow-xl z-10 hidden md:flex">
+      <h2 className="text-sm font-semibold text-gray-400 mb-3 uppercase tracking-wider flex items-center gap-2">
+        <span>🧩</span> Stamps
+        <button
+          onClick={onToggleSelecting}
+          title="Drag a region on the canvas to save it as a stamp"
+          className={`ml-auto px-2 py-0.5 rounded border text-[10px] ${selecting ? 'border-teal-500 text-teal-300' : 'border-gray-600 text-gray-400 hover:bg-gray-800'}`}
+        >
+          ⬚ Select
+        </button>
+      </h2>
+
+      {draft && (
+        <div className="mb-3 bg-gray-800 p-2 rounded border border-teal-700 space-y-2">
+          <div className="flex items-center gap-2">
+            <img src={draft.thumbnail} alt="" className="w-12 h-12 object-contain bg-gray-950 rounded" style={{ imageRendering: 'pixelated' }} />
+            <span className="text-[10px] text-gray-400 font-mono">{draft.width} × {draft.height}</span>
+          </div>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') save();
+            }}
+            placeholder="Name, e.g. Pump"
+            autoFocus
+            className="w-full bg-gray-900 text-xs text-white px-2 py-1 rounded border border-gray-600 focus:border-teal-500 outline-none"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={save}
+              disabled={!name.trim()}
+              className="flex-1 py-1 rounded bg-teal-700 hover:bg-teal-600 text-xs disabled:opacity-40"
+            >
+              Save
+            </button>
+            <button onClick={onDiscardDraft} className="flex-1 py-1 rounded border border-gray-600 text-xs text-gray-400 hover:bg-gray-700">
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      {armed && (
+        <div className="mb-3 flex items-center gap-1 text-[10px]">
+          <span className="text-teal-300 truncate">Pasting {armed.name}</span>
+          <button onClick={onRotate} title="Rotate a quarter turn (R)" className="ml-auto px-1.5 py-0.5 rounded border border-gray-600 hover:bg-gray-800">⟳</button>
+          <button onClick={onMirror} title="Mirror (M)" className={`px-1.5 py-0.5 rounded border hover:bg-gray-800 ${armed.mirrored ? 'border-teal-500' : 'border-gray-600'}`}>⇋</button>
+          <button onClick={() => onArm(null)} title="Stop pasting (Esc)" className="px-1.5 py-0.5 rounded border border-gray-600 hover:bg-gray-800">✕</button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar pr-1">
+        {stamps.length === 0 && !draft && (
+          <div className="text-gray-600 text-center mt-10 italic text-xs">
+            Select a pump, furnace or garden to reuse it...
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          {stamps.map(s => (
+            <div
+              key={s.name}
+              onClick={() => onArm(armed?.name === s.name ? null : s.name)}
+              title={`${s.width} × ${s.height}: ${s.palette.slice(1).join(', ') || 'empty'}`}
+              className={`relative group cursor-pointer rounded border p-1 ${armed?.name === s.name ? 'border-teal-500 bg-teal-900/30' : 'border-gray-700 bg-gray-800 hover:border-gray-600'}`}
+            >
+              <img src={s.thumbnail} alt="" className="w-full h-16 object-contain bg-gray-950 rounded" style={{ imageRendering: 'pixelated' }} />
+              <div className="text-[10px] text-gray-300 truncate mt-1">{s.name}</div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(s.name);
+                }}
+                title="Delete stamp"
+                className="absolute top-1 right-1 hidden group-hover:block px-1 rounded bg-black/70 text-[10px] text-gray-400 hover:text-red-400"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
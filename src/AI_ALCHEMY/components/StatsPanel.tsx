@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ElementDef, StatsSample } from '../types';
+
+interface StatsPanelProps {
+  samples: StatsSample[];
+  elements: ElementDef[];
+  onExportCsv: () => void;
+}
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 140;
+const MAX_SERIES = 8; // Most abundant elements (by peak count) that get a line
+
+// Element counts over time, to see whether an ecosystem oscillates, settles or collapses
+export const StatsPanel: React.FC<StatsPanelProps> = ({ samples, elements, onExportCsv }) => {
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [logScale, setLogScale] = useState(false);
+
+  const peaks = new Map<string, number>();
+  samples.forEach(sample => Object.keys(sample.counts).forEach(name => {
+    const count = sample.counts[name];
+    if (name !== 'Total' && name !== 'Empty' && count > 0) peaks.set(name, Math.max(peaks.get(name) ?? 0, count));
+  }));
+  const series = [...peaks.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_SERIES).map(([name]) => name);
+  const shown = series.filter(name => !hidden.has(name));
+
+  const colorOf = (name: string) => elements.find(e => e.name === name)?.color ?? '#FF00FF';
+  const last = samples[samples.length - 1];
+  const firstTick = samples.length > 0 ? samples[0].tick : 0;
+  const tickSpan = Math.max(1, (last?.tick ?? 0) - firstTick);
+  const scale = (count: number) => logScale ? Math.log10(1 + count) : count;
+  const top = Math.max(1, ...shown.map(name => scale(peaks.get(name) ?? 0)));
+
+  const path = (name: string) => samples.map((sample, k) => {
+    const x = ((sample.tick - firstTick) / tickSpan) * CHART_WIDTH;
+    const y = CHART_HEIGHT - (scale(sample.counts[name] ?? 0) / top) * CHART_HEIGHT;
+    return `${k === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join('');
+
+  const toggle = (name: string) => setHidden(prev => {
+    const next = new Set(prev);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    return next;
+  });
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900 text-white w-72 border-l border-gray-700 p-4 shadow-xl z-10 hidden md:flex">
+      <h2 className="text-sm font-semibold text-gray-400 mb-3 uppercase tracking-wider flex items-center gap-2">
+        <span>📈</span> Populations
+        <button
+          onClick={() => setLogScale(!logScale)}
+          title="Logarithmic scale, to compare small and large populations"
+          className={`ml-auto px-2 py-0.5 rounded border text-[10px] ${logScale ? 'border-emerald-500 text-emerald-300' : 'border-gray-600 text-gray-500 hover:bg-gray-800'}`}
+        >
+          log
+        </button>
+        <button
+          onClick={onExportCsv}
+          disabled={samples.length === 0}
+          title="Download the sampled counts as CSV"
+          className="px-2 py-0.5 rounded border border-gray-600 text-[10px] text-gray-400 hover:bg-gray-800 disabled:opacity-40"
+        >
+          CSV
+        </button>
+      </h2>
+      {samples.length < 2 ? (
+        <div className="text-gray-600 text-center mt-10 italic text-xs">
+          Collecting samples...
+        </div>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full bg-gray-950 rounded border border-gray-800">
+            {shown.map(name => (
+              <path key={name} d={path(name)} fill="none" stroke={colorOf(name)} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            ))}
+          </svg>
+          <div className="flex justify-between text-[10px] text-gray-500 font-mono mt-1">
+            <span>tick {firstTick}</span>
+            <span>tick {last.tick}</span>
+          </div>
+        </>
+      )}
+      <div className="flex-1 overflow-y-auto custom-scrollbar font-mono text-xs space-y-1 pr-1 mt-3">
+        {series.map(name => (
+          <button
+            key={name}
+            onClick={() => toggle(name)}
+            className={`w-full flex items-center gap-2 px-1 rounded hover:bg-gray-800 ${hidden.has(name) ? 'opacity-40' : ''}`}
+          >
+            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: colorOf(name) }} />
+            <span className="text-gray-300 truncate">{name}</span>
+            <span className="ml-auto text-gray-500">{last?.counts[name] ?? 0}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { SnapshotInfo, TimelineInfo } from '../engine/timeline';
+
+interface TimelineProps {
+  timeline: TimelineInfo;
+  onUndo: () => void;
+  onRedo: () => void;
+  onCheckpoint: () => void;
+  onRewind: (snapshot: SnapshotInfo) => void;
+}
+
+// Undo/redo for strokes and a scrubber over the world's recent snapshots. Dragging picks a
+// snapshot, releasing goes back to it; the right end is the present.
+export const Timeline: React.FC<TimelineProps> = ({ timeline, onUndo, onRedo, onCheckpoint, onRewind }) => {
+  const [scrub, setScrub] = useState<number | null>(null);
+  const { snapshots } = timeline;
+  const now = snapshots.length;
+  const position = Math.min(scrub ?? now, now);
+  const target = position < now ? snapshots[position] : undefined;
+  const checkpoints = snapshots.filter(s => s.checkpoint);
+
+  const commit = () => {
+    if (target) onRewind(target);
+    setScrub(null);
+  };
+
+  return (
+    <div className="bg-gray-900/80 backdrop-blur text-white rounded-xl border border-gray-700 shadow-lg px-4 py-2 flex flex-col gap-1 text-xs">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onUndo}
+          disabled={timeline.undo === 0}
+          title="Undo the last stroke (Ctrl+Z)"
+          className="px-2 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+        >
+          ↶ Undo
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={timeline.redo === 0}
+          title="Redo (Ctrl+Shift+Z)"
+          className="px-2 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+        >
+          ↷ Redo
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={now}
+          value={position}
+          disabled={now === 0}
+          onChange={(e) => setScrub(Number(e.target.value))}
+          onMouseUp={commit}
+          onTouchEnd={commit}
+          onKeyUp={commit}
+          title="Drag back and release to rewind"
+          className="flex-1 accent-purple-500"
+        />
+        <span className="w-24 text-right font-mono text-[10px] text-gray-400">
+          {target ? `⏪ tick ${target.tick}` : 'now'}
+        </span>
+        <button
+          onClick={onCheckpoint}
+          title="Snapshot the world now, to come back to later"
+          className="px-2 py-1 rounded border border-purple-500 text-purple-300 hover:bg-purple-900/50"
+        >
+          📌 Checkpoint
+        </button>
+      </div>
+      {checkpoints.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {checkpoints.map(s => (
+            <button
+              key={s.id}
+              onClick={() => onRewind(s)}
+              title="Go back to this checkpoint"
+              className="px-1.5 py-0.5 rounded border border-gray-700 text-[10px] text-gray-400 font-mono hover:bg-gray-800"
+            >
+              📌 {s.tick}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,28 @@
-import { ElementDef, PhysicsType, GrowthStyle } from './types';
+import { BoundaryMode, Direction, ElectricRole, ElementDef, PhysicsType, GrowthStyle, ReactionRule, WorldSize } from './types';
+import { Scenario } from './engine/scenario';
 
 export const GRID_WIDTH = 120;
 export const GRID_HEIGHT = 100;
+// Sizes offered for new worlds; the first one is the default
+export const WORLD_SIZES: WorldSize[] = [
+  { width: GRID_WIDTH, height: GRID_HEIGHT },
+  { width: 256, height: 192 },
+  { width: 512, height: 384 },
+  { width: 512, height: 512 },
+];
+
+export const BOUNDARY_LABELS: Record<BoundaryMode, string> = {
+  [BoundaryMode.WALLS]: 'Solid walls',
+  [BoundaryMode.VOID]: 'Void',
+  [BoundaryMode.WRAP_X]: 'Wrap horizontally',
+  [BoundaryMode.WRAP_Y]: 'Wrap vertically',
+  [BoundaryMode.OPEN_TOP]: 'Open top',
+};
 export const FPS = 60;
+export const AMBIENT_TEMPERATURE = 20; // °C, what open air drifts back to
+export const STATS_INTERVAL = 30; // Ticks between samples of the element counts charted over time
+export const STATS_HISTORY_LENGTH = 720; // Samples kept (6 minutes at 60 FPS)
+export const SIMULATION_SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16]; // Ticks per frame; below 1 a tick every few frames
 
 // Initial set of elements
 export const INITIAL_ELEMENTS: ElementDef[] = [
@@ -26,6 +46,7 @@ export const INITIAL_ELEMENTS: ElementDef[] = [
     color: '#E6C288', // Warmer sand
     physics: PhysicsType.POWDER,
     description: 'Coarse and rough.',
+    density: 1.6,
   },
   {
     id: 3,
@@ -33,6 +54,12 @@ export const INITIAL_ELEMENTS: ElementDef[] = [
     color: '#2288FF', // Bright distinct blue
     physics: PhysicsType.LIQUID,
     description: 'Flows freely.',
+    density: 1,
+    heatCapacity: 4,
+    boilingPoint: 100,
+    boilsInto: 'Steam',
+    freezingPoint: 0,
+    freezesInto: 'Ice',
   },
   {
     id: 4,
@@ -42,6 +69,8 @@ export const INITIAL_ELEMENTS: ElementDef[] = [
     description: 'Burns bright and fades.',
     decayTo: 0, 
     decayChance: 0.05,
+    temperature: 800,
+    heatSource: true,
   },
   {
     id: 5,
@@ -51,6 +80,7 @@ export const INITIAL_ELEMENTS: ElementDef[] = [
     description: 'Product of combustion.',
     decayTo: 0, // Decays to Empty
     decayChance: 0.01,
+    density: 0.0011,
   },
   {
     id: 6,
@@ -58,6 +88,7 @@ export const INITIAL_ELEMENTS: ElementDef[] = [
     color: '#FF4444', // Red for H2
     physics: PhysicsType.GAS,
     description: 'Highly flammable gas.',
+    density: 0.00009,
   },
   {
     id: 7,
@@ -65,6 +96,7 @@ export const INITIAL_ELEMENTS: ElementDef[] = [
     color: '#FFFFFF', // White for O2
     physics: PhysicsType.GAS,
     description: 'Fuels combustion.',
+    density: 0.0014,
   },
   {
     id: 8,
@@ -81,20 +113,27 @@ export const INITIAL_ELEMENTS: ElementDef[] = [
     color: '#CD853F', // Wood/Copper color
     physics: PhysicsType.MECHANISM,
     description: 'Churns water & generates power.',
+    electric: ElectricRole.GENERATOR,
+    behavior: { rotate: true, emitEnergy: 'Electricity', emitChance: 0.05 },
   },
   {
     id: 10,
     name: 'Fan',
     color: '#A9A9A9', // Dark Gray
     physics: PhysicsType.MECHANISM,
-    description: 'Blows gas upwards.',
+    description: 'Blows gas upwards. Needs power.',
+    needsPower: true,
+    behavior: { push: Direction.UP },
   },
   {
     id: 11,
     name: 'Heater',
     color: '#8B0000', // Dark Red
     physics: PhysicsType.MECHANISM,
-    description: 'Boils water, ignites gas.',
+    description: 'Boils water, ignites gas. Needs power.',
+    temperature: 400,
+    heatSource: true,
+    needsPower: true,
   },
   {
     id: 12,
@@ -152,7 +191,173 @@ export const INITIAL_ELEMENTS: ElementDef[] = [
     description: 'Consumes electricity. Replicates on Scrap. Dies in water.',
     decayTo: 16, // Turns to Scrap
     decayChance: 0.01, // Battery drain per tick (calculated manually)
+  },
+  {
+    id: 18,
+    name: 'Steam',
+    color: '#D0E4F0',
+    physics: PhysicsType.GAS,
+    description: 'Hot water vapor. Condenses when it cools.',
+    density: 0.0006,
+    temperature: 110,
+    condensationPoint: 90,
+    condensesInto: 'Water',
+  },
+  {
+    id: 19,
+    name: 'Ice',
+    color: '#A8E0FF',
+    physics: PhysicsType.SOLID,
+    description: 'Frozen water. Melts above 0°C.',
+    density: 0.92,
+    heatCapacity: 4,
+    temperature: -20,
+    meltingPoint: 0,
+    meltsInto: 'Water',
+  },
+  {
+    id: 20,
+    name: 'Cooler',
+    color: '#1E3A8A', // Dark Blue
+    physics: PhysicsType.MECHANISM,
+    description: 'Chills its surroundings. Freezes water.',
+    temperature: -40,
+    heatSource: true,
+  },
+  {
+    id: 21,
+    name: 'Oil',
+    color: '#4A3B1F', // Dark amber
+    physics: PhysicsType.LIQUID,
+    description: 'Thick and lighter than water. Floats on top.',
+    density: 0.85,
+    heatCapacity: 2,
+  },
+  {
+    id: 22,
+    name: 'Copper',
+    color: '#B87333',
+    physics: PhysicsType.SOLID,
+    description: 'Wire. Carries power between circuit parts.',
+    electric: ElectricRole.CONDUCTOR,
+    heatCapacity: 1,
+  },
+  {
+    id: 23,
+    name: 'Rubber',
+    color: '#2F2F2F',
+    physics: PhysicsType.SOLID,
+    description: 'Insulator. Never carries power.',
+    electric: ElectricRole.INSULATOR,
+  },
+  {
+    id: 24,
+    name: 'Battery',
+    color: '#2E8B57', // Sea Green
+    physics: PhysicsType.SOLID,
+    description: 'Powers everything wired to it.',
+    electric: ElectricRole.BATTERY,
+  },
+  {
+    id: 25,
+    name: 'Switch',
+    color: '#708090', // Slate Gray
+    physics: PhysicsType.SOLID,
+    description: 'Pressure plate. Closes the circuit while something rests on it.',
+    electric: ElectricRole.SWITCH,
+  },
+  {
+    id: 26,
+    name: 'Lamp',
+    color: '#FFF2B3',
+    physics: PhysicsType.SOLID,
+    description: 'Lights up while powered.',
+    electric: ElectricRole.LAMP,
   }
 ];
 
-export const DEFAULT_BRUSH_SIZE = 3;
\ No newline at end of file
+// Built-in chemistry. Rules are tried in order; the first one that fires wins.
+export const INITIAL_RULES: ReactionRule[] = [
+  // Electrolysis
+  { reactants: ['Water'], catalysts: ['Electricity'], probability: 0.1, products: ['Hydrogen'] },
+  { reactants: ['Water'], catalysts: ['Electricity'], probability: 0.11, products: ['Oxygen'] },
+  // Hydrogen ignites on sparks or heat
+  { reactants: ['Hydrogen'], catalysts: ['Electricity'], probability: 1, products: ['Smoke'], emitEnergy: 'Fire', explosion: 4 },
+  { reactants: ['Hydrogen'], minTemperature: 300, probability: 1, products: ['Smoke'], emitEnergy: 'Fire', explosion: 4 },
+  // Oxygen feeds flames, sometimes leaving water behind
+  { reactants: ['Oxygen'], minTemperature: 300, probability: 0.3, products: ['Water'], emitEnergy: 'Fire' },
+  { reactants: ['Oxygen'], minTemperature: 300, probability: 1, products: ['Empty'], emitEnergy: 'Fire' },
+];
+
+// Pairs covered by the rules and heat above; the AI is never asked about them
+export const INERT_PAIRS: [string, string][] = [
+  ['Hydrogen', 'Oxygen'],
+  ['Hydrogen', 'Fire'],
+  ['Oxygen', 'Fire'],
+  ['Oxygen', 'Electricity'],
+  ['Oil', 'Water'], // Immiscible; they layer by density instead
+];
+
+export const DEFAULT_BRUSH_SIZE = 3;
+
+// Built-in challenges, for playtests (positions in cells of their world)
+export const SCENARIOS: Scenario[] = [
+  {
+    id: 'steam-engine',
+    name: 'Steam Engine',
+    description: 'A row of Heaters sits under the lake, but nothing powers them. Wire them up and boil the water.',
+    seed: 1001,
+    width: GRID_WIDTH,
+    height: GRID_HEIGHT,
+    boundary: BoundaryMode.WALLS,
+    elements: ['Battery', 'Copper', 'Rubber', 'Wall'],
+    setup: [
+      { shape: { kind: 'rect', x0: 0, y0: 85, x1: 119, y1: 97, radius: 0, filled: true }, element: 'Water' },
+      { shape: { kind: 'line', x0: 20, y0: 98, x1: 100, y1: 98, radius: 0 }, element: 'Heater' },
+    ],
+    objectives: [{ kind: 'produce', element: 'Steam', count: 500 }],
+    tickLimit: 1200,
+  },
+  {
+    id: 'deep-freeze',
+    name: 'Deep Freeze',
+    description: 'Freeze the lake before the time runs out.',
+    seed: 1002,
+    width: GRID_WIDTH,
+    height: GRID_HEIGHT,
+    boundary: BoundaryMode.WALLS,
+    elements: ['Cooler', 'Wall'],
+    setup: [
+      { shape: { kind: 'rect', x0: 0, y0: 70, x1: 119, y1: 99, radius: 0, filled: true }, element: 'Water' },
+    ],
+    objectives: [{ kind: 'produce', element: 'Ice', count: 1500 }],
+    tickLimit: 2400,
+  },
+  {
+    id: 'wildfire',
+    name: 'Wildfire',
+    description: 'A grass fire is heading for the grove. Keep at least one Tree standing.',
+    seed: 1003,
+    width: GRID_WIDTH,
+    height: GRID_HEIGHT,
+    boundary: BoundaryMode.OPEN_TOP,
+    elements: ['Water', 'Sand', 'Wall'],
+    setup: [
+      { shape: { kind: 'rect', x0: 0, y0: 90, x1: 119, y1: 99, radius: 0, filled: true }, element: 'Sand' },
+      { shape: { kind: 'line', x0: 0, y0: 89, x1: 119, y1: 89, radius: 0 }, element: 'Grass' },
+      { shape: { kind: 'line', x0: 75, y0: 84, x1: 75, y1: 88, radius: 0 }, element: 'Tree' },
+      { shape: { kind: 'line', x0: 90, y0: 84, x1: 90, y1: 88, radius: 0 }, element: 'Tree' },
+      { shape: { kind: 'line', x0: 105, y0: 84, x1: 105, y1: 88, radius: 0 }, element: 'Tree' },
+      { shape: { kind: 'rect', x0: 1, y0: 84, x1: 8, y1: 88, radius: 0, filled: true }, element: 'Fire' },
+    ],
+    // Plants touching flames catch fire, and their own flames reach the plants next to them
+    rules: [
+      { reactants: ['Grass'], catalysts: ['Fire'], probability: 1, products: ['Empty'], emitEnergy: 'Fire' },
+      { reactants: ['Leaf'], catalysts: ['Fire'], probability: 1, products: ['Empty'], emitEnergy: 'Fire' },
+      { reactants: ['Tree'], catalysts: ['Fire'], probability: 0.2, products: ['Empty'], emitEnergy: 'Fire' },
+    ],
+    inert: [['Grass', 'Fire'], ['Leaf', 'Fire'], ['Tree', 'Fire']],
+    objectives: [{ kind: 'sustain', element: 'Tree', ticks: 2000 }],
+    tickLimit: 2000,
+  },
+];
@@ -0,0 +1,281 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_ELEMENTS } from '../constants';
+import { BoundaryMode, PhysicsType } from '../types';
+import { SimulationEngine, reactionElements, reactionKey, resolveOutcome } from './SimulationEngine';
+import { createRng } from './rng';
+
+const id = (name: string) => INITIAL_ELEMENTS.find(e => e.name === name)!.id;
+
+// A small world with powders, liquids, gases, energy and life, so most of step() runs
+const buildWorld = (seed: number) => {
+  const engine = new SimulationEngine({
+    elements: INITIAL_ELEMENTS, width: 64, height: 48, boundary: BoundaryMode.WALLS, rng: createRng(seed), record: true,
+  });
+  engine.draw({ kind: 'rect', x0: 0, y0: 44, x1: 63, y1: 47, radius: 0, filled: true }, id('Sand'));
+  engine.paint(20, 10, 6, id('Water'));
+  engine.paint(44, 30, 3, id('Fire'));
+  engine.draw({ kind: 'spray', x: 40, y: 12, radius: 6, chance: 0.3 }, id('Sand'));
+  engine.paint(10, 40, 2, id('Steam'));
+  engine.draw({ kind: 'line', x0: 30, y0: 43, x1: 30, y1: 40, radius: 0 }, id('Tree'));
+  return engine;
+};
+
+const run = (engine: SimulationEngine, ticks: number) => {
+  for (let i = 0; i < ticks; i++) engine.step();
+  return engine;
+};
+
+describe('SimulationEngine', () => {
+  it('gives the same world for the same seed and inputs', () => {
+    const a = run(buildWorld(42), 300).getState();
+    const b = run(buildWorld(42), 300).getState();
+    expect(a.tick).toBe(300);
+    expect(b).toEqual(a);
+  });
+
+  it('gives a different world for another seed', () => {
+    const a = run(buildWorld(42), 300);
+    const b = run(buildWorld(43), 300);
+    expect(b.grid).not.toEqual(a.grid);
+  });
+
+  it('records every input with the tick it was applied on', () => {
+    const engine = run(buildWorld(1), 5);
+    engine.paint(5, 5, 1, id('Water'));
+    expect(engine.inputLog!.map(input => input.type)).toEqual(['elements', 'rules', 'draw', 'paint', 'paint', 'draw', 'paint', 'draw', 'paint']);
+    expect(engine.inputLog!.at(-1)!.tick).toBe(5);
+  });
+
+  it('gives the reacting cell the first product and its partner the second', () => {
+    const engine = new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 32, height: 16, rng: createRng(5) });
+    engine.draw({ kind: 'line', x0: 4, y0: 12, x1: 27, y1: 12, radius: 0 }, id('Wall'));
+    engine.draw({ kind: 'line', x0: 4, y0: 11, x1: 27, y1: 11, radius: 0 }, id('Sand'));
+    engine.setReaction(reactionKey(id('Sand'), id('Wall')), { products: [{ id: id('Copper'), probability: 1 }, { id: id('Rubber'), probability: 1 }] });
+    engine.step();
+
+    const stats = engine.getStats();
+    expect(stats.Copper).toBeGreaterThan(0);
+    expect(stats.Rubber).toBe(stats.Copper);
+    expect((stats.Sand ?? 0) + (stats.Wall ?? 0) + stats.Copper + stats.Rubber).toBe(48);
+  });
+});
+
+describe('explosions', () => {
+  it('stay within the largest blast radius whatever the cached outcome says', () => {
+    const engine = new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 64, height: 48, rng: createRng(6) });
+    engine.draw({ kind: 'line', x0: 10, y0: 40, x1: 50, y1: 40, radius: 1 }, id('Sand'));
+    engine.draw({ kind: 'line', x0: 10, y0: 38, x1: 50, y1: 38, radius: 0 }, id('Water'));
+    engine.setReaction(reactionKey(id('Sand'), id('Water')), { products: [{ id: id('Smoke'), probability: 1 }], explosion: 1e4 });
+    const started = Date.now();
+    run(engine, 3);
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(engine.getStats().Smoke).toBeGreaterThan(0);
+  });
+});
+
+describe('undo', () => {
+  it('puts back only the cells a stroke changed and keeps the ticks since', () => {
+    const engine = run(buildWorld(9), 20);
+    const before = engine.getState();
+    engine.beginStroke();
+    engine.paint(50, 20, 3, id('Wall'));
+    engine.draw({ kind: 'line', x0: 4, y0: 4, x1: 12, y1: 4, radius: 1 }, id('Wall'));
+    engine.endStroke();
+    const painted = engine.getState();
+    run(engine, 10);
+    expect(engine.history()).toEqual({ undo: 1, redo: 0 });
+
+    const running = engine.getState();
+    engine.undo();
+    const undone = engine.getState();
+    expect(undone.tick).toBe(30);
+    for (let i = 0; i < undone.grid.length; i++) {
+      // Cells the stroke painted are back to what they were, everything else is as it ran on
+      const expected = painted.grid[i] === id('Wall') && before.grid[i] !== id('Wall') ? before.grid[i] : running.grid[i];
+      expect(undone.grid[i]).toBe(expected);
+    }
+
+    engine.redo();
+    expect(engine.getState()).toEqual(running);
+    expect(engine.history()).toEqual({ undo: 1, redo: 0 });
+  });
+
+  it('undoes a clear', () => {
+    const engine = run(buildWorld(4), 10);
+    const before = engine.getState();
+    engine.beginStroke();
+    engine.clear();
+    engine.endStroke();
+    engine.undo();
+    expect(engine.getState()).toEqual(before);
+    expect(engine.getPopulation()).toEqual(run(buildWorld(4), 10).getPopulation());
+  });
+
+  it('is replayed from the recorded inputs', () => {
+    const engine = buildWorld(2);
+    engine.beginStroke();
+    engine.paint(30, 30, 4, id('Water'));
+    run(engine, 5);
+    engine.paint(34, 30, 4, id('Water'));
+    engine.endStroke();
+    run(engine, 5);
+    engine.undo();
+    run(engine, 5);
+
+    const replay = new SimulationEngine({ elements: [], width: 64, height: 48, boundary: BoundaryMode.WALLS, rng: createRng(2) });
+    const inputs = engine.inputLog!;
+    let cursor = 0;
+    while (replay.tick < engine.tick) {
+      while (cursor < inputs.length && inputs[cursor].tick <= replay.tick) replay.apply(inputs[cursor++]);
+      replay.step();
+    }
+    expect(replay.getState()).toEqual(engine.getState());
+  });
+});
+
+describe('reaction results', () => {
+  const result = {
+    name: 'Salt', color: '#EEEEEE', physics: PhysicsType.POWDER, description: 'Salt.',
+    products: [{ name: 'Salt', probability: 0.6 }, { name: 'Fizz', probability: 0.8, physics: PhysicsType.GAS }, { name: 'Empty', probability: 1 }],
+  };
+
+  it('list every element they make', () => {
+    expect(reactionElements(result).map(e => [e.name, e.physics])).toEqual([['Salt', PhysicsType.POWDER], ['Fizz', PhysicsType.GAS]]);
+  });
+
+  it('cap the explosion radius', () => {
+    const outcome = resolveOutcome({ ...result, products: undefined, explosion: 1e4 }, [...INITIAL_ELEMENTS, { ...result, id: 100 }]);
+    expect(outcome?.explosion).toBe(12);
+  });
+
+  it('resolve once all of their products exist', () => {
+    const salt = { ...result, id: 100 };
+    expect(resolveOutcome(result, [...INITIAL_ELEMENTS, salt])).toBeUndefined();
+    const outcome = resolveOutcome(result, [...INITIAL_ELEMENTS, salt, { ...reactionElements(result)[1], id: 101 }]);
+    expect(outcome?.products).toEqual([{ id: 100, probability: 0.6 }, { id: 101, probability: 0.8 }, { id: 0, probability: 1 }]);
+  });
+});
+
+describe('liquids', () => {
+  // Row of the highest water cell between two columns
+  const surface = (engine: SimulationEngine, x0: number, x1: number) => {
+    for (let y = 0; y < engine.height; y++) {
+      for (let x = x0; x <= x1; x++) if (engine.grid[y * engine.width + x] === id('Water')) return y;
+    }
+    return engine.height;
+  };
+
+  it('even out between the arms of a U-tube', () => {
+    const engine = new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 32, height: 32, rng: createRng(3) });
+    engine.draw({ kind: 'rect', x0: 2, y0: 4, x1: 20, y1: 30, radius: 0, filled: false }, id('Wall'));
+    engine.draw({ kind: 'line', x0: 2, y0: 4, x1: 20, y1: 4, radius: 0 }, 0);
+    engine.draw({ kind: 'line', x0: 11, y0: 4, x1: 11, y1: 26, radius: 0 }, id('Wall'));
+    engine.draw({ kind: 'rect', x0: 3, y0: 10, x1: 10, y1: 29, radius: 0, filled: true }, id('Water'));
+    engine.draw({ kind: 'rect', x0: 12, y0: 27, x1: 19, y1: 29, radius: 0, filled: true }, id('Water'));
+    const water = engine.getStats().Water;
+    run(engine, 200);
+
+    expect(Math.abs(surface(engine, 3, 10) - surface(engine, 12, 19))).toBeLessThanOrEqual(1);
+    expect(surface(engine, 12, 19)).toBeLessThan(27);
+    expect(engine.getStats().Water).toBe(water);
+  });
+});
+
+describe('density', () => {
+  // Highest and lowest rows an element is on
+  const rows = (engine: SimulationEngine, name: string) => {
+    const ys = [...engine.grid.keys()].filter(i => engine.grid[i] === id(name)).map(i => Math.floor(i / engine.width));
+    return [Math.min(...ys), Math.max(...ys)];
+  };
+
+  it('layers oil over water over sand, whatever order they are poured in', () => {
+    const engine = new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 24, height: 32, rng: createRng(8) });
+    engine.draw({ kind: 'rect', x0: 2, y0: 4, x1: 21, y1: 30, radius: 0, filled: false }, id('Wall'));
+    engine.draw({ kind: 'line', x0: 2, y0: 4, x1: 21, y1: 4, radius: 0 }, 0);
+    engine.draw({ kind: 'rect', x0: 3, y0: 24, x1: 20, y1: 29, radius: 0, filled: true }, id('Oil'));
+    engine.draw({ kind: 'rect', x0: 3, y0: 18, x1: 20, y1: 23, radius: 0, filled: true }, id('Water'));
+    engine.draw({ kind: 'rect', x0: 3, y0: 12, x1: 20, y1: 13, radius: 0, filled: true }, id('Sand'));
+    run(engine, 200);
+
+    const [, oilBottom] = rows(engine, 'Oil');
+    const [waterTop, waterBottom] = rows(engine, 'Water');
+    const [sandTop] = rows(engine, 'Sand');
+    expect(oilBottom).toBeLessThan(waterTop);
+    expect(waterBottom).toBeLessThan(sandTop);
+  });
+});
+
+describe('circuits', () => {
+  const charged = (engine: SimulationEngine, x: number, y: number) => engine.charge[y * engine.width + x] === 1;
+
+  it('carry charge from a battery along conductors, but not past insulators or open switches', () => {
+    const engine = new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 32, height: 16, rng: createRng(7) });
+    const wire = (y: number, x0: number, x1: number) => engine.draw({ kind: 'line', x0, y0: y, x1, y1: y, radius: 0 }, id('Copper'));
+    // Battery, wire, lamp
+    engine.paint(2, 10, 0, id('Battery'));
+    wire(10, 3, 12);
+    engine.paint(13, 10, 0, id('Lamp'));
+    // Battery, wire broken by rubber
+    engine.paint(2, 13, 0, id('Battery'));
+    wire(13, 3, 12);
+    engine.paint(7, 13, 0, id('Rubber'));
+    // Battery, wire through a switch with nothing on it
+    engine.paint(2, 5, 0, id('Battery'));
+    wire(5, 3, 12);
+    engine.paint(6, 5, 0, id('Switch'));
+    engine.step();
+
+    expect(charged(engine, 12, 10) && charged(engine, 13, 10)).toBe(true);
+    expect(charged(engine, 6, 13)).toBe(true);
+    expect(charged(engine, 8, 13)).toBe(false);
+    expect(charged(engine, 7, 5)).toBe(false);
+
+    // A load closes the switch
+    engine.paint(6, 4, 0, id('Wall'));
+    engine.step();
+    expect(charged(engine, 12, 5)).toBe(true);
+  });
+});
+
+describe('bots', () => {
+  it('replicate into their food, and mutants found lineages of their own', () => {
+    const engine = new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 32, height: 32, rng: createRng(12) });
+    engine.draw({ kind: 'rect', x0: 0, y0: 16, x1: 31, y1: 31, radius: 0, filled: true }, id('Scrap'));
+    engine.draw({ kind: 'line', x0: 4, y0: 20, x1: 27, y1: 20, radius: 0 }, id('Nanobot'));
+    run(engine, 100);
+
+    const population = engine.getPopulation();
+    const founder = population.find(l => l.parent === undefined)!;
+    const mutants = population.filter(l => l.parent !== undefined);
+    expect(engine.getStats().Nanobot).toBeGreaterThan(24);
+    expect(founder.genome.food).toBe(id('Scrap'));
+    expect(mutants.length).toBeGreaterThan(0);
+    for (const mutant of mutants) {
+      expect(mutant.generation).toBeGreaterThan(0);
+      expect(mutant.genome).not.toEqual(population.find(l => l.id === mutant.parent)!.genome);
+    }
+    expect(population.reduce((sum, l) => sum + l.population, 0)).toBe(engine.getStats().Nanobot);
+  });
+});
+
+describe('diets', () => {
+  const sheep = { id: 100, name: 'Sheep', color: '#FFFFFF', physics: PhysicsType.LIFE, description: 'Grazes.', diet: [{ eats: 'Grass', becomes: 'Smoke' }] };
+  const pasture = (grass: boolean) => {
+    const engine = new SimulationEngine({ elements: [...INITIAL_ELEMENTS, sheep], width: 32, height: 16, rng: createRng(4) });
+    engine.draw({ kind: 'line', x0: 0, y0: 15, x1: 31, y1: 15, radius: 0 }, id('Wall'));
+    if (grass) engine.draw({ kind: 'line', x0: 0, y0: 14, x1: 31, y1: 14, radius: 0 }, id('Grass'));
+    engine.paint(16, grass ? 13 : 14, 0, sheep.id);
+    return engine;
+  };
+
+  it('let eaters live and breed on their prey, leaving what it becomes', () => {
+    const stats = run(pasture(true), 150).getStats();
+    expect(stats.Sheep).toBeGreaterThan(1);
+    expect(stats.Grass).toBeLessThan(32);
+    expect(stats.Smoke).toBeGreaterThan(0);
+  });
+
+  it('starve eaters without prey', () => {
+    expect(run(pasture(false), 300).getStats().Sheep).toBe(0);
+  });
+});
@@ -0,0 +1,2277 @@
+import { BoundaryMode, Direction, ElectricRole, PhysicsType, ElementDef, FoodLink, Genome, GrowthStyle, Lineage, LineageStats, ReactionMap, ReactionRule, ReactionOutcome, ReactionProduct, ReactionResult } from '../types';
+import { AMBIENT_TEMPERATURE, GRID_HEIGHT, GRID_WIDTH, INERT_PAIRS, INITIAL_RULES } from '../constants';
+import { Rng } from './rng';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const clampProb = (value: unknown, max: number) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 0;
+  return clamp(value, 0, max);
+};
+
+// Safety limits (simulator-enforced; independent of Gemini prompts)
+const MAX_DECAY_CHANCE = 0.25; // caps per-tick decay probability
+const BASE_ENERGY_SPREAD_CHANCE = 0.02; // max diffusion probability per tick
+const MAX_NEW_ENERGY_FRACTION = 0.02; // caps new energy pixels per tick (fraction of the grid)
+
+// Heat model. Conduction per tick is HEAT_CONDUCTION * (sum of neighbour differences) / heat capacity,
+// which stays stable as long as heat capacities are >= 1.
+const HEAT_CONDUCTION = 0.2;
+const AIR_COOLING = 0.05; // how fast empty cells drift back to ambient
+const HEAT_SOURCE_RATE = 0.5; // how fast a source pulls its cell to its temperature
+const STATE_CHANGE_CHANCE = 0.1; // per tick, once past a threshold (keeps boiling/condensing gradual)
+
+// Sleeping chunks: 16x16 regions where nothing changed and nothing can change by chance are skipped.
+const CHUNK_SHIFT = 4;
+const HEAT_WAKE_DELTA = 0.05; // °C change per tick that keeps a chunk awake
+
+// Element density in g/cm³ (Water = 1) when an element does not set one. Powders, liquids and
+// gases sink through lighter ones.
+const DEFAULT_DENSITY: Record<PhysicsType, number> = {
+  [PhysicsType.EMPTY]: 0,
+  [PhysicsType.SOLID]: 2.5,
+  [PhysicsType.POWDER]: 1.5,
+  [PhysicsType.LIQUID]: 1,
+  [PhysicsType.GAS]: 0.001,
+  [PhysicsType.ENERGY]: 0,
+  [PhysicsType.MECHANISM]: 2.5,
+  [PhysicsType.LIFE]: 0.9,
+  [PhysicsType.BOT]: 2,
+};
+
+// Flow model. `velocity` (cells per tick, stored per location like temperature) is set by fan jets
+// and blasts and fades every tick; powders, liquids and gases in a fast enough cell are carried along.
+const VELOCITY_DAMPING = 0.85;
+const MIN_VELOCITY = 0.05; // Slower flow is dropped, so the chunk can sleep
+const CARRY_THRESHOLD = 0.5; // Minimum speed that moves a particle
+const MAX_CARRY_CELLS = 4; // Furthest a particle is carried in one tick
+const MAX_VELOCITY = 8;
+const FAN_JET_LENGTH = 8;
+const FAN_JET_SPEED = 2;
+const BLAST_SPEED = 4; // At the centre of an explosion, fading out towards its radius
+export const MAX_BLAST_RADIUS = 12;
+const PULL_RADIUS = 6;
+const PULL_SPEED = 1.5;
+const ROTATE_SPEED = 1;
+const DEFAULT_EMIT_CHANCE = 0.05;
+const MAX_EMIT_CHANCE = 0.25;
+// Liquid bodies move cells from their highest surface up onto lower open surfaces (communicating
+// vessels). Surfaces within LEVEL_TOLERANCE cells of the top count as level.
+const LEVEL_TOLERANCE = 1;
+const PRESSURE_FLOW_CHANCE = 0.5;
+// Bot genomes, stored GENE_COUNT floats per cell (see Genome)
+export const GENE_COUNT = 5;
+const GENE_MOVE_BIAS = 0;
+const GENE_CLIMB = 1;
+const GENE_FOOD = 2;
+const GENE_REPLICATE = 3;
+const GENE_MUTATION = 4;
+const REPLICATION_CHANCE = 0.05; // per tick, once charged past the replication threshold
+const MIN_REPLICATE_AT = 0.2;
+const MAX_MUTATION_RATE = 0.5;
+const DEFAULT_GENOME: Omit<Genome, 'food'> = { moveBias: 0, climb: 1, replicateAt: 0.8, mutationRate: 0.05 };
+// Undo. The oldest steps are forgotten past MAX_UNDO_STEPS, or once they keep more than
+// MAX_UNDO_CELLS cells together.
+const MAX_UNDO_STEPS = 20;
+const MAX_UNDO_CELLS = 1 << 20;
+// Values kept per cell: grid, energy and lineage; density, temperature, velocity (x, y) and genome
+const UNDO_INTS = 3;
+const UNDO_FLOATS = 4 + GENE_COUNT;
+// Food web. Eaters keep their energy (0-1) in `density`: meals add to it and, for LIFE eaters,
+// every tick costs HUNGER until they starve. LIFE eaters are animals: they fall, wander about
+// and breed into empty neighbours while well fed.
+const DEFAULT_MEAL_ENERGY = 0.5;
+const EAT_CHANCE = 0.2; // per tick while hungry and touching prey
+const HUNGER = 0.004; // 250 ticks from full to starved
+const DEFAULT_BREED_CHANCE = 0.05;
+const WANDER_CHANCE = 0.3;
+
+const DEFAULT_HEAT_CAPACITY: Record<PhysicsType, number> = {
+  [PhysicsType.EMPTY]: 4, // open air insulates
+  [PhysicsType.SOLID]: 2,
+  [PhysicsType.POWDER]: 2,
+  [PhysicsType.LIQUID]: 3,
+  [PhysicsType.GAS]: 3,
+  [PhysicsType.ENERGY]: 4,
+  [PhysicsType.MECHANISM]: 1,
+  [PhysicsType.LIFE]: 3,
+  [PhysicsType.BOT]: 1,
+};
+
+// Per-element heat behaviour with state change targets resolved to IDs
+interface HeatProfile {
+  heatCapacity: number;
+  source?: number;
+  changes: { above: boolean; point: number; to: number }[];
+}
+
+const DIRECTION_STEP: Record<Direction, [number, number]> = {
+  [Direction.UP]: [0, -1],
+  [Direction.DOWN]: [0, 1],
+  [Direction.LEFT]: [-1, 0],
+  [Direction.RIGHT]: [1, 0],
+};
+
+// The 8 cells around a mechanism in clockwise order, with the step to the next one
+const RING: [number, number][] = [[-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0]];
+const RING_STEP = RING.map(([dx, dy], k) => [RING[(k + 1) % 8][0] - dx, RING[(k + 1) % 8][1] - dy]);
+
+// MechanismBehavior with names resolved to IDs
+interface CompiledBehavior {
+  push?: [number, number];
+  pull: boolean;
+  emitElement?: number;
+  emitEnergy?: number;
+  emitChance: number;
+  rotate: boolean;
+}
+
+// FoodLink with names resolved to IDs (`becomes` 0 = Empty)
+interface CompiledFoodLink {
+  prey: number;
+  becomes: number;
+  energy: number;
+}
+
+// Rule with names resolved to IDs, indexed by the reactant whose cell runs it.
+// `partner` is the second reactant (if any) and `products` follow [self, partner].
+interface CompiledRule {
+  partner?: number;
+  catalysts: number[];
+  minTemperature?: number;
+  probability: number;
+  products: number[];
+  emitEnergy?: number;
+  explosion?: number;
+}
+
+// Reaction keys are order independent: 'lowId:highId'
+export const reactionKey = (id1: number, id2: number) => id1 < id2 ? `${id1}:${id2}` : `${id2}:${id1}`;
+
+// Pixel counts per element name (plus 'Empty' and 'Total'), as shown to the Supervisor
+export const countElements = (grid: Int32Array, energyGrid: Int32Array, elements: ElementDef[]) => {
+  const counts: Record<string, number> = {};
+  const elemMap = new Map(elements.map(e => [e.id, e]));
+  const totalPixels = grid.length;
+
+  elements.forEach(e => counts[e.name] = 0);
+
+  let baseOccupied = 0;
+  for (let i = 0; i < grid.length; i++) {
+    if (grid[i] > 0) { // Ignore negative (consumed) values
+      const elem = elemMap.get(grid[i]);
+      if (elem) {
+        counts[elem.name] = (counts[elem.name] || 0) + 1;
+        baseOccupied++;
+      }
+    }
+  }
+
+  // Correctly set Empty count based on screen area
+  counts['Empty'] = totalPixels - baseOccupied;
+  counts['Total'] = totalPixels; // Explicit total for AI context
+
+  // Also check energy grid for fire/elec
+  for (let i = 0; i < energyGrid.length; i++) {
+    if (energyGrid[i] !== 0) {
+      const elem = elemMap.get(energyGrid[i]);
+      if (elem) counts[elem.name] = (counts[elem.name] || 0) + 1;
+    }
+  }
+  return counts;
+};
+
+// Outcome of the classic 'A+B -> 2*C' reaction (0 = no reaction)
+export const simpleOutcome = (resultId: number): ReactionOutcome | null =>
+  resultId > 0 ? { products: [{ id: resultId, probability: 1 }] } : null;
+
+// Elements an AI result makes (its own and every product named in it), to be added before the
+// reaction can be resolved. Products take what they do not define from the result.
+export const reactionElements = (result: ReactionResult): Omit<ElementDef, 'id'>[] => {
+  const { products, byproductEnergy, explosion, condition, rule, ...element } = result;
+  const made: Omit<ElementDef, 'id'>[] = [element];
+  const add = (name: string, product?: ReactionProduct) => {
+    if (name.toLowerCase() === 'empty' || made.some(e => e.name.toLowerCase() === name.toLowerCase())) return;
+    made.push({
+      name,
+      color: product?.color ?? result.color,
+      physics: product?.physics ?? result.physics,
+      description: product?.description ?? `Made along with ${result.name}.`,
+    });
+  };
+  products?.forEach(p => add(p.name, p));
+  rule?.products.forEach(name => add(name));
+  return made;
+};
+
+// Resolves the names in an AI result. Undefined while `result.name` or a product is not an
+// element yet (see reactionElements); other unknown names (energy, catalyst) are dropped.
+export const resolveOutcome = (result: ReactionResult, elements: ElementDef[]): ReactionOutcome | undefined => {
+  const toId = (name?: string) => {
+    if (!name) return undefined;
+    if (name.toLowerCase() === 'empty') return 0;
+    return elements.find(e => e.name.toLowerCase() === name.toLowerCase())?.id;
+  };
+  const named = result.products?.length ? result.products : [{ name: result.name, probability: 1 }];
+  if (toId(result.name) === undefined || named.some(p => toId(p.name) === undefined)) return undefined;
+
+  const products = named
+    .map(p => ({ id: toId(p.name)!, probability: clampProb(p.probability, 1) }))
+    .filter(p => p.probability > 0);
+  const { condition } = result;
+  return {
+    products,
+    energyId: toId(result.byproductEnergy) || undefined,
+    minTemperature: condition?.minTemperature,
+    maxTemperature: condition?.maxTemperature,
+    catalystId: toId(condition?.catalyst) || undefined,
+    explosion: typeof result.explosion === 'number' && result.explosion > 0 ? Math.min(result.explosion, MAX_BLAST_RADIUS) : undefined,
+  };
+};
+
+// Shapes drawn with a single element by draw(), in cells. `radius` is the thickness of strokes.
+export type DrawShape =
+  | { kind: 'line'; x0: number; y0: number; x1: number; y1: number; radius: number }
+  | { kind: 'rect'; x0: number; y0: number; x1: number; y1: number; radius: number; filled: boolean }
+  | { kind: 'fill'; x: number; y: number } // The connected area of whatever is at (x, y)
+  | { kind: 'replace'; x: number; y: number; radius: number; targetId: number } // Only cells of targetId in the circle
+  | { kind: 'spray'; x: number; y: number; radius: number; chance: number }; // Each cell of the circle with this chance
+
+// Everything that can change the world from outside of step().
+// Recording these (with the tick they happened on) plus the seed is enough to replay a run.
+export type SimulationInput =
+  | { type: 'paint'; x: number; y: number; radius: number; elementId: number }
+  | { type: 'draw'; shape: DrawShape; elementId: number }
+  | { type: 'stamp'; x: number; y: number; width: number; height: number; grid: number[]; energy: number[] }
+  | { type: 'elements'; elements: ElementDef[] }
+  | { type: 'reaction'; key: string; outcome: ReactionOutcome | null }
+  | { type: 'rules'; rules: ReactionRule[] }
+  | { type: 'rule'; rule: ReactionRule }
+  | { type: 'clear' }
+  | { type: 'beginStroke' } // What is painted until endStroke is one undo step
+  | { type: 'endStroke' }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+export type TimedInput = SimulationInput & { tick: number };
+
+// Copy of the per-cell world state, used for saving and loading worlds.
+export interface EngineState {
+  tick: number;
+  grid: Int32Array;
+  energyGrid: Int32Array;
+  density: Float32Array;
+  temperature: Float32Array;
+  velocity: Float32Array;
+  genome: Float32Array;
+  lineage: Int32Array;
+}
+
+// The cells a stroke changed with their values from before it (UNDO_INTS and UNDO_FLOATS per
+// cell). Swapping them with the current values undoes the stroke; swapping back redoes it.
+interface UndoStep {
+  cells: Int32Array;
+  ints: Int32Array;
+  floats: Float32Array;
+  lineages: Map<number, Lineage>; // Of the bots in those cells, in case they die out meanwhile
+}
+
+export interface SimulationOptions {
+  elements: ElementDef[];
+  rng: Rng;
+  width?: number;
+  height?: number;
+  boundary?: BoundaryMode; // Defaults to WALLS
+  // Keep a log of every input so the run can be exported and replayed.
+  record?: boolean;
+  rules?: ReactionRule[]; // Defaults to INITIAL_RULES
+  // Called when two touching elements have no cached reaction yet.
+  onUnknownReaction?: (key: string) => void;
+}
+
+/**
+ * Headless falling-sand simulation. Owns the material, energy and density grids
+ * and advances them one tick at a time; rendering and AI discovery live outside.
+ */
+export class SimulationEngine {
+  readonly width: number;
+  readonly height: number;
+  readonly boundary: BoundaryMode;
+
+  grid: Int32Array;
+  nextGrid: Int32Array;
+
+  // Energy Grid (Overlay for Fire, Electricity, etc)
+  energyGrid: Int32Array;
+  nextEnergyGrid: Int32Array;
+
+  // Density/Mass (0.0 to 1.0+) for Materials.
+  // For LIFE: Represents Hydration/Growth Potential. 1.0 = 1 pixel of growth.
+  density: Float32Array;
+  nextDensity: Float32Array;
+
+  // Temperature in °C per cell. It belongs to the location, not to the particle in it.
+  temperature: Float32Array;
+  nextTemperature: Float32Array;
+
+  // Flow in cells per tick, interleaved (x, y) per cell. Belongs to the location, like temperature.
+  velocity: Float32Array;
+
+  // 1 where a circuit is charged. Worked out from the material grid at the start of every step.
+  charge: Uint8Array;
+
+  // Genome of the bot in each cell (GENE_COUNT floats per cell) and its lineage (0 = none yet).
+  // Only meaningful where a bot is; they move with their bot.
+  genome: Float32Array;
+  lineage: Int32Array;
+  lineages = new Map<number, Lineage>();
+  nextLineageId = 1;
+
+  // Map 'idA:idB' -> what a reacting cell turns into (null = no reaction)
+  reactions: ReactionMap = new Map();
+
+  // Declarative reactions (see INITIAL_RULES), compiled against the current elements
+  rules: ReactionRule[];
+
+  // Number of completed steps
+  tick = 0;
+
+  readonly chunksX: number;
+  readonly chunksY: number;
+  // Chunks processed by the next step(); the rest only keep their cells
+  awake: Uint8Array;
+  // Chunks where something happened (or may happen by chance) during the current step
+  private active: Uint8Array;
+
+  // Inputs applied so far, null when not recording
+  inputLog: TimedInput[] | null;
+
+  // Newest last. `stroke` collects the step being painted, `seen` being the cells it kept already.
+  private undoSteps: UndoStep[] = [];
+  private redoSteps: UndoStep[] = [];
+  private stroke: { cells: number[]; ints: number[]; floats: number[]; lineages: Map<number, Lineage>; seen: Set<number> } | null = null;
+
+  onUnknownReaction?: (key: string) => void;
+
+  private rng: Rng;
+  private wrapX: boolean;
+  private wrapY: boolean;
+  private elements: ElementDef[] = [];
+  private elemMap = new Map<number, ElementDef>();
+  private heat = new Map<number, HeatProfile>();
+  private rulesByReactant = new Map<number, CompiledRule[]>();
+  // Elements that can change without anything touching them (decay, growth, movement by chance)
+  private restless = new Set<number>();
+  private liquids = new Set<number>();
+  // Element density by ID (see DEFAULT_DENSITY); not to be confused with the per-cell `density` grid
+  private elementDensity = new Map<number, number>();
+  // Circuit role by element ID (machines that need power conduct like wires), see propagateCharge
+  private circuitRoles: (ElectricRole | undefined)[] = [];
+  private needsPower = new Set<number>();
+  private behaviors = new Map<number, CompiledBehavior>();
+  private diets = new Map<number, CompiledFoodLink[]>();
+  // Lineage given to bots that appear without one (made by a reaction), by element ID
+  private wildLineages = new Map<number, number>();
+  // Scratch space for finding liquid bodies
+  private visited: Uint8Array;
+  private fillStack: Int32Array;
+  private surface: Int32Array;
+
+  constructor(options: SimulationOptions) {
+    this.width = options.width ?? GRID_WIDTH;
+    this.height = options.height ?? GRID_HEIGHT;
+    this.boundary = options.boundary ?? BoundaryMode.WALLS;
+    this.wrapX = this.boundary === BoundaryMode.WRAP_X;
+    this.wrapY = this.boundary === BoundaryMode.WRAP_Y;
+    this.rng = options.rng;
+    this.onUnknownReaction = options.onUnknownReaction;
+    this.inputLog = options.record ? [] : null;
+
+    const size = this.width * this.height;
+    this.grid = new Int32Array(size);
+    this.nextGrid = new Int32Array(size);
+    this.energyGrid = new Int32Array(size);
+    this.nextEnergyGrid = new Int32Array(size);
+    this.density = new Float32Array(size);
+    this.nextDensity = new Float32Array(size);
+    this.temperature = new Float32Array(size).fill(AMBIENT_TEMPERATURE);
+    this.nextTemperature = new Float32Array(size);
+    this.velocity = new Float32Array(size * 2);
+    this.charge = new Uint8Array(size);
+    this.genome = new Float32Array(size * GENE_COUNT);
+    this.lineage = new Int32Array(size);
+    this.visited = new Uint8Array(size);
+    this.fillStack = new Int32Array(size);
+    this.surface = new Int32Array(size);
+
+    this.chunksX = Math.ceil(this.width / (1 << CHUNK_SHIFT));
+    this.chunksY = Math.ceil(this.height / (1 << CHUNK_SHIFT));
+    this.awake = new Uint8Array(this.chunksX * this.chunksY).fill(1);
+    this.active = new Uint8Array(this.chunksX * this.chunksY);
+
+    this.rules = options.rules ?? INITIAL_RULES;
+    this.setElements(options.elements);
+    // Recorded like the elements, so a run replays with the rules it was made with
+    this.record({ type: 'rules', rules: this.rules });
+  }
+
+  // -1 outside the world; wrapping edges map back inside
+  getIdx = (x: number, y: number) => {
+    if (x < 0 || x >= this.width) {
+      if (!this.wrapX) return -1;
+      x = ((x % this.width) + this.width) % this.width;
+    }
+    if (y < 0 || y >= this.height) {
+      if (!this.wrapY) return -1;
+      y = ((y % this.height) + this.height) % this.height;
+    }
+    return y * this.width + x;
+  };
+
+  getElement(id: number) {
+    return this.elemMap.get(id);
+  }
+
+  getElements() {
+    return this.elements;
+  }
+
+  getElementByName(name: string) {
+    return this.elements.find(e => e.name === name);
+  }
+
+  private record(input: SimulationInput) {
+    this.inputLog?.push({ ...input, tick: this.tick });
+  }
+
+  // Applies a recorded input (used by replays)
+  apply(input: SimulationInput) {
+    switch (input.type) {
+      case 'paint': return this.paint(input.x, input.y, input.radius, input.elementId);
+      case 'draw': return this.draw(input.shape, input.elementId);
+      case 'stamp': return this.stamp(input.x, input.y, input.width, input.height, input.grid, input.energy);
+      case 'elements': return this.setElements(input.elements);
+      case 'reaction': return this.setReaction(input.key, input.outcome);
+      case 'rules': return this.setRules(input.rules);
+      case 'rule': return this.addRule(input.rule);
+      case 'clear': return this.clear();
+      case 'beginStroke': return this.beginStroke();
+      case 'endStroke': return this.endStroke();
+      case 'undo': return this.undo();
+      case 'redo': return this.redo();
+    }
+  }
+
+  setElements(elements: ElementDef[]) {
+    if (elements === this.elements) return;
+    this.record({ type: 'elements', elements });
+    this.elements = elements;
+    this.elemMap = new Map(elements.map(e => [e.id, e]));
+    this.heat = new Map(elements.map(e => [e.id, this.compileHeat(e)]));
+    this.restless = new Set(elements.filter(e =>
+      e.physics === PhysicsType.GAS || e.physics === PhysicsType.ENERGY || e.physics === PhysicsType.LIFE ||
+      e.physics === PhysicsType.BOT || e.physics === PhysicsType.MECHANISM ||
+      (e.decayTo !== undefined && (e.decayChance ?? 0) > 0)
+    ).map(e => e.id));
+    this.liquids = new Set(elements.filter(e => e.physics === PhysicsType.LIQUID).map(e => e.id));
+    this.elementDensity = new Map(elements.map(e => [
+      e.id,
+      typeof e.density === 'number' && Number.isFinite(e.density) && e.density > 0 ? e.density : DEFAULT_DENSITY[e.physics],
+    ]));
+    // Dense, so lookups of elements without a role stay fast
+    this.circuitRoles = new Array(Math.max(0, ...elements.map(e => e.id)) + 1).fill(undefined);
+    elements.forEach(e => {
+      const role = e.electric ?? (e.needsPower ? ElectricRole.CONDUCTOR : undefined);
+      if (role !== undefined) this.circuitRoles[e.id] = role;
+    });
+    this.needsPower = new Set(elements.filter(e => e.needsPower).map(e => e.id));
+    this.behaviors = new Map();
+    elements.forEach(e => {
+      const behavior = e.physics === PhysicsType.MECHANISM ? this.compileBehavior(e) : undefined;
+      if (behavior) this.behaviors.set(e.id, behavior);
+    });
+    this.diets = new Map();
+    elements.forEach(e => {
+      const diet = e.physics === PhysicsType.LIFE || e.physics === PhysicsType.BOT ? this.compileDiet(e.diet) : [];
+      if (diet.length > 0) this.diets.set(e.id, diet);
+    });
+    this.compileRules();
+    this.wakeAll();
+
+    const getId = (n: string) => this.getElementByName(n)?.id;
+    const w = getId('Water');
+    INERT_PAIRS.forEach(([a, b]) => this.ignore(getId(a), getId(b)));
+
+    // Prevent LIFE elements from reacting chemically with Water
+    // We want physics absorption (Growth) to take precedence over mixing.
+    if (w !== undefined) {
+      elements.forEach(elem => {
+        if (elem.physics === PhysicsType.LIFE) {
+          this.ignore(w, elem.id);
+        }
+      });
+    }
+
+    // Eating decides what happens between an eater and its prey
+    this.diets.forEach((diet, eater) => diet.forEach(link => this.ignore(eater, link.prey)));
+
+    // Circuit parts are wired together, they do not react with each other
+    const parts = elements.filter(e => this.circuitRoles[e.id] !== undefined);
+    parts.forEach(a => parts.forEach(b => this.ignore(a.id, b.id)));
+  }
+
+  setRules(rules: ReactionRule[]) {
+    this.record({ type: 'rules', rules });
+    this.rules = rules;
+    this.compileRules();
+    this.wakeAll();
+  }
+
+  addRule(rule: ReactionRule) {
+    this.record({ type: 'rule', rule });
+    this.rules = [...this.rules, rule];
+    this.compileRules();
+    this.wakeAll();
+  }
+
+  wakeAll() {
+    this.awake.fill(1);
+  }
+
+  // Wakes every chunk overlapping the given cell rectangle (inclusive). A rectangle that crosses
+  // a wrapping edge wakes the whole band along that axis.
+  private wakeRegion(x0: number, y0: number, x1: number, y1: number) {
+    const crossesX = this.wrapX && (x0 < 0 || x1 >= this.width);
+    const crossesY = this.wrapY && (y0 < 0 || y1 >= this.height);
+    const cx0 = crossesX ? 0 : Math.max(0, x0 >> CHUNK_SHIFT);
+    const cy0 = crossesY ? 0 : Math.max(0, y0 >> CHUNK_SHIFT);
+    const cx1 = crossesX ? this.chunksX - 1 : Math.min(this.chunksX - 1, x1 >> CHUNK_SHIFT);
+    const cy1 = crossesY ? this.chunksY - 1 : Math.min(this.chunksY - 1, y1 >> CHUNK_SHIFT);
+    for (let cy = cy0; cy <= cy1; cy++) {
+      for (let cx = cx0; cx <= cx1; cx++) this.awake[cy * this.chunksX + cx] = 1;
+    }
+  }
+
+  // Marks a pair as handled so it is never sent for AI discovery
+  private ignore(id1?: number, id2?: number) {
+    if (id1 !== undefined && id2 !== undefined) {
+      this.reactions.set(reactionKey(id1, id2), null);
+    }
+  }
+
+  // Rules whose elements do not exist yet are skipped until they do
+  private compileRules() {
+    const byReactant = new Map<number, CompiledRule[]>();
+    const toId = (name: string) => name === 'Empty' ? 0 : this.getElementByName(name)?.id;
+    const add = (reactant: number, rule: CompiledRule) => {
+      if (!byReactant.has(reactant)) byReactant.set(reactant, []);
+      byReactant.get(reactant)!.push(rule);
+    };
+
+    for (const rule of this.rules) {
+      if (rule.reactants.length < 1 || rule.reactants.length > 2 || rule.products.length !== rule.reactants.length) continue;
+      const reactants = rule.reactants.map(toId);
+      const products = rule.products.map(toId);
+      const catalysts = (rule.catalysts ?? []).map(toId);
+      const emitEnergy = rule.emitEnergy ? toId(rule.emitEnergy) : undefined;
+      if ([...reactants, ...products, ...catalysts].some(id => id === undefined)) continue;
+      if (rule.emitEnergy && emitEnergy === undefined) continue;
+
+      const [self, partner] = reactants as number[];
+      const base = {
+        catalysts: catalysts as number[],
+        minTemperature: rule.minTemperature,
+        probability: clampProb(rule.probability, 1),
+        emitEnergy,
+        explosion: typeof rule.explosion === 'number' && rule.explosion > 0 ? Math.min(rule.explosion, MAX_BLAST_RADIUS) : undefined,
+      };
+      add(self, { ...base, partner, products: products as number[] });
+      // Either side of a pair may be updated first, so index the mirrored rule too
+      if (partner !== undefined && partner !== self) {
+        add(partner, { ...base, partner: self, products: [products[1], products[0]] as number[] });
+      }
+
+      // The rule decides what happens between these elements, not the AI
+      if (partner !== undefined) this.ignore(self, partner);
+      catalysts.forEach(c => this.ignore(self, c));
+    }
+    this.rulesByReactant = byReactant;
+  }
+
+  // Names that are not elements yet (or of the wrong kind) are dropped until they are
+  private compileBehavior(elem: ElementDef): CompiledBehavior | undefined {
+    const b = elem.behavior;
+    if (!b) return undefined;
+    const find = (name: string | undefined, energy: boolean) => {
+      const target = name ? this.getElementByName(name) : undefined;
+      return target && target.id !== 0 && (target.physics === PhysicsType.ENERGY) === energy ? target.id : undefined;
+    };
+    return {
+      push: b.push ? DIRECTION_STEP[b.push] : undefined,
+      pull: b.pull === true,
+      emitElement: find(b.emitElement, false),
+      emitEnergy: find(b.emitEnergy, true),
+      emitChance: b.emitChance === undefined ? DEFAULT_EMIT_CHANCE : clampProb(b.emitChance, MAX_EMIT_CHANCE),
+      rotate: b.rotate === true,
+    };
+  }
+
+  // Prey must be a material; links to elements that do not exist yet are dropped until they do
+  private compileDiet(diet: FoodLink[] | undefined): CompiledFoodLink[] {
+    const links: CompiledFoodLink[] = [];
+    (diet ?? []).forEach(link => {
+      const prey = this.getElementByName(link.eats);
+      const leftover = link.becomes ? this.getElementByName(link.becomes) : undefined;
+      if (!prey || prey.id === 0 || prey.physics === PhysicsType.ENERGY) return;
+      if ((link.becomes && !leftover) || leftover?.physics === PhysicsType.ENERGY) return;
+      links.push({
+        prey: prey.id,
+        becomes: leftover?.id ?? 0,
+        energy: link.energy === undefined ? DEFAULT_MEAL_ENERGY : clampProb(link.energy, 1),
+      });
+    });
+    return links;
+  }
+
+  private compileHeat(elem: ElementDef): HeatProfile {
+    const changes: HeatProfile['changes'] = [];
+    const add = (above: boolean, point?: number, name?: string) => {
+      const to = name ? this.getElementByName(name)?.id : undefined;
+      if (typeof point === 'number' && Number.isFinite(point) && to !== undefined && to !== elem.id) {
+        changes.push({ above, point, to });
+      }
+    };
+    add(true, elem.boilingPoint, elem.boilsInto);
+    add(true, elem.meltingPoint, elem.meltsInto);
+    add(false, elem.freezingPoint, elem.freezesInto);
+    add(false, elem.condensationPoint, elem.condensesInto);
+    // Most extreme threshold wins when several are crossed at once
+    changes.sort((a, b) => a.above === b.above ? (a.above ? b.point - a.point : a.point - b.point) : 0);
+
+    return {
+      heatCapacity: Math.max(1, elem.heatCapacity ?? DEFAULT_HEAT_CAPACITY[elem.physics] ?? 2),
+      source: elem.heatSource && typeof elem.temperature === 'number' ? elem.temperature : undefined,
+      changes,
+    };
+  }
+
+  // Element a cell of `id` turns into at temperature `t`, if any
+  private stateChange(id: number, t: number) {
+    const profile = this.heat.get(id);
+    if (!profile) return undefined;
+    for (const change of profile.changes) {
+      if (change.above ? t > change.point : t < change.point) return change.to;
+    }
+    return undefined;
+  }
+
+  setReaction(key: string, outcome: ReactionOutcome | null) {
+    this.record({ type: 'reaction', key, outcome });
+    this.reactions.set(key, outcome);
+    this.wakeAll();
+  }
+
+  clear() {
+    this.record({ type: 'clear' });
+    if (this.stroke) {
+      // Only cells that hold something need keeping for undo
+      for (let i = 0; i < this.grid.length; i++) {
+        if (
+          this.grid[i] !== 0 || this.energyGrid[i] !== 0 || this.density[i] !== 0 || this.lineage[i] !== 0 ||
+          this.temperature[i] !== AMBIENT_TEMPERATURE || this.velocity[i * 2] !== 0 || this.velocity[i * 2 + 1] !== 0
+        ) {
+          this.backup(i);
+        }
+      }
+    }
+    this.grid.fill(0);
+    this.nextGrid.fill(0);
+    this.energyGrid.fill(0);
+    this.nextEnergyGrid.fill(0);
+    this.density.fill(0);
+    this.nextDensity.fill(0);
+    this.temperature.fill(AMBIENT_TEMPERATURE);
+    this.velocity.fill(0);
+    this.charge.fill(0);
+    this.lineage.fill(0);
+    this.lineages.clear();
+    this.wildLineages.clear();
+    this.wakeAll();
+  }
+
+  getState(): EngineState {
+    return {
+      tick: this.tick,
+      grid: this.grid.slice(),
+      energyGrid: this.energyGrid.slice(),
+      density: this.density.slice(),
+      temperature: this.temperature.slice(),
+      velocity: this.velocity.slice(),
+      genome: this.genome.slice(),
+      lineage: this.lineage.slice(),
+    };
+  }
+
+  setState(state: EngineState) {
+    const size = this.width * this.height;
+    if (
+      state.grid.length !== size || state.energyGrid.length !== size ||
+      state.density.length !== size || state.temperature.length !== size || state.velocity.length !== size * 2 ||
+      state.genome.length !== size * GENE_COUNT || state.lineage.length !== size
+    ) {
+      throw new Error(`State does not match a ${this.width}x${this.height} world`);
+    }
+    this.grid.set(state.grid);
+    this.energyGrid.set(state.energyGrid);
+    this.density.set(state.density);
+    this.temperature.set(state.temperature);
+    this.velocity.set(state.velocity);
+    this.genome.set(state.genome);
+    this.lineage.set(state.lineage);
+    this.wildLineages.clear();
+    this.nextGrid.fill(0);
+    this.nextEnergyGrid.fill(0);
+    this.nextDensity.fill(0);
+    this.tick = state.tick;
+    // Undo steps belong to the replaced world
+    this.undoSteps = [];
+    this.redoSteps = [];
+    this.stroke = null;
+    this.wakeAll();
+  }
+
+  // Position of a seeded random source in its sequence; undefined for others (see Rng)
+  getRngState() {
+    return this.rng.getState?.();
+  }
+
+  setRngState(state: number) {
+    this.rng.setState?.(state);
+  }
+
+  // Painting, drawing, stamping and clearing until endStroke() form one undo step. The simulation
+  // keeps running in between and is not undone, only the cells the stroke changed.
+  beginStroke() {
+    this.record({ type: 'beginStroke' });
+    this.closeStroke();
+    this.stroke = { cells: [], ints: [], floats: [], lineages: new Map(), seen: new Set() };
+  }
+
+  endStroke() {
+    this.record({ type: 'endStroke' });
+    this.closeStroke();
+  }
+
+  undo() {
+    this.record({ type: 'undo' });
+    this.closeStroke();
+    const step = this.undoSteps.pop();
+    if (step) this.redoSteps.push(this.swapCells(step));
+  }
+
+  redo() {
+    this.record({ type: 'redo' });
+    this.closeStroke();
+    const step = this.redoSteps.pop();
+    if (step) this.undoSteps.push(this.swapCells(step));
+  }
+
+  // Undo and redo steps available
+  history() {
+    return { undo: this.undoSteps.length, redo: this.redoSteps.length };
+  }
+
+  private closeStroke() {
+    const stroke = this.stroke;
+    this.stroke = null;
+    if (!stroke || stroke.cells.length === 0) return;
+    this.undoSteps.push({
+      cells: Int32Array.from(stroke.cells),
+      ints: Int32Array.from(stroke.ints),
+      floats: Float32Array.from(stroke.floats),
+      lineages: stroke.lineages,
+    });
+    // A new change makes the redo steps meaningless
+    this.redoSteps = [];
+    let kept = this.undoSteps.reduce((total, step) => total + step.cells.length, 0);
+    while (this.undoSteps.length > MAX_UNDO_STEPS || (kept > MAX_UNDO_CELLS && this.undoSteps.length > 1)) {
+      kept -= this.undoSteps.shift()!.cells.length;
+    }
+  }
+
+  // Keeps a cell's values for the open stroke, before it first changes them
+  private backup(idx: number) {
+    const stroke = this.stroke;
+    if (!stroke || stroke.seen.has(idx)) return;
+    stroke.seen.add(idx);
+    this.readCell(idx, stroke.cells.length, stroke.ints, stroke.floats, stroke.lineages);
+    stroke.cells.push(idx);
+  }
+
+  // Puts a step's values back and returns the ones they replaced (the step going the other way)
+  private swapCells(step: UndoStep): UndoStep {
+    const replaced: UndoStep = {
+      cells: step.cells,
+      ints: new Int32Array(step.ints.length),
+      floats: new Float32Array(step.floats.length),
+      lineages: new Map(),
+    };
+    step.cells.forEach((idx, k) => {
+      this.readCell(idx, k, replaced.ints, replaced.floats, replaced.lineages);
+      this.writeCell(idx, k, step);
+    });
+    this.wakeAll();
+    return replaced;
+  }
+
+  private readCell(idx: number, k: number, ints: Int32Array | number[], floats: Float32Array | number[], lineages: Map<number, Lineage>) {
+    const i = k * UNDO_INTS, f = k * UNDO_FLOATS;
+    ints[i] = this.grid[idx];
+    ints[i + 1] = this.energyGrid[idx];
+    ints[i + 2] = this.lineage[idx];
+    floats[f] = this.density[idx];
+    floats[f + 1] = this.temperature[idx];
+    floats[f + 2] = this.velocity[idx * 2];
+    floats[f + 3] = this.velocity[idx * 2 + 1];
+    for (let g = 0; g < GENE_COUNT; g++) floats[f + 4 + g] = this.genome[idx * GENE_COUNT + g];
+    const lineage = this.lineages.get(this.lineage[idx]);
+    if (lineage) lineages.set(lineage.id, lineage);
+  }
+
+  private writeCell(idx: number, k: number, { ints, floats, lineages }: UndoStep) {
+    const i = k * UNDO_INTS, f = k * UNDO_FLOATS;
+    this.grid[idx] = ints[i];
+    this.energyGrid[idx] = ints[i + 1];
+    this.lineage[idx] = ints[i + 2];
+    this.density[idx] = floats[f];
+    this.temperature[idx] = floats[f + 1];
+    this.velocity[idx * 2] = floats[f + 2];
+    this.velocity[idx * 2 + 1] = floats[f + 3];
+    for (let g = 0; g < GENE_COUNT; g++) this.genome[idx * GENE_COUNT + g] = floats[f + 4 + g];
+    const lineage = lineages.get(ints[i + 2]);
+    if (lineage && !this.lineages.has(lineage.id)) this.lineages.set(lineage.id, lineage);
+  }
+
+  // Writes one element into cells, for a single stroke. Element 0 (Empty) erases every layer.
+  private painter(elementId: number) {
+    const selectedElem = this.elemMap.get(elementId);
+    const isEnergy = selectedElem?.physics === PhysicsType.ENERGY;
+    const isErase = elementId === 0;
+    const paintTemperature = isErase ? AMBIENT_TEMPERATURE
+      : typeof selectedElem?.temperature === 'number' ? selectedElem.temperature : undefined;
+    // Every stroke of bots founds its own lineage
+    const botLineage = selectedElem?.physics === PhysicsType.BOT
+      ? this.foundLineage(elementId, this.defaultGenome()) : 0;
+
+    return (idx: number) => {
+      this.backup(idx);
+      if (paintTemperature !== undefined) this.temperature[idx] = paintTemperature;
+      if (isErase) {
+        this.grid[idx] = 0;
+        this.energyGrid[idx] = 0;
+        this.density[idx] = 0;
+      } else if (isEnergy) {
+        this.energyGrid[idx] = elementId;
+      } else {
+        this.grid[idx] = elementId;
+        this.density[idx] = 1.0;
+        if (botLineage) this.writeGenome(idx, this.lineages.get(botLineage)!.genome, botLineage);
+      }
+    };
+  }
+
+  // Brushes wider than the world only cost time (radii come from the Supervisor too)
+  private clampRadius(radius: number) {
+    return Math.max(0, Math.min(radius, Math.max(this.width, this.height)));
+  }
+
+  // Paints a filled circle. Element 0 (Empty) erases every layer.
+  paint(centerX: number, centerY: number, radius: number, elementId: number) {
+    this.record({ type: 'paint', x: centerX, y: centerY, radius, elementId });
+    radius = this.clampRadius(radius);
+    // One cell of margin so neighbours of the painted area notice the change
+    this.wakeRegion(centerX - radius - 1, centerY - radius - 1, centerX + radius + 1, centerY + radius + 1);
+    const paintCell = this.painter(elementId);
+
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        if (dx*dx + dy*dy > radius*radius) continue;
+        const idx = this.getIdx(centerX + dx, centerY + dy);
+        if (idx !== -1) paintCell(idx);
+      }
+    }
+  }
+
+  // Draws a line, rectangle, flood fill, replacement or spray (see DrawShape) with one element.
+  draw(shape: DrawShape, elementId: number) {
+    this.record({ type: 'draw', shape, elementId });
+    const { width, height, grid, energyGrid } = this;
+    // Shapes reaching far outside the world would be walked cell by cell for nothing
+    const margin = Math.max(width, height);
+    const clampX = (x: number) => Math.max(-margin, Math.min(x, width + margin));
+    const clampY = (y: number) => Math.max(-margin, Math.min(y, height + margin));
+    const cells = new Set<number>();
+    const add = (x: number, y: number) => {
+      const idx = this.getIdx(x, y);
+      if (idx !== -1) cells.add(idx);
+    };
+    const disc = (cx: number, cy: number, r: number) => {
+      for (let dy = -r; dy <= r; dy++) {
+        for (let dx = -r; dx <= r; dx++) {
+          if (dx*dx + dy*dy <= r*r) add(cx + dx, cy + dy);
+        }
+      }
+    };
+    const line = (x0: number, y0: number, x1: number, y1: number, r: number) => {
+      [x0, y0, x1, y1, r] = [clampX(x0), clampY(y0), clampX(x1), clampY(y1), this.clampRadius(r)];
+      const steps = Math.max(1, Math.abs(x1 - x0), Math.abs(y1 - y0));
+      for (let s = 0; s <= steps; s++) {
+        disc(Math.round(x0 + (x1 - x0) * s / steps), Math.round(y0 + (y1 - y0) * s / steps), r);
+      }
+    };
+
+    const target = shape.kind === 'replace' ? this.elemMap.get(shape.targetId) : undefined;
+    const targetIsEnergy = target?.physics === PhysicsType.ENERGY;
+    switch (shape.kind) {
+      case 'line':
+        line(shape.x0, shape.y0, shape.x1, shape.y1, shape.radius);
+        break;
+      case 'rect': {
+        const { radius } = shape;
+        const [x0, y0, x1, y1] = [clampX(shape.x0), clampY(shape.y0), clampX(shape.x1), clampY(shape.y1)];
+        if (shape.filled) {
+          for (let y = Math.min(y0, y1); y <= Math.max(y0, y1); y++) {
+            for (let x = Math.min(x0, x1); x <= Math.max(x0, x1); x++) add(x, y);
+          }
+        } else {
+          line(x0, y0, x1, y0, radius);
+          line(x1, y0, x1, y1, radius);
+          line(x1, y1, x0, y1, radius);
+          line(x0, y1, x0, y0, radius);
+        }
+        break;
+      }
+      case 'fill':
+        this.connectedRegion(shape.x, shape.y).forEach(idx => cells.add(idx));
+        break;
+      case 'replace':
+        disc(shape.x, shape.y, this.clampRadius(shape.radius));
+        cells.forEach(idx => {
+          if ((targetIsEnergy ? energyGrid[idx] : grid[idx]) !== shape.targetId) cells.delete(idx);
+        });
+        break;
+      case 'spray':
+        disc(shape.x, shape.y, this.clampRadius(shape.radius));
+        cells.forEach(idx => {
+          if (this.rng() >= shape.chance) cells.delete(idx);
+        });
+        break;
+    }
+    if (cells.size === 0) return;
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    cells.forEach(idx => {
+      const x = idx % width, y = (idx - x) / width;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    });
+    this.wakeRegion(minX - 1, minY - 1, maxX + 1, maxY + 1);
+
+    const paintCell = this.painter(elementId);
+    cells.forEach(idx => {
+      // Replacing an energy only takes the energy away; the material under it stays
+      if (targetIsEnergy) {
+        this.backup(idx);
+        energyGrid[idx] = 0;
+        if (elementId !== 0) paintCell(idx);
+      } else {
+        paintCell(idx);
+      }
+    });
+  }
+
+  // Pastes a block of cells with its top-left corner at (x, y), as element IDs per layer (energy 0
+  // clears the energy). -1 leaves a cell as it is.
+  stamp(x: number, y: number, width: number, height: number, grid: number[], energy: number[]) {
+    this.record({ type: 'stamp', x, y, width, height, grid, energy });
+    this.wakeRegion(x - 1, y - 1, x + width, y + height);
+    const painters = new Map<number, (idx: number) => void>();
+    const paintCell = (id: number, idx: number) => {
+      if (!painters.has(id)) painters.set(id, this.painter(id));
+      painters.get(id)!(idx);
+    };
+
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        const idx = this.getIdx(x + dx, y + dy);
+        if (idx === -1) continue;
+        const k = dy * width + dx;
+        if (grid[k] !== -1) paintCell(grid[k], idx);
+        if (energy[k] > 0) paintCell(energy[k], idx);
+        else if (energy[k] === 0) {
+          this.backup(idx);
+          this.energyGrid[idx] = 0;
+        }
+      }
+    }
+  }
+
+  // Cells connected (through edges) to (x, y) that hold the same material
+  private connectedRegion(x: number, y: number) {
+    const { width, grid } = this;
+    const start = this.getIdx(x, y);
+    if (start === -1) return [];
+    const id = grid[start];
+    const seen = new Uint8Array(grid.length);
+    const region = [start];
+    seen[start] = 1;
+    for (let k = 0; k < region.length; k++) {
+      const idx = region[k];
+      const cx = idx % width, cy = (idx - cx) / width;
+      for (const n of [this.getIdx(cx, cy - 1), this.getIdx(cx, cy + 1), this.getIdx(cx - 1, cy), this.getIdx(cx + 1, cy)]) {
+        if (n !== -1 && !seen[n] && grid[n] === id) {
+          seen[n] = 1;
+          region.push(n);
+        }
+      }
+    }
+    return region;
+  }
+
+  getStats(): Record<string, number> {
+    return countElements(this.grid, this.energyGrid, this.elements);
+  }
+
+  // Advances the world by one tick.
+  step() {
+    const { width, height, getIdx, elemMap, reactions } = this;
+    const random = this.rng;
+
+    // 1. Sanitize Grid (Cleanup consumed particles from previous frame)
+    // -1 marks a consumed water particle. It must be reset to 0 (Empty) for this frame.
+    for (let k = 0; k < this.grid.length; k++) {
+      if (this.grid[k] < 0) this.grid[k] = 0;
+    }
+
+    const grid = this.grid;
+    const nextGrid = this.nextGrid;
+    const energyGrid = this.energyGrid;
+    const nextEnergyGrid = this.nextEnergyGrid;
+    const density = this.density;
+    const nextDensity = this.nextDensity;
+    const temperature = this.temperature;
+    const velocity = this.velocity;
+    const { awake, active, chunksX, restless, elementDensity, charge, circuitRoles, genome, lineage } = this;
+    // Whether element `a` sinks through element `b`
+    const heavier = (a: number, b: number) => (elementDensity.get(a) ?? 0) > (elementDensity.get(b) ?? 0);
+
+    active.fill(0);
+    this.propagateCharge();
+    this.conductHeat();
+    this.fadeVelocity();
+
+    // Sleeping chunks keep their cells; awake ones are rebuilt from scratch
+    nextGrid.set(grid);
+    nextDensity.set(density);
+    nextEnergyGrid.set(energyGrid);
+    this.forEachAwakeRow((from, to) => {
+      nextGrid.fill(0, from, to);
+      nextDensity.fill(0, from, to);
+      nextEnergyGrid.fill(0, from, to);
+    });
+
+    const maxNewEnergyPerTick = Math.floor(width * height * MAX_NEW_ENERGY_FRACTION);
+    let newEnergyThisTick = 0;
+    const setEnergy = (idx: number, energyId: number) => {
+      if (idx === -1) return false;
+      if (nextEnergyGrid[idx] === energyId) return true;
+      if (nextEnergyGrid[idx] === 0) {
+        if (newEnergyThisTick >= maxNewEnergyPerTick) return false;
+        newEnergyThisTick++;
+      }
+      nextEnergyGrid[idx] = energyId;
+      return true;
+    };
+
+    // Where the flow field carries a loose particle at (x, y), or -1
+    const carry = (x: number, y: number, i: number) => {
+      const vx = velocity[i * 2];
+      const vy = velocity[i * 2 + 1];
+      const speed = Math.hypot(vx, vy);
+      if (speed < CARRY_THRESHOLD) return -1;
+      const cells = Math.min(MAX_CARRY_CELLS, Math.round(speed));
+      let dest = -1;
+      for (let k = 1; k <= cells; k++) {
+        const n = getIdx(Math.round(x + vx / speed * k), Math.round(y + vy / speed * k));
+        if (n === -1 || n === i || grid[n] !== 0 || nextGrid[n] !== 0) break;
+        dest = n;
+      }
+      return dest;
+    };
+
+    const getId = (name: string) => this.getElementByName(name)?.id;
+    const waterId = getId('Water');
+    const elecId = getId('Electricity');
+
+    // Iterate Bottom to Top
+    for (let y = height - 1; y >= 0; y--) {
+      const leftToRight = random() > 0.5;
+      const xStart = leftToRight ? 0 : width - 1;
+      const xEnd = leftToRight ? width : -1;
+      const xStep = leftToRight ? 1 : -1;
+      const rowChunk = (y >> CHUNK_SHIFT) * chunksX;
+
+      for (let x = xStart; x !== xEnd; x += xStep) {
+        const chunk = rowChunk + (x >> CHUNK_SHIFT);
+        if (!awake[chunk]) continue;
+        const i = y * width + x;
+
+        // --- ENERGY PHYSICS (Decay & Spread) ---
+        const enId = energyGrid[i];
+        if (enId !== 0) {
+          active[chunk] = 1;
+          const enElem = elemMap.get(enId);
+          if (enElem) {
+            const decayChance = clampProb(enElem.decayChance, MAX_DECAY_CHANCE);
+            // Insulators ground Electricity
+            const grounded = enId === elecId && grid[i] > 0 && circuitRoles[grid[i]] === ElectricRole.INSULATOR;
+            // Decay
+            if (!grounded && random() > decayChance) {
+              nextEnergyGrid[i] = enId;
+
+              // Simple Spread (Diffusion)
+              // Disable spread for Electricity to keep it as a static source
+              const isStatic = enId === elecId;
+
+              // Prevent runaway energy growth by tying spread probability to decay probability.
+              // (Low-decay energy spreads slowly; zero-decay becomes static.)
+              const spreadChance = Math.min(BASE_ENERGY_SPREAD_CHANCE, decayChance);
+              if (!isStatic && spreadChance > 0 && random() < spreadChance) {
+                const dirs = [getIdx(x+1, y), getIdx(x-1, y), getIdx(x, y-1), getIdx(x, y+1)];
+                const validDirs = dirs.filter(d => d !== -1 && nextEnergyGrid[d] === 0);
+                if (validDirs.length > 0) {
+                  const dest = validDirs[Math.floor(random() * validDirs.length)];
+                  setEnergy(dest, enId);
+                }
+              }
+            }
+          }
+        }
+
+        // --- MATERIAL PHYSICS ---
+        const cellId = grid[i];
+        if (cellId <= 0) continue; // Skip empty or consumed (-1) cells
+        if (nextGrid[i] !== 0) continue; // Already moved/consumed in next state
+
+        const elem = elemMap.get(cellId);
+        if (!elem) continue;
+        if (restless.has(cellId)) active[chunk] = 1;
+
+        let currentMass = density[i];
+        if (currentMass <= 0.005) currentMass = 0;
+        // For LIFE, currentMass can be 0 (dry), so we continue even if 0.
+        if (elem.physics !== PhysicsType.LIFE && currentMass === 0) continue;
+
+        const neighbors = [
+          getIdx(x, y-1),
+          getIdx(x, y+1),
+          getIdx(x-1, y),
+          getIdx(x+1, y)
+        ];
+
+        // STATE CHANGES (melting, boiling, freezing, condensing)
+        const changeTo = this.stateChange(cellId, temperature[i]);
+        if (changeTo !== undefined) {
+          if (random() < STATE_CHANGE_CHANCE) {
+            nextGrid[i] = changeTo;
+            nextDensity[i] = currentMass > 0 ? currentMass : 1.0;
+            continue;
+          }
+          active[chunk] = 1;
+        }
+
+        // REACTION RULES
+        const cellRules = this.rulesByReactant.get(cellId);
+        if (cellRules) {
+          const touches = (id: number) => enId === id || neighbors.some(n => n !== -1 && (energyGrid[n] === id || grid[n] === id));
+          let reacted = false;
+          for (const rule of cellRules) {
+            if (rule.minTemperature !== undefined && temperature[i] < rule.minTemperature) continue;
+            if (!rule.catalysts.every(touches)) continue;
+
+            // The partner must still be in place (not moved or consumed this tick)
+            let partnerIdx = -1;
+            if (rule.partner !== undefined) {
+              const candidates = neighbors.filter(n => n !== -1 && grid[n] === rule.partner && nextGrid[n] === 0);
+              if (candidates.length === 0) continue;
+              partnerIdx = candidates[Math.floor(random() * candidates.length)];
+            }
+            if (random() >= rule.probability) {
+              active[chunk] = 1; // Could still fire on a later tick
+              continue;
+            }
+
+            nextGrid[i] = rule.products[0];
+            nextDensity[i] = rule.products[0] !== 0 ? 1.0 : 0;
+            if (partnerIdx !== -1) {
+              // -1 keeps the partner cell from being updated again this tick
+              nextGrid[partnerIdx] = rule.products[1] !== 0 ? rule.products[1] : -1;
+              nextDensity[partnerIdx] = rule.products[1] !== 0 ? 1.0 : 0;
+            }
+            if (rule.emitEnergy !== undefined) setEnergy(i, rule.emitEnergy);
+            if (rule.explosion !== undefined) this.blast(x, y, rule.explosion);
+            reacted = true;
+            break;
+          }
+          if (reacted) continue;
+        }
+
+        // Default Decay
+        const materialDecayChance = clampProb(elem.decayChance, MAX_DECAY_CHANCE);
+        if (elem.physics !== PhysicsType.BOT && elem.decayTo !== undefined && random() < materialDecayChance) {
+          nextGrid[i] = elem.decayTo;
+          nextDensity[i] = currentMass * 0.9;
+          continue;
+        }
+
+        // MOVEMENT PHYSICS
+        let moved = false;
+
+        // --- BOT LOGIC ---
+        if (elem.physics === PhysicsType.BOT) {
+          let battery = currentMass;
+          if (lineage[i] === 0) this.adoptWild(i, cellId);
+
+          // 1. Check Hazards (Water kills bots)
+          let dead = false;
+          for (const n of neighbors) {
+            if (n!==-1 && grid[n]!==0) {
+              const nEl = elemMap.get(grid[n]);
+              if (nEl?.physics === PhysicsType.LIQUID) {
+                dead = true;
+                break;
+              }
+            }
+          }
+          if (dead) {
+            lineage[i] = 0;
+            if (elem.decayTo) nextGrid[i] = elem.decayTo;
+            else nextGrid[i] = 0;
+            nextDensity[i] = 1.0;
+            continue;
+          }
+
+          // 2. Recharge (from Electricity or a charged circuit)
+          let charging = enId === elecId;
+          if (!charging) {
+            for (const n of neighbors) {
+              if (n!==-1 && (energyGrid[n] === elecId || charge[n])) { charging = true; break; }
+            }
+          }
+          if (charging) battery = 1.0;
+          const diet = this.diets.get(cellId);
+          if (diet && battery < 1 && random() < EAT_CHANCE) battery = Math.min(1, battery + this.eat(neighbors, diet));
+
+          // 3. Drain Battery
+          battery -= 0.002; // Drain rate
+          if (battery <= 0) {
+            lineage[i] = 0;
+            if (elem.decayTo) nextGrid[i] = elem.decayTo;
+            else nextGrid[i] = 0;
+            nextDensity[i] = 1.0;
+            continue;
+          }
+
+          // 4. Replication: a charged bot turns a touching cell of its food into an offspring
+          const g = i * GENE_COUNT;
+          if (battery > genome[g + GENE_REPLICATE] && random() < REPLICATION_CHANCE) {
+            const food = genome[g + GENE_FOOD];
+            const targets = neighbors.filter(n => n !== -1 && grid[n] > 0 && grid[n] === food);
+
+            if (targets.length > 0) {
+              const target = targets[Math.floor(random() * targets.length)];
+              if (nextGrid[target] === 0) { // Only if not moved yet
+                nextGrid[target] = cellId;
+                nextDensity[target] = 0.5; // Start with half charge
+                battery -= 0.1; // Cost to replicate
+                this.inherit(i, target, cellId, neighbors);
+              }
+            }
+          }
+
+          // 5. Movement (Fall, then Crawl), steered by the genome
+          const bias = (1 + genome[g + GENE_MOVE_BIAS]) / 2; // Chance to pick right over left
+          const pick = (l: number, r: number) => {
+            const canL = l !== -1 && grid[l] === 0 && nextGrid[l] === 0;
+            const canR = r !== -1 && grid[r] === 0 && nextGrid[r] === 0;
+            if (canL && canR) return random() < bias ? r : l;
+            return canL ? l : canR ? r : -1;
+          };
+          const down = getIdx(x, y + 1);
+          let dest = -1;
+          if (down !== -1 && grid[down] === 0 && nextGrid[down] === 0) {
+            dest = down;
+          } else {
+            dest = pick(getIdx(x - 1, y), getIdx(x + 1, y));
+            // Climb over small obstacles
+            if (dest === -1 && random() < genome[g + GENE_CLIMB]) dest = pick(getIdx(x - 1, y - 1), getIdx(x + 1, y - 1));
+          }
+          if (dest !== -1) {
+            nextGrid[dest] = cellId;
+            nextDensity[dest] = battery;
+            genome.copyWithin(dest * GENE_COUNT, g, g + GENE_COUNT);
+            lineage[dest] = lineage[i];
+            lineage[i] = 0;
+            moved = true;
+          }
+
+          if (!moved) {
+            nextGrid[i] = cellId;
+            nextDensity[i] = battery;
+          }
+          continue; // Skip generic movement
+        }
+
+        if (elem.physics === PhysicsType.MECHANISM) {
+          nextGrid[i] = cellId;
+          nextDensity[i] = currentMass;
+
+          // Generators and powered machines only run while their cell is charged
+          const behavior = this.behaviors.get(cellId);
+          const powered = this.needsPower.has(cellId) || circuitRoles[cellId] === ElectricRole.GENERATOR;
+          if (behavior && (!powered || charge[i])) this.runMechanism(x, y, behavior, setEnergy);
+          continue;
+        }
+
+        // --- LIFE PHYSICS (Connected Growth) ---
+        if (elem.physics === PhysicsType.LIFE) {
+
+          // Overcrowding Check (Spread style)
+          if (elem.growthStyle === GrowthStyle.SPREAD) {
+            let sameNeighbors = 0;
+            const allNeighbors = [
+              getIdx(x-1,y-1), getIdx(x,y-1), getIdx(x+1,y-1),
+              getIdx(x-1,y),              getIdx(x+1,y),
+              getIdx(x-1,y+1), getIdx(x,y+1), getIdx(x+1,y+1)
+            ];
+            for (const n of allNeighbors) {
+              if (n!==-1 && grid[n] === cellId) sameNeighbors++;
+            }
+            if (sameNeighbors >= 7 && random() < 0.05) {
+              nextGrid[i] = 0; // Die
+              continue;
+            }
+          }
+
+          // Support Check
+          const down = getIdx(x, y + 1);
+          const supportId = down !== -1 ? grid[down] : 0;
+          const supportElem = supportId > 0 ? elemMap.get(supportId) : null;
+          const hasSupport = supportId > 0 && (supportElem?.physics === PhysicsType.SOLID || supportElem?.physics === PhysicsType.POWDER || supportElem?.physics === PhysicsType.LIFE);
+
+          if ((elem.growthStyle === GrowthStyle.VERTICAL || elem.growthStyle === GrowthStyle.SURFACE) && !hasSupport) {
+            if (random() < 0.1) {
+              nextGrid[i] = 0;
+              continue;
+            }
+          }
+
+          // Keep Alive
+          nextGrid[i] = cellId;
+
+          // EATERS live on their prey instead of water
+          const diet = this.diets.get(cellId);
+          if (diet) {
+            let energy = currentMass;
+            if (energy < 1 && random() < EAT_CHANCE) energy += this.eat(neighbors, diet);
+            energy -= HUNGER;
+            if (energy <= 0) {
+              nextGrid[i] = elem.decayTo ?? 0; // Starved
+              nextDensity[i] = elem.decayTo !== undefined ? 1.0 : 0;
+              continue;
+            }
+            if (energy >= 1 && random() < (elem.growthChance || DEFAULT_BREED_CHANCE)) {
+              const empty = neighbors.filter(n => n !== -1 && grid[n] === 0 && nextGrid[n] === 0);
+              if (empty.length > 0) {
+                energy /= 2; // Shared with the offspring
+                const child = empty[Math.floor(random() * empty.length)];
+                nextGrid[child] = cellId;
+                nextDensity[child] = energy;
+              }
+            }
+            const free = (n: number) => n !== -1 && grid[n] === 0 && nextGrid[n] === 0;
+            const down = getIdx(x, y + 1);
+            let dest = free(down) ? down : -1;
+            if (dest === -1 && random() < WANDER_CHANCE) {
+              const steps = [getIdx(x - 1, y), getIdx(x + 1, y), getIdx(x - 1, y - 1), getIdx(x + 1, y - 1)].filter(free);
+              if (steps.length > 0) dest = steps[Math.floor(random() * steps.length)];
+            }
+            if (dest !== -1) {
+              nextGrid[i] = -1; // Left behind; nothing can eat it there any more this tick
+              nextGrid[dest] = cellId;
+              nextDensity[dest] = energy;
+            } else {
+              nextDensity[i] = energy;
+            }
+            continue;
+          }
+
+          // --- HYDRODYNAMICS & GROWTH ---
+          // `myMass` represents absorbed water/nutrients. 1.0 = 1 pixel growth potential.
+          let myMass = currentMass;
+
+          // 1. ABSORPTION: Drink water from neighbors
+          // Life can drink if touches Water.
+          if (myMass < 1.0 && waterId !== undefined) {
+            const waterNeighbors = neighbors.filter(n =>
+              n !== -1 && grid[n] === waterId && nextGrid[n] <= 0
+            );
+            if (waterNeighbors.length > 0) {
+              const wIdx = waterNeighbors[Math.floor(random() * waterNeighbors.length)];
+              // Double check it hasn't been consumed
+              if (nextGrid[wIdx] === 0) {
+                nextGrid[wIdx] = -1; // Consume
+                myMass += 1.0;
+              }
+            }
+          }
+
+          // 2. GROWTH: If we have enough mass/water, grow.
+          let didGrow = false;
+          if (myMass >= 1.0 && (elem.growthChance || 0) > 0) {
+            if (random() < (elem.growthChance || 0)) {
+              let potentialGrowth: number[] = [];
+
+              if (elem.growthStyle === GrowthStyle.SURFACE) {
+                const l = getIdx(x - 1, y);
+                const r = getIdx(x + 1, y);
+                const ld = getIdx(x - 1, y + 1);
+                const rd = getIdx(x + 1, y + 1);
+                const isGround = (idx: number) => {
+                  if (idx === -1) return false;
+                  const id = grid[idx];
+                  if (id <= 0) return false;
+                  const e = elemMap.get(id);
+                  return e?.physics === PhysicsType.SOLID || e?.physics === PhysicsType.POWDER;
+                };
+                if (l !== -1 && grid[l] === 0 && nextGrid[l] === 0 && isGround(ld)) potentialGrowth.push(l);
+                if (r !== -1 && grid[r] === 0 && nextGrid[r] === 0 && isGround(rd)) potentialGrowth.push(r);
+              } else if (elem.growthStyle === GrowthStyle.VERTICAL) {
+                const up = getIdx(x, y - 1);
+                if (up !== -1 && grid[up] === 0 && nextGrid[up] === 0) potentialGrowth.push(up);
+
+                if (random() < 0.2) {
+                  const ul = getIdx(x - 1, y - 1);
+                  const ur = getIdx(x + 1, y - 1);
+                  if (ul !== -1 && grid[ul] === 0 && nextGrid[ul] === 0) potentialGrowth.push(ul);
+                  if (ur !== -1 && grid[ur] === 0 && nextGrid[ur] === 0) potentialGrowth.push(ur);
+                }
+
+                // Spawning Leaves (also requires mass)
+                if (elem.relatedElementId && random() < 0.3) {
+                  const dirs = [getIdx(x-1, y), getIdx(x+1, y), getIdx(x, y-1), getIdx(x-1, y-1), getIdx(x+1, y-1)];
+                  const valid = dirs.filter(d => d !== -1 && grid[d] === 0 && nextGrid[d] === 0);
+                  if (valid.length > 0) {
+                    const leafDest = valid[Math.floor(random() * valid.length)];
+                    nextGrid[leafDest] = elem.relatedElementId;
+                    nextDensity[leafDest] = 0; // New leaves start dry
+                    myMass -= 1.0;
+                    didGrow = true;
+                  }
+                }
+              } else if (elem.growthStyle === GrowthStyle.CLING) {
+                const down = getIdx(x, y + 1);
+                if (down !== -1 && grid[down] === 0 && nextGrid[down] === 0) potentialGrowth.push(down);
+                let touchingWall = false;
+                neighbors.forEach(n => {
+                  if (n!==-1 && grid[n]>0 && elemMap.get(grid[n])?.physics === PhysicsType.SOLID) touchingWall = true;
+                });
+                if (touchingWall) {
+                  const emptyNeighbors = neighbors.filter(n => n !== -1 && grid[n] === 0 && nextGrid[n] === 0);
+                  potentialGrowth.push(...emptyNeighbors);
+                }
+              } else {
+                // SPREAD
+                const dirs = [getIdx(x, y-1), getIdx(x, y+1), getIdx(x-1, y), getIdx(x+1, y)];
+                potentialGrowth = dirs.filter(d => d !== -1 && grid[d] === 0 && nextGrid[d] === 0);
+              }
+
+              if (!didGrow && potentialGrowth.length > 0) {
+                const growDest = potentialGrowth[Math.floor(random() * potentialGrowth.length)];
+                if (nextGrid[growDest] === 0) {
+                  nextGrid[growDest] = cellId;
+                  nextDensity[growDest] = 0; // Start dry
+                  myMass -= 1.0;
+                  didGrow = true;
+                }
+              }
+            }
+          }
+
+          // 3. TRANSPORT: Diffuse mass to "drier" neighbors of connected type
+          // Allow bidirectional flow: Root <-> Leaf
+          if (myMass > 0) {
+            const connected = neighbors.filter(n => {
+              if (n === -1) return false;
+              const nid = grid[n];
+              if (nid <= 0) return false;
+
+              // 1. Same element type (Tree to Tree)
+              if (nid === cellId) return true;
+
+              // 2. Parent -> Child (Tree -> Leaf)
+              if (elem.relatedElementId && nid === elem.relatedElementId) return true;
+
+              // 3. Child -> Parent (Leaf -> Tree)
+              // Check if neighbor defines ME as its child
+              const nElem = elemMap.get(nid);
+              if (nElem && nElem.relatedElementId === cellId) return true;
+
+              return false;
+            });
+
+            // Find neighbor with lowest density (gradient descent)
+            // We look at `density` (previous frame) for stability
+            connected.sort((a, b) => density[a] - density[b]);
+
+            if (connected.length > 0) {
+              const target = connected[0];
+              if (density[target] < myMass) {
+                const diff = myMass - density[target];
+                const transfer = diff * 0.5; // Equalize
+                if (transfer > 0.05) {
+                  nextDensity[target] += transfer; // Give to neighbor
+                  myMass -= transfer; // Take from self
+                }
+              }
+            }
+          }
+
+          // Store remaining mass
+          nextDensity[i] += myMass;
+
+          continue;
+        }
+
+        // Fan jets and blasts carry loose particles instead of their own movement
+        if (elem.physics === PhysicsType.POWDER || elem.physics === PhysicsType.LIQUID || elem.physics === PhysicsType.GAS) {
+          const dest = carry(x, y, i);
+          if (dest !== -1) {
+            nextGrid[dest] = cellId;
+            nextDensity[dest] = currentMass;
+            moved = true;
+          }
+        }
+
+        if (moved) {
+          // Carried by the flow
+        }
+        // SOLID (Static)
+        else if (elem.physics === PhysicsType.SOLID) {
+          nextGrid[i] = cellId;
+          nextDensity[i] = currentMass;
+        }
+        // POWDER
+        else if (elem.physics === PhysicsType.POWDER) {
+          const down = getIdx(x, y + 1);
+          if (down !== -1 && grid[down] === 0 && nextGrid[down] === 0) {
+            nextGrid[down] = cellId;
+            nextDensity[down] = currentMass;
+            moved = true;
+          } else if (down !== -1) {
+            const targetId = nextGrid[down];
+            if (targetId !== 0) {
+              const targetElem = elemMap.get(targetId);
+              if (targetElem && (targetElem.physics === PhysicsType.LIQUID || targetElem.physics === PhysicsType.GAS) && heavier(cellId, targetId)) {
+                nextGrid[down] = cellId;
+                nextDensity[down] = currentMass;
+                nextGrid[i] = targetId;
+                nextDensity[i] = nextDensity[down];
+                moved = true;
+              }
+            }
+          }
+
+          if (!moved) {
+            const dl = getIdx(x - 1, y + 1);
+            const dr = getIdx(x + 1, y + 1);
+            const canL = dl !== -1 && grid[dl] === 0 && nextGrid[dl] === 0;
+            const canR = dr !== -1 && grid[dr] === 0 && nextGrid[dr] === 0;
+            if (canL && canR) {
+              const dest = random() > 0.5 ? dl : dr;
+              nextGrid[dest] = cellId;
+              nextDensity[dest] = currentMass;
+              moved = true;
+            } else if (canL) {
+              nextGrid[dl] = cellId;
+              nextDensity[dl] = currentMass;
+              moved = true;
+            } else if (canR) {
+              nextGrid[dr] = cellId;
+              nextDensity[dr] = currentMass;
+              moved = true;
+            }
+          }
+        }
+        // LIQUID
+        else if (elem.physics === PhysicsType.LIQUID) {
+          const down = getIdx(x, y + 1);
+          if (down !== -1 && grid[down] === 0 && nextGrid[down] === 0) {
+            nextGrid[down] = cellId;
+            nextDensity[down] = currentMass;
+            moved = true;
+          } else if (down !== -1) {
+            const targetId = nextGrid[down];
+            if (targetId !== 0) {
+              const targetElem = elemMap.get(targetId);
+              const sinks = targetElem && targetId !== cellId && heavier(cellId, targetId) && (
+                targetElem.physics === PhysicsType.GAS || targetElem.physics === PhysicsType.LIQUID || targetElem.physics === PhysicsType.POWDER
+              );
+              if (sinks) {
+                nextGrid[down] = cellId;
+                nextDensity[down] = currentMass;
+                nextGrid[i] = targetId;
+                nextDensity[i] = nextDensity[down];
+                moved = true;
+              }
+            }
+          }
+
+          if (!moved) {
+            const l = getIdx(x - 1, y);
+            const r = getIdx(x + 1, y);
+            const canL = l !== -1 && grid[l] === 0 && nextGrid[l] === 0;
+            const canR = r !== -1 && grid[r] === 0 && nextGrid[r] === 0;
+            if (canL && canR) {
+              const dest = random() > 0.5 ? l : r;
+              nextGrid[dest] = cellId;
+              nextDensity[dest] = currentMass;
+              moved = true;
+            } else if (canL) {
+              nextGrid[l] = cellId;
+              nextDensity[l] = currentMass;
+              moved = true;
+            } else if (canR) {
+              nextGrid[r] = cellId;
+              nextDensity[r] = currentMass;
+              moved = true;
+            }
+          }
+        }
+        // GAS
+        else if (elem.physics === PhysicsType.GAS) {
+          if (random() < 0.15) {
+            const neighbors = [getIdx(x+1,y), getIdx(x-1,y), getIdx(x,y+1), getIdx(x,y-1)];
+            const valid = neighbors.filter(n => n!==-1);
+            const target = valid[Math.floor(random() * valid.length)];
+            const targetId = nextGrid[target];
+            if (targetId !== 0 && targetId !== cellId) {
+              const tElem = elemMap.get(targetId);
+              // Gases mix sideways, but lighter ones only swap upwards
+              const layered = target === neighbors[2] ? heavier(targetId, cellId)
+                : target === neighbors[3] ? heavier(cellId, targetId) : false;
+              if (tElem?.physics === PhysicsType.GAS && !layered) {
+                nextGrid[target] = cellId;
+                nextDensity[target] = currentMass;
+                nextGrid[i] = targetId;
+                nextDensity[i] = nextDensity[target];
+                moved = true;
+              }
+            }
+          }
+
+          if (!moved) {
+            const up = getIdx(x, y - 1);
+            if (up !== -1 && nextGrid[up] === 0) {
+              const upId = grid[up];
+              if (upId !== 0) {
+                const upElem = elemMap.get(upId);
+                if (upElem && (upElem.physics === PhysicsType.LIQUID || upElem.physics === PhysicsType.POWDER) && heavier(upId, cellId)) {
+                  nextGrid[up] = cellId;
+                  nextDensity[up] = currentMass;
+                  nextGrid[i] = upId;
+                  nextDensity[i] = density[up];
+                  moved = true;
+                }
+              }
+            }
+            if (!moved) {
+              let target = -1;
+              if (up !== -1 && grid[up] === 0 && nextGrid[up] === 0) target = up;
+              else {
+                const dirs = [getIdx(x-1,y), getIdx(x+1,y), getIdx(x-1,y-1), getIdx(x+1,y-1)];
+                const valid = dirs.filter(d => d!==-1 && grid[d]===0 && nextGrid[d]===0);
+                if (valid.length>0) target = valid[Math.floor(random()*valid.length)];
+              }
+
+              if (currentMass > 0.1 && target !== -1) {
+                const half = currentMass / 2;
+                nextGrid[i] = cellId; nextDensity[i] = half;
+                nextGrid[target] = cellId; nextDensity[target] = half;
+                moved = true;
+              } else if (target !== -1) {
+                nextGrid[target] = cellId; nextDensity[target] = currentMass;
+                moved = true;
+              }
+            }
+          }
+        }
+
+        if (!moved && nextGrid[i] === 0) {
+          nextGrid[i] = cellId;
+          nextDensity[i] = currentMass;
+        }
+
+        // --- AI REACTION DISCOVERY ---
+        // Returns whether the cell reacted. It becomes the first product and the partner cell (-1
+        // for the energy overlay) the second; further products go to free neighbouring cells.
+        const queueReaction = (id1: number, id2: number, partnerIdx: number) => {
+          if (id1 === id2) return false;
+          const key = reactionKey(id1, id2);
+
+          if (!reactions.has(key)) {
+            active[chunk] = 1; // Re-report until the reaction is known
+            this.onUnknownReaction?.(key);
+            return false;
+          }
+          const outcome = reactions.get(key);
+          if (!outcome || outcome.products.length === 0) return false;
+
+          const t = temperature[i];
+          if (outcome.minTemperature !== undefined && t < outcome.minTemperature) return false;
+          if (outcome.maxTemperature !== undefined && t > outcome.maxTemperature) return false;
+          if (outcome.catalystId !== undefined) {
+            const catalyst = outcome.catalystId;
+            const touching = enId === catalyst || neighbors.some(n => n !== -1 && (energyGrid[n] === catalyst || grid[n] === catalyst));
+            if (!touching) return false;
+          }
+          const [first, ...others] = outcome.products;
+          // The partner has to still be in place: not updated yet this tick, or stayed where it was
+          if (others.length > 0 && partnerIdx !== -1 && nextGrid[partnerIdx] !== 0 && nextGrid[partnerIdx] !== grid[partnerIdx]) return false;
+          active[chunk] = 1;
+          if (first.probability < 1 && random() >= first.probability) return false;
+
+          nextGrid[i] = first.id;
+          nextDensity[i] = first.id !== 0 ? 1.0 : 0;
+          others.forEach((product, k) => {
+            if (product.probability < 1 && random() >= product.probability) return;
+            let target = k === 0 ? partnerIdx : -1;
+            if (target === -1) {
+              const free = neighbors.filter(n => n !== -1 && grid[n] === 0 && nextGrid[n] === 0);
+              if (free.length === 0 || product.id === 0) return;
+              target = free[Math.floor(random() * free.length)];
+            }
+            if (elemMap.get(product.id)?.physics === PhysicsType.ENERGY) {
+              setEnergy(target, product.id);
+              if (target === partnerIdx) nextGrid[target] = -1; // The partner turned into energy
+            } else {
+              // -1 keeps the cell from being updated again this tick
+              nextGrid[target] = product.id !== 0 ? product.id : -1;
+              nextDensity[target] = product.id !== 0 ? 1.0 : 0;
+            }
+          });
+          if (outcome.energyId !== undefined) setEnergy(i, outcome.energyId);
+          if (outcome.explosion !== undefined) this.blast(x, y, outcome.explosion);
+          return true;
+        };
+
+        let reacted = false;
+        for (const nIdx of neighbors) {
+          if (!reacted && nIdx !== -1 && grid[nIdx] > 0) {
+            reacted = queueReaction(cellId, grid[nIdx], nIdx);
+          }
+        }
+        if (!reacted && enId !== 0) {
+          queueReaction(cellId, enId, -1);
+        }
+      }
+    }
+
+    this.levelLiquids();
+    this.drainEdges();
+
+    // Anything that changed keeps its chunk awake. Sleeping chunks only change through a
+    // neighbour, and that neighbour is then active itself.
+    this.forEachAwakeRow((from, to, chunk) => {
+      if (active[chunk]) return;
+      for (let i = from; i < to; i++) {
+        if (grid[i] !== nextGrid[i] || energyGrid[i] !== nextEnergyGrid[i] || density[i] !== nextDensity[i]) {
+          active[chunk] = 1;
+          return;
+        }
+      }
+    });
+    this.updateAwake();
+
+    grid.set(nextGrid);
+    density.set(nextDensity);
+    energyGrid.set(nextEnergyGrid);
+    this.tick++;
+  }
+
+  // Calls `fn` with the cell index range [from, to) of every row segment inside an awake chunk
+  private forEachAwakeRow(fn: (from: number, to: number, chunk: number) => void) {
+    const { width, height, chunksX, chunksY, awake } = this;
+    const size = 1 << CHUNK_SHIFT;
+    for (let cy = 0; cy < chunksY; cy++) {
+      for (let cx = 0; cx < chunksX; cx++) {
+        const chunk = cy * chunksX + cx;
+        if (!awake[chunk]) continue;
+        const x0 = cx * size;
+        const x1 = Math.min(width, x0 + size);
+        for (let y = cy * size; y < Math.min(height, (cy + 1) * size); y++) {
+          fn(y * width + x0, y * width + x1, chunk);
+        }
+      }
+    }
+  }
+
+  // Active chunks and their neighbours are processed next tick; particles cross chunk borders
+  // (and wrapping edges)
+  private updateAwake() {
+    const { chunksX, chunksY, awake, active, wrapX, wrapY } = this;
+    awake.fill(0);
+    for (let cy = 0; cy < chunksY; cy++) {
+      for (let cx = 0; cx < chunksX; cx++) {
+        if (!active[cy * chunksX + cx]) continue;
+        for (let dy = -1; dy <= 1; dy++) {
+          let ny = cy + dy;
+          if (ny < 0 || ny >= chunksY) {
+            if (!wrapY) continue;
+            ny = (ny + chunksY) % chunksY;
+          }
+          for (let dx = -1; dx <= 1; dx++) {
+            let nx = cx + dx;
+            if (nx < 0 || nx >= chunksX) {
+              if (!wrapX) continue;
+              nx = (nx + chunksX) % chunksX;
+            }
+            awake[ny * chunksX + nx] = 1;
+          }
+        }
+      }
+    }
+  }
+
+  private fadeVelocity() {
+    const { velocity, active } = this;
+    this.forEachAwakeRow((from, to, chunk) => {
+      for (let v = from * 2; v < to * 2; v++) {
+        if (velocity[v] === 0) continue;
+        velocity[v] *= VELOCITY_DAMPING;
+        if (Math.abs(velocity[v]) < MIN_VELOCITY) velocity[v] = 0;
+        else active[chunk] = 1;
+      }
+    });
+  }
+
+  private defaultGenome(): Genome {
+    return { ...DEFAULT_GENOME, food: this.getElementByName('Scrap')?.id ?? 0 };
+  }
+
+  private genomeAt(i: number): Genome {
+    const g = i * GENE_COUNT;
+    const { genome } = this;
+    return {
+      moveBias: genome[g + GENE_MOVE_BIAS],
+      climb: genome[g + GENE_CLIMB],
+      food: genome[g + GENE_FOOD],
+      replicateAt: genome[g + GENE_REPLICATE],
+      mutationRate: genome[g + GENE_MUTATION],
+    };
+  }
+
+  private writeGenome(i: number, genome: Genome, lineageId: number) {
+    const g = i * GENE_COUNT;
+    this.genome[g + GENE_MOVE_BIAS] = genome.moveBias;
+    this.genome[g + GENE_CLIMB] = genome.climb;
+    this.genome[g + GENE_FOOD] = genome.food;
+    this.genome[g + GENE_REPLICATE] = genome.replicateAt;
+    this.genome[g + GENE_MUTATION] = genome.mutationRate;
+    this.lineage[i] = lineageId;
+  }
+
+  private foundLineage(elementId: number, genome: Genome, parent?: number) {
+    const id = this.nextLineageId++;
+    this.lineages.set(id, { id, parent, elementId, founded: this.tick, genome });
+    return id;
+  }
+
+  // Bots made by reactions start with the default genome, one lineage per element
+  private adoptWild(i: number, elementId: number) {
+    let id = this.wildLineages.get(elementId);
+    if (id === undefined || !this.lineages.has(id)) {
+      id = this.foundLineage(elementId, this.defaultGenome());
+      this.wildLineages.set(elementId, id);
+    }
+    this.writeGenome(i, this.lineages.get(id)!.genome, id);
+  }
+
+  // Copies the genome of the bot at `parent` into its offspring at `child`, each gene mutating with
+  // the parent's mutation rate. Food mutates to something the parent touches. Any mutation founds
+  // a new lineage.
+  private inherit(parent: number, child: number, elementId: number, neighbors: number[]) {
+    const random = this.rng;
+    const genome = this.genomeAt(parent);
+    const rate = genome.mutationRate;
+    let mutated = false;
+    const drift = (value: number, scale: number, min: number, max: number) => {
+      if (random() >= rate) return value;
+      mutated = true;
+      return clamp(value + (random() - 0.5) * scale, min, max);
+    };
+    genome.moveBias = drift(genome.moveBias, 0.4, -1, 1);
+    genome.climb = drift(genome.climb, 0.4, 0, 1);
+    genome.replicateAt = drift(genome.replicateAt, 0.2, MIN_REPLICATE_AT, 1);
+    genome.mutationRate = drift(genome.mutationRate, genome.mutationRate, 0.001, MAX_MUTATION_RATE);
+    if (random() < rate) {
+      const foods = neighbors.filter(n => {
+        const id = n !== -1 ? this.grid[n] : 0;
+        return id > 0 && id !== genome.food && this.elemMap.get(id)?.physics !== PhysicsType.BOT;
+      });
+      if (foods.length > 0) {
+        genome.food = this.grid[foods[Math.floor(random() * foods.length)]];
+        mutated = true;
+      }
+    }
+    const parentLineage = this.lineage[parent];
+    this.writeGenome(child, genome, mutated ? this.foundLineage(elementId, genome, parentLineage) : parentLineage);
+  }
+
+  // Living bots per lineage, plus the extinct ancestors of living lineages. Other extinct
+  // lineages are forgotten.
+  getPopulation(): LineageStats[] {
+    const { grid, lineage, lineages, elemMap } = this;
+    const counts = new Map<number, number>();
+    for (let i = 0; i < grid.length; i++) {
+      if (lineage[i] === 0 || grid[i] <= 0 || elemMap.get(grid[i])?.physics !== PhysicsType.BOT) continue;
+      counts.set(lineage[i], (counts.get(lineage[i]) ?? 0) + 1);
+    }
+    const kept = new Set<number>();
+    counts.forEach((_, id) => {
+      for (let l: number | undefined = id; l !== undefined && !kept.has(l); l = lineages.get(l)?.parent) kept.add(l);
+    });
+    lineages.forEach((_, id) => { if (!kept.has(id)) lineages.delete(id); });
+
+    const generations = new Map<number, number>();
+    const generation = (l: Lineage): number => {
+      const known = generations.get(l.id);
+      if (known !== undefined) return known;
+      const parent = l.parent !== undefined ? lineages.get(l.parent) : undefined;
+      const g = parent ? generation(parent) + 1 : 0;
+      generations.set(l.id, g);
+      return g;
+    };
+    return [...lineages.values()].map(l => ({ ...l, population: counts.get(l.id) ?? 0, generation: generation(l) }));
+  }
+
+  // Eats one touching prey cell that is still in place. Returns the energy gained.
+  private eat(neighbors: number[], diet: CompiledFoodLink[]) {
+    const { grid, nextGrid, nextDensity, lineage } = this;
+    const prey = neighbors.filter(n =>
+      n !== -1 && grid[n] > 0 && (nextGrid[n] === 0 || nextGrid[n] === grid[n]) && diet.some(l => l.prey === grid[n])
+    );
+    if (prey.length === 0) return 0;
+    const n = prey[Math.floor(this.rng() * prey.length)];
+    const link = diet.find(l => l.prey === grid[n])!;
+    // -1 keeps the eaten cell from being updated again this tick
+    nextGrid[n] = link.becomes !== 0 ? link.becomes : -1;
+    nextDensity[n] = link.becomes !== 0 ? 1.0 : 0;
+    lineage[n] = 0;
+    return link.energy;
+  }
+
+  // Circuits. Charge starts at batteries, at generators touching a liquid and at conductive cells
+  // touching Electricity, and reaches every connected conductive cell within the same tick.
+  private propagateCharge() {
+    const { width, grid, energyGrid, charge, circuitRoles, liquids, fillStack, getIdx } = this;
+    charge.fill(0);
+    if (circuitRoles.length === 0) return;
+    const elecId = this.getElementByName('Electricity')?.id;
+
+    const neighborsOf = (i: number) => {
+      const x = i % width;
+      const y = (i - x) / width;
+      return [getIdx(x, y - 1), getIdx(x, y + 1), getIdx(x - 1, y), getIdx(x + 1, y)];
+    };
+    // Switches only close under a load
+    const conducts = (i: number) => {
+      const role = grid[i] > 0 ? circuitRoles[grid[i]] : undefined;
+      if (role === undefined || role === ElectricRole.INSULATOR) return false;
+      if (role !== ElectricRole.SWITCH) return true;
+      const above = neighborsOf(i)[0];
+      return above !== -1 && grid[above] > 0;
+    };
+
+    let stackSize = 0;
+    for (let i = 0; i < grid.length; i++) {
+      const role = grid[i] > 0 ? circuitRoles[grid[i]] : undefined;
+      if (role === undefined || !conducts(i)) continue;
+      const neighbors = neighborsOf(i);
+      const source = role === ElectricRole.BATTERY
+        || (role === ElectricRole.GENERATOR && neighbors.some(n => n !== -1 && liquids.has(grid[n])))
+        || (elecId !== undefined && (energyGrid[i] === elecId || neighbors.some(n => n !== -1 && energyGrid[n] === elecId)));
+      if (!source) continue;
+      charge[i] = 1;
+      fillStack[stackSize++] = i;
+    }
+
+    while (stackSize > 0) {
+      for (const n of neighborsOf(fillStack[--stackSize])) {
+        if (n !== -1 && !charge[n] && conducts(n)) {
+          charge[n] = 1;
+          fillStack[stackSize++] = n;
+        }
+      }
+    }
+  }
+
+  // One tick of a running mechanism at (x, y). Movement goes through the flow field, so whatever
+  // it pushes, pulls or stirs is carried by the normal particle update.
+  private runMechanism(x: number, y: number, behavior: CompiledBehavior, setEnergy: (idx: number, energyId: number) => boolean) {
+    const { grid, nextGrid, nextDensity, density, energyGrid, nextEnergyGrid, velocity, elemMap, getIdx } = this;
+    const random = this.rng;
+    const blocks = (n: number) => {
+      const physics = grid[n] > 0 ? elemMap.get(grid[n])?.physics : undefined;
+      return physics === PhysicsType.SOLID || physics === PhysicsType.MECHANISM;
+    };
+    // Raises the flow at `n` to at least `speed` along (dx, dy)
+    const blow = (n: number, dx: number, dy: number, speed: number) => {
+      const v = n * 2 + (dx !== 0 ? 0 : 1);
+      const sign = dx + dy;
+      if (velocity[v] * sign < speed) velocity[v] = speed * sign;
+    };
+
+    if (behavior.push) {
+      const [dx, dy] = behavior.push;
+      // Jet: blows loose particles ahead, weakening with distance
+      for (let k = 1; k <= FAN_JET_LENGTH; k++) {
+        const n = getIdx(x + dx * k, y + dy * k);
+        if (n === -1 || blocks(n)) break;
+        blow(n, dx, dy, FAN_JET_SPEED * (1 - (k - 1) / FAN_JET_LENGTH));
+      }
+      if (dy === 0) {
+        // Belt: carries whatever rests on top
+        const top = getIdx(x, y - 1);
+        if (top !== -1) blow(top, dx, 0, FAN_JET_SPEED);
+      } else {
+        // Intake: gas right behind is passed through to two cells ahead. Rows are updated bottom
+        // to top, so the row below is already done and the row above is not.
+        const behind = getIdx(x, y - dy);
+        const ahead = getIdx(x, y + dy * 2);
+        const gasId = behind !== -1 ? grid[behind] : 0;
+        if (gasId > 0 && elemMap.get(gasId)?.physics === PhysicsType.GAS && ahead !== -1 && grid[ahead] === 0 && nextGrid[ahead] === 0) {
+          const inPlace = dy < 0 ? nextGrid[behind] === gasId : nextGrid[behind] === 0;
+          if (inPlace) {
+            nextGrid[ahead] = gasId;
+            nextDensity[ahead] = density[behind];
+            // -1 keeps a cell that is not updated yet from being updated again this tick
+            nextGrid[behind] = dy < 0 ? 0 : -1;
+            nextDensity[behind] = 0;
+          }
+        }
+      }
+    }
+
+    if (behavior.pull) {
+      for (let dy = -PULL_RADIUS; dy <= PULL_RADIUS; dy++) {
+        for (let dx = -PULL_RADIUS; dx <= PULL_RADIUS; dx++) {
+          const d = Math.hypot(dx, dy);
+          if (d < 1.5 || d > PULL_RADIUS) continue; // Neighbors already touch it
+          const n = getIdx(x + dx, y + dy);
+          if (n === -1) continue;
+          const speed = PULL_SPEED * (1 - d / (PULL_RADIUS * 2)); // Still strong enough at the edge to lift powder
+          if (Math.hypot(velocity[n * 2], velocity[n * 2 + 1]) < speed) {
+            velocity[n * 2] = -dx / d * speed;
+            velocity[n * 2 + 1] = -dy / d * speed;
+          }
+        }
+      }
+    }
+
+    if (behavior.rotate) {
+      RING.forEach(([dx, dy], k) => {
+        const n = getIdx(x + dx, y + dy);
+        if (n === -1) return;
+        velocity[n * 2] = RING_STEP[k][0] * ROTATE_SPEED;
+        velocity[n * 2 + 1] = RING_STEP[k][1] * ROTATE_SPEED;
+      });
+    }
+
+    const neighbors = [getIdx(x, y - 1), getIdx(x, y + 1), getIdx(x - 1, y), getIdx(x + 1, y)];
+    if (behavior.emitElement !== undefined && random() < behavior.emitChance) {
+      const empty = neighbors.filter(n => n !== -1 && grid[n] === 0 && nextGrid[n] === 0);
+      if (empty.length > 0) {
+        const n = empty[Math.floor(random() * empty.length)];
+        nextGrid[n] = behavior.emitElement;
+        nextDensity[n] = 1.0;
+      }
+    }
+    if (behavior.emitEnergy !== undefined && random() < behavior.emitChance) {
+      const empty = neighbors.filter(n => n !== -1 && energyGrid[n] === 0 && nextEnergyGrid[n] === 0);
+      if (empty.length > 0) setEnergy(empty[Math.floor(random() * empty.length)], behavior.emitEnergy);
+    }
+  }
+
+  // Pushes everything within `radius` of (x, y) outwards, strongest at the centre
+  private blast(cx: number, cy: number, radius: number) {
+    const { velocity, active } = this;
+    // Cached outcomes come from files too, and every reacting cell blasts
+    radius = Math.min(radius, MAX_BLAST_RADIUS);
+    const r = Math.ceil(radius);
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        const d = Math.hypot(dx, dy);
+        if (d === 0 || d > radius) continue;
+        const n = this.getIdx(cx + dx, cy + dy);
+        if (n === -1) continue;
+        const speed = BLAST_SPEED * (1 - d / (radius + 1));
+        velocity[n * 2] = clamp(velocity[n * 2] + dx / d * speed, -MAX_VELOCITY, MAX_VELOCITY);
+        velocity[n * 2 + 1] = clamp(velocity[n * 2 + 1] + dy / d * speed, -MAX_VELOCITY, MAX_VELOCITY);
+        active[this.chunkOf(n)] = 1;
+      }
+    }
+  }
+
+  // Communicating vessels. In every liquid body reaching into an awake chunk, open surface cells
+  // (liquid with empty space above) lower than the body's highest surface get pushed up by a cell
+  // taken from that highest surface, so connected levels even out and mass is kept.
+  private levelLiquids() {
+    const { width, nextGrid, nextDensity, liquids, visited, fillStack, surface, active, getIdx } = this;
+    const random = this.rng;
+    if (liquids.size === 0) return;
+    visited.fill(0);
+
+    this.forEachAwakeRow((from, to) => {
+      for (let start = from; start < to; start++) {
+        if (visited[start] || !liquids.has(nextGrid[start])) continue;
+
+        visited[start] = 1;
+        fillStack[0] = start;
+        let stackSize = 1;
+        let surfaceSize = 0;
+        let top = Infinity;
+        while (stackSize > 0) {
+          const c = fillStack[--stackSize];
+          const x = c % width;
+          const y = (c - x) / width;
+          const above = getIdx(x, y - 1);
+          if (above !== -1 && nextGrid[above] === 0) {
+            surface[surfaceSize++] = c;
+            if (y < top) top = y;
+          }
+          for (const n of [above, getIdx(x, y + 1), getIdx(x - 1, y), getIdx(x + 1, y)]) {
+            if (n !== -1 && !visited[n] && liquids.has(nextGrid[n])) {
+              visited[n] = 1;
+              fillStack[stackSize++] = n;
+            }
+          }
+        }
+        if (surfaceSize < 2) continue;
+
+        // Highest surface cells give, clearly lower ones receive
+        const donors: number[] = [];
+        const receivers: number[] = [];
+        for (let s = 0; s < surfaceSize; s++) {
+          const y = Math.floor(surface[s] / width);
+          if (y === top) donors.push(surface[s]);
+          else if (y > top + LEVEL_TOLERANCE) receivers.push(surface[s]);
+        }
+        for (const receiver of receivers) {
+          if (donors.length === 0) break;
+          if (random() >= PRESSURE_FLOW_CHANCE) continue;
+          const pick = Math.floor(random() * donors.length);
+          const donor = donors[pick];
+          donors[pick] = donors[donors.length - 1];
+          donors.pop();
+
+          const x = receiver % width;
+          const above = getIdx(x, (receiver - x) / width - 1);
+          nextGrid[above] = nextGrid[donor];
+          nextDensity[above] = nextDensity[donor];
+          nextGrid[donor] = 0;
+          nextDensity[donor] = 0;
+          active[this.chunkOf(above)] = 1;
+          active[this.chunkOf(donor)] = 1;
+        }
+      }
+    });
+  }
+
+  // VOID edges delete loose material that reached them; OPEN_TOP lets gases leave through row 0
+  private drainEdges() {
+    const { width, height, boundary, nextGrid, nextDensity, elemMap } = this;
+    if (boundary !== BoundaryMode.VOID && boundary !== BoundaryMode.OPEN_TOP) return;
+
+    const drain = (i: number) => {
+      const id = nextGrid[i];
+      if (id <= 0) return;
+      const physics = elemMap.get(id)?.physics;
+      const escapes = boundary === BoundaryMode.OPEN_TOP
+        ? physics === PhysicsType.GAS
+        : physics === PhysicsType.POWDER || physics === PhysicsType.LIQUID || physics === PhysicsType.GAS || physics === PhysicsType.BOT;
+      if (!escapes) return;
+      nextGrid[i] = 0;
+      nextDensity[i] = 0;
+      this.active[this.chunkOf(i)] = 1;
+    };
+
+    for (let x = 0; x < width; x++) drain(x);
+    if (boundary === BoundaryMode.OPEN_TOP) return;
+    for (let x = 0; x < width; x++) drain((height - 1) * width + x);
+    for (let y = 1; y < height - 1; y++) {
+      drain(y * width);
+      drain(y * width + width - 1);
+    }
+  }
+
+  private chunkOf(i: number) {
+    const x = i % this.width;
+    const y = (i - x) / this.width;
+    return (y >> CHUNK_SHIFT) * this.chunksX + (x >> CHUNK_SHIFT);
+  }
+
+  getAwakeChunkCount() {
+    let count = 0;
+    for (let c = 0; c < this.awake.length; c++) count += this.awake[c];
+    return count;
+  }
+
+  // Conduction between the 4 neighbours, open air drifting back to ambient and heat sources
+  // (material or energy) pulling their cell towards their temperature. Sleeping chunks hold their
+  // temperature; a chunk whose temperature still moves is kept awake.
+  private conductHeat() {
+    const { width, height, grid, energyGrid, temperature, nextTemperature, heat, active, wrapX, wrapY, charge, needsPower } = this;
+    const airCapacity = DEFAULT_HEAT_CAPACITY[PhysicsType.EMPTY];
+
+    nextTemperature.set(temperature);
+    this.forEachAwakeRow((from, to, chunk) => {
+      const y = (from / width) | 0;
+      for (let i = from; i < to; i++) {
+        const x = i - y * width;
+        const t = temperature[i];
+        let flow = 0;
+        if (x > 0) flow += temperature[i - 1] - t;
+        else if (wrapX) flow += temperature[i + width - 1] - t;
+        if (x < width - 1) flow += temperature[i + 1] - t;
+        else if (wrapX) flow += temperature[i - width + 1] - t;
+        if (y > 0) flow += temperature[i - width] - t;
+        else if (wrapY) flow += temperature[i + (height - 1) * width] - t;
+        if (y < height - 1) flow += temperature[i + width] - t;
+        else if (wrapY) flow += temperature[i - (height - 1) * width] - t;
+
+        const material = grid[i] > 0 ? heat.get(grid[i]) : undefined;
+        let next = t + HEAT_CONDUCTION * flow / (material?.heatCapacity ?? airCapacity);
+        if (!material) next += (AMBIENT_TEMPERATURE - next) * AIR_COOLING;
+
+        // Powered heat sources (Heater) only work while their circuit is charged
+        const materialSource = material && (!needsPower.has(grid[i]) || charge[i]) ? material.source : undefined;
+        const source = (energyGrid[i] !== 0 ? heat.get(energyGrid[i])?.source : undefined) ?? materialSource;
+        if (source !== undefined) next += (source - next) * HEAT_SOURCE_RATE;
+
+        nextTemperature[i] = next;
+        if (Math.abs(next - t) > HEAT_WAKE_DELTA) active[chunk] = 1;
+      }
+    });
+    temperature.set(nextTemperature);
+  }
+}
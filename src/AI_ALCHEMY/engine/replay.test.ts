@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_ELEMENTS } from '../constants';
+import { BoundaryMode } from '../types';
+import { SimulationEngine } from './SimulationEngine';
+import { createRng } from './rng';
+import { createReplay, parseRecordedRun, recordRun } from './replay';
+import { restoreWorld, serializeWorld } from './worldFile';
+
+const id = (name: string) => INITIAL_ELEMENTS.find(e => e.name === name)!.id;
+
+const replayAll = (json: string) => {
+  const replay = createReplay(parseRecordedRun(json));
+  while (replay.step()) {}
+  return replay.engine;
+};
+
+describe('recorded runs', () => {
+  it('replay tick for tick from the seed and the inputs', () => {
+    const engine = new SimulationEngine({
+      elements: INITIAL_ELEMENTS, width: 48, height: 40, boundary: BoundaryMode.OPEN_TOP, rng: createRng(7), record: true,
+    });
+    engine.paint(10, 5, 4, id('Sand'));
+    for (let tick = 0; tick < 200; tick++) {
+      if (tick === 20) engine.paint(30, 5, 3, id('Water'));
+      if (tick === 60) engine.draw({ kind: 'spray', x: 24, y: 10, radius: 5, chance: 0.4 }, id('Sand'));
+      if (tick === 90) engine.paint(30, 30, 2, id('Fire'));
+      engine.step();
+    }
+
+    const replayed = replayAll(JSON.stringify(recordRun(engine, 7)));
+    expect(replayed.tick).toBe(200);
+    expect(replayed.getState()).toEqual(engine.getState());
+  });
+
+  it('replay with the rules the engine was made with', () => {
+    const rules = [{ reactants: ['Sand'], catalysts: ['Water'], probability: 1, products: ['Scrap'] }];
+    const engine = new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 32, height: 32, rng: createRng(5), rules, record: true });
+    engine.draw({ kind: 'rect', x0: 4, y0: 20, x1: 27, y1: 31, radius: 0, filled: true }, id('Sand'));
+    engine.paint(16, 8, 3, id('Water'));
+    for (let i = 0; i < 60; i++) engine.step();
+
+    const replayed = replayAll(JSON.stringify(recordRun(engine, 5)));
+    expect(replayed.getStats().Scrap).toBeGreaterThan(0);
+    expect(replayed.getState()).toEqual(engine.getState());
+  });
+
+  it('replay runs that started from a saved world', () => {
+    const source = new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 32, height: 32, rng: createRng(3) });
+    source.paint(16, 4, 5, id('Water'));
+    for (let i = 0; i < 30; i++) source.step();
+    const world = serializeWorld(source, 3);
+
+    const engine = new SimulationEngine({ elements: world.elements, width: 32, height: 32, rng: createRng(3), record: true });
+    restoreWorld(engine, world);
+    engine.paint(8, 4, 2, id('Sand'));
+    for (let i = 0; i < 100; i++) engine.step();
+
+    const replayed = replayAll(JSON.stringify(recordRun(engine, 3, world)));
+    expect(replayed.getState()).toEqual(engine.getState());
+  });
+
+  it('migrates version 1 reaction inputs', () => {
+    const run = parseRecordedRun(JSON.stringify({
+      version: 1, seed: 1, width: 8, height: 8, ticks: 0,
+      inputs: [{ type: 'reaction', key: '2:4', resultId: 5, tick: 0 }, { type: 'reaction', key: '2:3', resultId: 0, tick: 0 }],
+    }));
+    expect(run.inputs).toEqual([
+      { type: 'reaction', key: '2:4', outcome: { products: [{ id: 5, probability: 1 }] }, tick: 0 },
+      { type: 'reaction', key: '2:3', outcome: null, tick: 0 },
+    ]);
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => parseRecordedRun(JSON.stringify({ version: 99, inputs: [] }))).toThrow('Unsupported run file');
+  });
+});
@@ -0,0 +1,71 @@
+import { BoundaryMode } from '../types';
+import { SimulationEngine, TimedInput, simpleOutcome } from './SimulationEngine';
+import { createRng } from './rng';
+import { WorldFile, parseWorld, restoreWorld } from './worldFile';
+
+export const RUN_FORMAT_VERSION = 2;
+// Version 1 recorded reactions as a single result ID
+const LEGACY_RUN_FORMAT_VERSION = 1;
+
+// A run is reproducible from its seed plus the inputs applied between ticks.
+export interface RecordedRun {
+  version: number;
+  seed: number;
+  width: number;
+  height: number;
+  boundary?: BoundaryMode; // Missing in older runs; they have solid edges
+  ticks: number;
+  inputs: TimedInput[];
+  world?: WorldFile; // Starting state when the run began from a loaded world
+}
+
+export const recordRun = (engine: SimulationEngine, seed: number, world?: WorldFile): RecordedRun => ({
+  version: RUN_FORMAT_VERSION,
+  seed,
+  width: engine.width,
+  height: engine.height,
+  boundary: engine.boundary,
+  ticks: engine.tick,
+  inputs: engine.inputLog ? [...engine.inputLog] : [],
+  world,
+});
+
+export const parseRecordedRun = (json: string): RecordedRun => {
+  const data = JSON.parse(json);
+  if (!data || (data.version !== RUN_FORMAT_VERSION && data.version !== LEGACY_RUN_FORMAT_VERSION) || !Array.isArray(data.inputs)) {
+    throw new Error('Unsupported run file');
+  }
+  if (data.version === LEGACY_RUN_FORMAT_VERSION) {
+    data.inputs = data.inputs.map((input: any) =>
+      input.type === 'reaction' ? { type: 'reaction', key: input.key, outcome: simpleOutcome(input.resultId), tick: input.tick } : input
+    );
+    data.version = RUN_FORMAT_VERSION;
+  }
+  if (data.world) data.world = parseWorld(data.world);
+  return data as RecordedRun;
+};
+
+// Re-creates the engine from the seed and feeds it the recorded inputs tick by tick.
+// `step()` returns false once the recorded run has been fully replayed.
+export const createReplay = (run: RecordedRun) => {
+  const engine = new SimulationEngine({
+    elements: [],
+    rng: createRng(run.seed),
+    width: run.width,
+    height: run.height,
+    boundary: run.boundary,
+  });
+  if (run.world) restoreWorld(engine, run.world);
+  let cursor = 0;
+
+  const step = () => {
+    if (engine.tick >= run.ticks) return false;
+    while (cursor < run.inputs.length && run.inputs[cursor].tick <= engine.tick) {
+      engine.apply(run.inputs[cursor++]);
+    }
+    engine.step();
+    return true;
+  };
+
+  return { engine, step };
+};
@@ -0,0 +1,25 @@
+// Random source used by the simulation. Returns a float in [0, 1), like Math.random. Seeded
+// sources can also report and restore their position in the sequence.
+export interface Rng {
+  (): number;
+  getState?: () => number;
+  setState?: (state: number) => void;
+}
+
+// Mulberry32: tiny, fast and good enough for cellular automata.
+// The same seed always produces the same sequence.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  const rng: Rng = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  rng.getState = () => state;
+  rng.setState = (next) => { state = next >>> 0; };
+  return rng;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 0xFFFFFFFF);
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_ELEMENTS, INITIAL_RULES, SCENARIOS } from '../constants';
+import { SimulationEngine } from './SimulationEngine';
+import { createRng } from './rng';
+import { Scenario, allowsElement, createScenarioTracker, setUpScenario } from './scenario';
+
+const id = (name: string) => INITIAL_ELEMENTS.find(e => e.name === name)!.id;
+
+// Plays a scenario the way the worker does, with `play` painting on the prepared world
+const playScenario = (scenario: Scenario, play: (engine: SimulationEngine) => void = () => {}) => {
+  const engine = new SimulationEngine({
+    elements: INITIAL_ELEMENTS, width: scenario.width, height: scenario.height, boundary: scenario.boundary, rng: createRng(scenario.seed),
+  });
+  setUpScenario(engine, scenario);
+  const tracker = createScenarioTracker(scenario);
+  tracker.update(engine.getStats(), 0);
+  play(engine);
+  while (tracker.progress().status === 'running') {
+    engine.step();
+    tracker.update(engine.getStats());
+  }
+  return tracker.progress();
+};
+
+describe('scenarios', () => {
+  const wildfire = SCENARIOS.find(s => s.id === 'wildfire')!;
+
+  it('only let the player pick their own elements', () => {
+    expect(allowsElement(wildfire, 'Water')).toBe(true);
+    expect(allowsElement(wildfire, 'Fire')).toBe(false);
+    expect(allowsElement(wildfire, 'Empty')).toBe(false);
+    expect(allowsElement(null, 'Fire')).toBe(true);
+  });
+
+  it('lose the wildfire when nothing is done', () => {
+    const progress = playScenario(wildfire);
+    expect(progress.status).toBe('lost');
+    expect(progress.reason).toContain('Tree');
+  });
+
+  it('keep their chemistry to their own world', () => {
+    const engine = new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 32, height: 32, rng: createRng(1) });
+    engine.draw({ kind: 'line', x0: 0, y0: 31, x1: 31, y1: 31, radius: 0 }, id('Sand'));
+    engine.draw({ kind: 'line', x0: 0, y0: 30, x1: 31, y1: 30, radius: 0 }, id('Grass'));
+    engine.draw({ kind: 'rect', x0: 0, y0: 26, x1: 5, y1: 29, radius: 0, filled: true }, id('Fire'));
+    for (let i = 0; i < 30; i++) engine.step();
+    expect(engine.getStats().Grass).toBeGreaterThanOrEqual(32);
+    expect(engine.rules).toBe(INITIAL_RULES);
+  });
+
+  it('win the wildfire behind a firebreak', () => {
+    const progress = playScenario(wildfire, engine => {
+      engine.draw({ kind: 'rect', x0: 40, y0: 80, x1: 44, y1: 89, radius: 0, filled: true }, id('Sand'));
+    });
+    expect(progress.status).toBe('won');
+    expect(progress.tick).toBe(wildfire.tickLimit);
+  }, 60_000);
+
+  it('check their objectives after every tick', () => {
+    const tracker = createScenarioTracker(wildfire);
+    for (let tick = 0; tick < 7; tick++) tracker.update({ Tree: 10 });
+    expect(tracker.progress().status).toBe('running');
+    expect(tracker.update({ Tree: 0 })).toBe(true);
+    expect(tracker.progress()).toMatchObject({ status: 'lost', tick: 8 });
+  });
+});
@@ -0,0 +1,147 @@
+import { BoundaryMode, ReactionRule } from '../types';
+import { DrawShape, SimulationEngine, reactionKey } from './SimulationEngine';
+
+// Challenges: a fixed starting world, the elements the player may paint, objectives checked
+// against the element counts (getStats) after every tick, and a tick limit. Ticks are counted by
+// the tracker, not taken from the engine, so rewinding the world does not win back time.
+
+// Element names, as in getStats
+export type Objective =
+  | { kind: 'produce'; element: string; count: number } // At least `count` pixels at once, at any point
+  | { kind: 'sustain'; element: string; ticks: number; count?: number } // Never fewer than `count` (1) up to tick `ticks`
+  | { kind: 'eliminate'; element: string }; // None left
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  seed: number;
+  width: number;
+  height: number;
+  boundary: BoundaryMode;
+  elements: string[]; // What the player may paint
+  setup: { shape: DrawShape; element: string }[]; // Drawn in order on the empty world
+  // Chemistry of this scenario only, on top of its world's rules (later worlds do not keep it)
+  rules?: ReactionRule[];
+  inert?: [string, string][]; // Pairs the AI is not asked about, so the scenario plays the same everywhere
+  objectives: Objective[]; // All of them have to be met
+  tickLimit: number;
+}
+
+export type ScenarioStatus = 'running' | 'won' | 'lost';
+
+export interface ObjectiveProgress {
+  count: number; // Current pixels of the element
+  done: boolean; // Met (and stays met)
+  failed: boolean;
+}
+
+// Sent with frames while a scenario runs
+export interface ScenarioProgress {
+  status: ScenarioStatus;
+  tick: number; // Ticks played at the last evaluation; when finished, the one it was decided on
+  objectives: ObjectiveProgress[];
+  reason?: string; // Why it was lost
+}
+
+export const describeObjective = (objective: Objective) => {
+  switch (objective.kind) {
+    case 'produce': return `Produce ${objective.count} ${objective.element}`;
+    case 'sustain':
+      return (objective.count ?? 1) > 1
+        ? `Keep at least ${objective.count} ${objective.element} until tick ${objective.ticks}`
+        : `Keep ${objective.element} alive until tick ${objective.ticks}`;
+    case 'eliminate': return `Get rid of all ${objective.element}`;
+  }
+};
+
+// Prepares a new world for a scenario through recorded inputs, so its runs replay from the seed.
+// Returns the reaction keys it marked inert.
+export const setUpScenario = (engine: SimulationEngine, scenario: Scenario) => {
+  const idOf = (name: string) => engine.getElementByName(name)?.id;
+  if (scenario.rules?.length) engine.setRules([...engine.rules, ...scenario.rules]);
+  const keys: string[] = [];
+  scenario.inert?.forEach(([a, b]) => {
+    const [idA, idB] = [idOf(a), idOf(b)];
+    if (idA === undefined || idB === undefined) return;
+    keys.push(reactionKey(idA, idB));
+    engine.setReaction(reactionKey(idA, idB), null);
+  });
+  scenario.setup.forEach(({ shape, element }) => {
+    const id = idOf(element);
+    if (id !== undefined) engine.draw(shape, id);
+  });
+  return keys;
+};
+
+// Whether the player may paint an element: any element outside of a scenario, else only its own
+export const allowsElement = (scenario: Scenario | null | undefined, name: string) =>
+  !scenario || scenario.elements.includes(name);
+
+// What the results screen downloads, one per attempt
+export const scenarioReport = (scenario: Scenario, progress: ScenarioProgress) => ({
+  scenario: scenario.id,
+  name: scenario.name,
+  seed: scenario.seed,
+  status: progress.status,
+  ticks: progress.tick,
+  tickLimit: scenario.tickLimit,
+  reason: progress.reason,
+  objectives: scenario.objectives.map((objective, i) => ({ objective: describeObjective(objective), ...progress.objectives[i] })),
+  finishedAt: new Date().toISOString(),
+});
+
+export const createScenarioTracker = (scenario: Scenario) => {
+  let progress: ScenarioProgress = {
+    status: 'running',
+    tick: 0,
+    objectives: scenario.objectives.map(() => ({ count: 0, done: false, failed: false })),
+  };
+
+  let elapsed = 0;
+
+  // Call after every tick with the element counts (and with 0 ticks for the starting world).
+  // Returns true when the status or an objective changed (not just the counts). Finished scenarios
+  // stay as they ended.
+  const update = (stats: Record<string, number>, ticks = 1) => {
+    if (progress.status !== 'running') return false;
+    elapsed += ticks;
+    const tick = elapsed;
+    let changed = false;
+    const objectives = scenario.objectives.map((objective, i) => {
+      const previous = progress.objectives[i];
+      const count = stats[objective.element] ?? 0;
+      let { done, failed } = previous;
+      if (!done && !failed) {
+        if (objective.kind === 'produce') done = count >= objective.count;
+        else if (objective.kind === 'eliminate') done = count === 0;
+        else if (count < (objective.count ?? 1)) failed = true;
+        else done = tick >= objective.ticks;
+      }
+      if (done !== previous.done || failed !== previous.failed) changed = true;
+      return { count, done, failed };
+    });
+
+    const failedAt = objectives.findIndex(o => o.failed);
+    let status: ScenarioStatus = 'running';
+    let reason: string | undefined;
+    if (objectives.every(o => o.done)) {
+      status = 'won';
+    } else if (failedAt !== -1) {
+      status = 'lost';
+      reason = `${scenario.objectives[failedAt].element} dropped below the minimum at tick ${tick}`;
+    } else if (tick >= scenario.tickLimit) {
+      status = 'lost';
+      reason = `Out of time (${scenario.tickLimit} ticks)`;
+    }
+    progress = { status, tick, objectives, reason };
+    return changed || status !== 'running';
+  };
+
+  return {
+    update,
+    progress: () => progress,
+  };
+};
+
+export type ScenarioTracker = ReturnType<typeof createScenarioTracker>;
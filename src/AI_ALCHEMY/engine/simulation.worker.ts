@@ -0,0 +1,214 @@
+import { ElementDef, ReactionRule } from '../types';
+import { SimulationEngine } from './SimulationEngine';
+import { createRng } from './rng';
+import { createReplay, recordRun } from './replay';
+import { WorldFile, restoreWorld, serializeWorld } from './worldFile';
+import { SNAPSHOT_INTERVAL, createTimeline } from './timeline';
+import { ScenarioTracker, createScenarioTracker, setUpScenario } from './scenario';
+import { POPULATION_INTERVAL, SimulationFrame, WorkerRequest, WorkerResponse, WorldSetup, frameBuffers } from './simulationClient';
+
+// Runs the engine off the main thread. Driven by simulationClient.ts: one 'step' in (of any number
+// of ticks), one frame out.
+
+let setup: WorldSetup | null = null;
+let engine: SimulationEngine | null = null;
+let replayer: ReturnType<typeof createReplay> | null = null;
+let liveEngine: SimulationEngine | null = null;
+let replayFinished = false;
+let sentElements: ElementDef[] | null = null;
+let sentTick = 0;
+const unknownReactions = new Set<string>();
+const timeline = createTimeline();
+let timelineChanged = false;
+let sentHistory = '';
+let scenario: ScenarioTracker | null = null;
+let scenarioChanged = false;
+let generation = 0; // Of the last init, stamped on frames
+// Chemistry the scenario added to the live world, left out of what later worlds keep
+let scenarioRules: ReactionRule[] = [];
+let scenarioKeys = new Set<string>();
+
+// Buffers of frames the main thread has finished drawing
+let spareBuffers: ArrayBuffer[][] = [];
+
+const send = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// Snapshots and scenario progress belong to one world, so a new one starts them over (restoring
+// keeps them: going back in time neither undoes a finished scenario nor gives back ticks)
+const init = (next: WorldSetup, keepTimeline = false) => {
+  setup = next;
+  if (!keepTimeline) {
+    timeline.clear();
+    scenario = next.scenario && !next.replay ? createScenarioTracker(next.scenario) : null;
+  }
+  timelineChanged = true;
+  scenarioChanged = true;
+  unknownReactions.clear();
+  spareBuffers = [];
+  replayFinished = false;
+  sentElements = null;
+
+  if (next.replay) {
+    replayer = createReplay(next.replay);
+    engine = replayer.engine;
+    return;
+  }
+  replayer = null;
+  const { world } = next;
+  const live = new SimulationEngine({
+    elements: world ? world.elements : next.elements,
+    width: world ? world.width : next.width,
+    height: world ? world.height : next.height,
+    boundary: world ? world.boundary : next.boundary,
+    rng: createRng(next.seed),
+    record: true,
+    onUnknownReaction: (key) => unknownReactions.add(key),
+  });
+  if (world) {
+    restoreWorld(live, world);
+  } else if (liveEngine) {
+    // Discovered reactions and rules are session knowledge, keep them across worlds
+    const rules = scenarioRules.length > 0 ? liveEngine.rules.filter(rule => !scenarioRules.includes(rule)) : liveEngine.rules;
+    if (rules !== live.rules) live.setRules(rules);
+    liveEngine.reactions.forEach((outcome, key) => {
+      if (!scenarioKeys.has(key)) live.setReaction(key, outcome);
+    });
+  }
+  if (!keepTimeline) {
+    scenarioRules = [];
+    scenarioKeys = new Set();
+  }
+  if (!world && next.scenario) {
+    scenarioKeys = new Set(setUpScenario(live, next.scenario));
+    scenarioRules = next.scenario.rules ?? [];
+  }
+  if (!keepTimeline) scenario?.update(live.getStats(), 0);
+  liveEngine = live;
+  engine = live;
+};
+
+const snapshot = (current: SimulationEngine) => serializeWorld(current, setup!.seed);
+
+// Goes back to a snapshot of the live world. Like a loaded world, the engine starts over from it
+// (so exported runs replay from there, and its undo steps are gone), but elements, reactions and
+// rules learned since are kept.
+const restore = (world: WorldFile | undefined) => {
+  if (!world || !setup || !liveEngine) return;
+  const previous = liveEngine;
+  init({ ...setup, world }, true);
+  const live = liveEngine!;
+  live.setElements(previous.getElements());
+  if (previous.rules !== live.rules) live.setRules(previous.rules);
+  previous.reactions.forEach((outcome, key) => {
+    if (!live.reactions.has(key)) live.setReaction(key, outcome);
+  });
+};
+
+// Whether a multiple of `interval` was reached between two ticks (frames can be several ticks apart)
+const crossed = (from: number, to: number, interval: number) => Math.floor(from / interval) !== Math.floor(to / interval);
+
+const takeBuffers = (size: number) => {
+  const spare = spareBuffers.pop();
+  if (spare && spare[0].byteLength === size * 4) return spare;
+  // Four 32-bit grids and the charge bytes
+  return [...[0, 1, 2, 3].map(() => new ArrayBuffer(size * 4)), new ArrayBuffer(size)];
+};
+
+const sendFrame = (current: SimulationEngine) => {
+  // Strokes, undo and redo change the engine's undo steps, which are shown with the timeline
+  const history = current.history();
+  if (`${history.undo}:${history.redo}` !== sentHistory) timelineChanged = true;
+  const [grid, energyGrid, density, temperature, charge] = takeBuffers(current.width * current.height);
+  const frame: SimulationFrame = {
+    generation,
+    tick: current.tick,
+    width: current.width,
+    height: current.height,
+    grid: new Int32Array(grid),
+    energyGrid: new Int32Array(energyGrid),
+    density: new Float32Array(density),
+    temperature: new Float32Array(temperature),
+    charge: new Uint8Array(charge),
+    elements: current.getElements() !== sentElements ? current.getElements() : undefined,
+    population: crossed(sentTick, current.tick, POPULATION_INTERVAL) ? current.getPopulation() : undefined,
+    unknownReactions: [...unknownReactions],
+    timeline: timelineChanged ? timeline.info(history) : undefined,
+    scenario: scenario && (scenarioChanged || (scenario.progress().status === 'running' && crossed(sentTick, current.tick, POPULATION_INTERVAL)))
+      ? scenario.progress() : undefined,
+    replayFinished,
+    awakeChunks: current.getAwakeChunkCount(),
+    totalChunks: current.awake.length,
+  };
+  frame.grid.set(current.grid);
+  frame.energyGrid.set(current.energyGrid);
+  frame.density.set(current.density);
+  frame.temperature.set(current.temperature);
+  frame.charge.set(current.charge);
+  unknownReactions.clear();
+  timelineChanged = false;
+  sentHistory = `${history.undo}:${history.redo}`;
+  scenarioChanged = false;
+  sentElements = current.getElements();
+  sentTick = current.tick;
+  send({ type: 'frame', ...frame }, frameBuffers(frame));
+};
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'init':
+      generation = message.generation;
+      init(message);
+      break;
+    case 'input':
+      // Replays only take their recorded inputs
+      if (engine && !replayer) engine.apply(message.input);
+      break;
+    case 'step':
+      if (!engine) break;
+      for (let i = 0; i < message.ticks && !replayFinished; i++) {
+        if (replayer) {
+          if (!replayer.step()) replayFinished = true;
+        } else {
+          engine.step();
+          if (engine.tick % SNAPSHOT_INTERVAL === 0) {
+            timeline.record(snapshot(engine));
+            timelineChanged = true;
+          }
+          if (scenario?.update(engine.getStats())) scenarioChanged = true;
+        }
+      }
+      sendFrame(engine);
+      break;
+    // Timeline requests only apply to the live world, not to replays
+    case 'checkpoint':
+      if (!engine || replayer) break;
+      timeline.record(snapshot(engine), true);
+      timelineChanged = true;
+      break;
+    case 'undo':
+      if (engine && !replayer) engine.undo();
+      break;
+    case 'redo':
+      if (engine && !replayer) engine.redo();
+      break;
+    case 'rewind':
+      if (!engine || replayer) break;
+      restore(timeline.rewind(message.id));
+      timelineChanged = true;
+      break;
+    case 'recycle':
+      spareBuffers.push(message.buffers);
+      break;
+    case 'export': {
+      if (!engine || !setup) break;
+      const data = message.what === 'run'
+        ? setup.replay ?? recordRun(engine, setup.seed, setup.world ?? undefined)
+        : message.what === 'world'
+          ? serializeWorld(engine, setup.replay ? setup.replay.seed : setup.seed)
+          : { elements: engine.getElements(), reactions: [...engine.reactions.entries()], rules: engine.rules };
+      send({ type: 'export', id: message.id, data });
+      break;
+    }
+  }
+};
@@ -0,0 +1,129 @@
+import { BoundaryMode, ElementDef, LineageStats, ReactionOutcome, ReactionRule } from '../types';
+import { SimulationInput } from './SimulationEngine';
+import { RecordedRun } from './replay';
+import { WorldFile } from './worldFile';
+import { TimelineInfo } from './timeline';
+import { Scenario, ScenarioProgress } from './scenario';
+
+// Messages between the main thread and simulation.worker.ts.
+// The worker owns the engine; the main thread only sends inputs and draws the frames it gets back.
+
+export interface WorldSetup {
+  seed: number;
+  width: number;
+  height: number;
+  boundary: BoundaryMode;
+  elements: ElementDef[];
+  world?: WorldFile | null; // Saved world to start from
+  replay?: RecordedRun | null; // Play this run back instead of accepting input
+  scenario?: Scenario | null; // Set up this challenge on the new world and track its objectives
+}
+
+export type WorkerRequest =
+  | ({ type: 'init'; generation: number } & WorldSetup)
+  | { type: 'input'; input: SimulationInput }
+  | { type: 'step'; ticks: number } // 0 only sends a frame of the current state
+  | { type: 'checkpoint' } // Snapshot the world now
+  | { type: 'undo' } // The last stroke (see SimulationEngine.beginStroke)
+  | { type: 'redo' }
+  | { type: 'rewind'; id: number } // Go back to a snapshot
+  | { type: 'recycle'; buffers: ArrayBuffer[] }
+  | { type: 'export'; id: number; what: ExportKind };
+
+export type ExportKind = 'run' | 'world' | 'reactions';
+
+// The engine's elements and everything that decides how they react (IDs match its elements)
+export interface ReactionCacheSnapshot {
+  elements: ElementDef[];
+  reactions: [string, ReactionOutcome | null][];
+  rules: ReactionRule[];
+}
+
+// Snapshot of the world after a step. Its buffers are transferred, so they belong to the receiver.
+export interface SimulationFrame {
+  generation: number; // Of the init it was made after
+  tick: number;
+  width: number;
+  height: number;
+  grid: Int32Array;
+  energyGrid: Int32Array;
+  density: Float32Array;
+  temperature: Float32Array;
+  charge: Uint8Array;
+  elements?: ElementDef[]; // Only sent when the engine's elements changed
+  population?: LineageStats[]; // Bot lineages, sent once every POPULATION_INTERVAL ticks
+  unknownReactions: string[]; // Keys reported since the previous frame
+  timeline?: TimelineInfo; // Only sent when snapshots or undo steps changed
+  scenario?: ScenarioProgress; // While a scenario runs: when it changed, else every POPULATION_INTERVAL ticks
+  replayFinished: boolean;
+  awakeChunks: number;
+  totalChunks: number;
+}
+
+export type WorkerResponse =
+  | ({ type: 'frame' } & SimulationFrame)
+  | { type: 'export'; id: number; data: ExportData };
+
+type ExportData = RecordedRun | WorldFile | ReactionCacheSnapshot;
+
+export const POPULATION_INTERVAL = 30;
+
+export const frameBuffers = (frame: SimulationFrame) =>
+  [frame.grid.buffer, frame.energyGrid.buffer, frame.density.buffer, frame.temperature.buffer, frame.charge.buffer] as ArrayBuffer[];
+
+// Main thread side of the worker. At most one step is in flight; `step()` is a no-op (and returns
+// false) until the previous frame has arrived, so a slow simulation drops frames instead of queueing them.
+// Frames of a world replaced by a later init are dropped too.
+export const createSimulationClient = (onFrame: (frame: SimulationFrame) => void) => {
+  const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+  const exports = new Map<number, (data: ExportData) => void>();
+  let nextExportId = 0;
+  let stepping = false;
+  let generation = 0;
+
+  const post = (request: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const message = e.data;
+    if (message.type === 'frame') {
+      stepping = false;
+      if (message.generation === generation) onFrame(message);
+    } else {
+      exports.get(message.id)?.(message.data);
+      exports.delete(message.id);
+    }
+  };
+
+  const request = <T extends ExportData>(what: ExportKind) =>
+    new Promise<T>(resolve => {
+      const id = nextExportId++;
+      exports.set(id, data => resolve(data as T));
+      post({ type: 'export', id, what });
+    });
+
+  return {
+    init: (setup: WorldSetup) => post({ type: 'init', generation: ++generation, ...setup }),
+    input: (input: SimulationInput) => post({ type: 'input', input }),
+    step: (ticks = 1) => {
+      if (stepping) return false;
+      stepping = true;
+      post({ type: 'step', ticks });
+      return true;
+    },
+    // Hands a drawn frame's buffers back so the worker can reuse them
+    recycle: (frame: SimulationFrame) => {
+      const buffers = frameBuffers(frame);
+      post({ type: 'recycle', buffers }, buffers);
+    },
+    checkpoint: () => post({ type: 'checkpoint' }),
+    undo: () => post({ type: 'undo' }),
+    redo: () => post({ type: 'redo' }),
+    rewind: (id: number) => post({ type: 'rewind', id }),
+    exportRun: () => request<RecordedRun>('run'),
+    exportWorld: () => request<WorldFile>('world'),
+    exportReactions: () => request<ReactionCacheSnapshot>('reactions'),
+    terminate: () => worker.terminate(),
+  };
+};
+
+export type SimulationClient = ReturnType<typeof createSimulationClient>;
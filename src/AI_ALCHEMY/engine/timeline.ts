@@ -0,0 +1,82 @@
+import { WorldFile } from './worldFile';
+
+// Snapshots of the live world to go back to, kept by the worker: one every SNAPSHOT_INTERVAL
+// ticks and checkpoints taken on request. Snapshots are world files, so going back to one starts
+// over from it like loading a world. Undoing strokes is up to the engine (see beginStroke).
+
+export const SNAPSHOT_INTERVAL = 600;
+const MAX_AUTO_SNAPSHOTS = 30;
+const MAX_CHECKPOINTS = 10;
+// Rough cap on the memory held by snapshots (characters of their base64 grids). The oldest
+// periodic snapshots go first; checkpoints are only dropped by count.
+const MEMORY_BUDGET = 64 * 1024 * 1024;
+
+export interface SnapshotInfo {
+  id: number;
+  tick: number;
+  checkpoint: boolean; // Taken on request rather than periodically
+}
+
+// What the main thread needs to draw the timeline, sent with a frame whenever it changes
+export interface TimelineInfo {
+  snapshots: SnapshotInfo[]; // Oldest tick first
+  undo: number; // Steps available in the engine
+  redo: number;
+}
+
+interface Snapshot extends SnapshotInfo {
+  world: WorldFile;
+  size: number;
+}
+
+const sizeOf = (world: WorldFile) =>
+  [world.grid, world.energyGrid, world.density, world.temperature, world.velocity, world.genome, world.lineage]
+    .reduce((total, layer) => total + (layer?.length ?? 0), 0);
+
+export const createTimeline = () => {
+  let snapshots: Snapshot[] = [];
+  let nextId = 1;
+
+  const make = (world: WorldFile, checkpoint = false): Snapshot =>
+    ({ id: nextId++, tick: world.tick, checkpoint, world, size: sizeOf(world) });
+
+  const trim = () => {
+    const autos = snapshots.filter(s => !s.checkpoint);
+    const checkpoints = snapshots.filter(s => s.checkpoint);
+    if (autos.length > MAX_AUTO_SNAPSHOTS) snapshots = snapshots.filter(s => s !== autos[0]);
+    if (checkpoints.length > MAX_CHECKPOINTS) snapshots = snapshots.filter(s => s !== checkpoints[0]);
+
+    const used = () => snapshots.reduce((total, s) => total + s.size, 0);
+    while (used() > MEMORY_BUDGET) {
+      const oldestAuto = snapshots.find(s => !s.checkpoint);
+      if (!oldestAuto) break;
+      snapshots = snapshots.filter(s => s !== oldestAuto);
+    }
+  };
+
+  return {
+    record: (world: WorldFile, checkpoint = false) => {
+      snapshots.push(make(world, checkpoint));
+      snapshots.sort((a, b) => a.tick - b.tick);
+      trim();
+    },
+    // Returns the world to restore, or undefined if the snapshot is gone. Periodic snapshots after
+    // the target belong to the abandoned future and are dropped; checkpoints stay so they can
+    // still be jumped to (there is no undoing a rewind otherwise).
+    rewind: (id: number) => {
+      const target = snapshots.find(s => s.id === id);
+      if (!target) return undefined;
+      snapshots = snapshots.filter(s => s.checkpoint || s.tick <= target.tick);
+      return target.world;
+    },
+    clear: () => {
+      snapshots = [];
+    },
+    info: (history: { undo: number; redo: number }): TimelineInfo => ({
+      snapshots: snapshots.map(({ id, tick, checkpoint }) => ({ id, tick, checkpoint })),
+      ...history,
+    }),
+  };
+};
+
+export type Timeline = ReturnType<typeof createTimeline>;
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_ELEMENTS } from '../constants';
+import { BoundaryMode } from '../types';
+import { SimulationEngine } from './SimulationEngine';
+import { createRng } from './rng';
+import { WORLD_FORMAT_VERSION, decodeWorld, encodeWorld, parseWorld, restoreWorld, serializeWorld } from './worldFile';
+
+const id = (name: string) => INITIAL_ELEMENTS.find(e => e.name === name)!.id;
+
+const buildWorld = () => {
+  const engine = new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 40, height: 30, boundary: BoundaryMode.WRAP_X, rng: createRng(11) });
+  engine.paint(10, 5, 4, id('Sand'));
+  engine.paint(30, 5, 4, id('Water'));
+  engine.paint(20, 25, 2, id('Nanobot'));
+  engine.setReaction(`${id('Sand')}:${id('Water')}`, { products: [{ id: id('Wall'), probability: 0.5 }] });
+  for (let i = 0; i < 50; i++) engine.step();
+  return engine;
+};
+
+const emptyEngine = () =>
+  new SimulationEngine({ elements: INITIAL_ELEMENTS, width: 40, height: 30, boundary: BoundaryMode.WRAP_X, rng: createRng(11) });
+
+describe('world files', () => {
+  it('restore the state they were saved from', () => {
+    const engine = buildWorld();
+    const world = parseWorld(JSON.parse(JSON.stringify(serializeWorld(engine, 11))));
+    const restored = emptyEngine();
+    restoreWorld(restored, world);
+
+    expect(restored.getState()).toEqual(engine.getState());
+    expect([...restored.reactions]).toEqual([...engine.reactions]);
+    expect([...restored.lineages.values()]).toEqual([...engine.lineages.values()]);
+    expect(restored.nextLineageId).toBe(engine.nextLineageId);
+  });
+
+  it('continue the random sequence they were saved at', () => {
+    const engine = buildWorld();
+    const world = serializeWorld(engine, 11);
+    const restored = emptyEngine();
+    restoreWorld(restored, world);
+    for (let i = 0; i < 50; i++) {
+      engine.step();
+      restored.step();
+    }
+    expect(restored.getState()).toEqual(engine.getState());
+  });
+
+  it('survive gzip encoding', async () => {
+    const world = serializeWorld(buildWorld(), 11);
+    const blob = await encodeWorld(world, true);
+    expect(blob.type).toBe('application/gzip');
+    expect(await decodeWorld(blob)).toEqual(world);
+  });
+
+  it('migrate version 1 files', () => {
+    const world = serializeWorld(emptyEngine(), 11);
+    const sandWater = `${id('Sand')}:${id('Water')}`;
+    const sandFire = `${id('Sand')}:${id('Fire')}`;
+    const legacy = {
+      version: 1, seed: 11, tick: 0, width: 40, height: 30, elements: world.elements,
+      reactions: [[sandWater, id('Wall')], [sandFire, 0]],
+      grid: world.grid, energyGrid: world.energyGrid, density: world.density,
+    };
+
+    const migrated = parseWorld(legacy);
+    expect(migrated.version).toBe(WORLD_FORMAT_VERSION);
+    expect(migrated.reactions).toEqual([[sandWater, { products: [{ id: id('Wall'), probability: 1 }] }], [sandFire, null]]);
+
+    // Layers older files lack start out neutral
+    const restored = emptyEngine();
+    restoreWorld(restored, migrated);
+    expect(restored.boundary).toBe(BoundaryMode.WRAP_X);
+    expect(restored.temperature.every(t => t === 20)).toBe(true);
+    expect(restored.velocity.every(v => v === 0)).toBe(true);
+  });
+
+  it('reject corrupt files', () => {
+    const world = serializeWorld(emptyEngine(), 11);
+    expect(() => parseWorld({ ...world, version: 99 })).toThrow('Unsupported world file');
+    expect(() => parseWorld({ ...world, width: 0 })).toThrow('Corrupt world file');
+    expect(() => parseWorld({ ...world, grid: world.grid.slice(8) })).toThrow('Corrupt world file (grid)');
+  });
+
+  it('reject reactions the world cannot run', () => {
+    const world = serializeWorld(emptyEngine(), 11);
+    const sandWater = `${id('Sand')}:${id('Water')}`;
+    const withOutcome = (outcome: unknown) => ({ ...world, reactions: [[sandWater, outcome]] });
+    const wall = { id: id('Wall'), probability: 1 };
+
+    expect(() => parseWorld(withOutcome({ products: [{ id: 999, probability: 1 }] }))).toThrow('Corrupt world file (reactions)');
+    expect(() => parseWorld(withOutcome({ products: [wall], energyId: 999 }))).toThrow('Corrupt world file (reactions)');
+    expect(() => parseWorld(withOutcome({ products: [wall], catalystId: 999 }))).toThrow('Corrupt world file (reactions)');
+    expect(() => parseWorld(withOutcome({ products: [{ id: id('Wall'), probability: null }] }))).toThrow('Corrupt world file (reactions)');
+    expect(() => parseWorld(withOutcome({ products: [wall], minTemperature: '100' }))).toThrow('Corrupt world file (reactions)');
+    expect(() => parseWorld(withOutcome({ products: wall }))).toThrow('Corrupt world file (reactions)');
+    expect(() => parseWorld({ ...world, reactions: [['999:1', null]] })).toThrow('Corrupt world file (reactions)');
+    expect(() => parseWorld({ ...world, reactions: [sandWater] })).toThrow('Corrupt world file (reactions)');
+
+    // Numbers out of range are clamped rather than rejected
+    const parsed = parseWorld(withOutcome({ products: [{ id: id('Wall'), probability: 7 }], minTemperature: -1000, explosion: 500 }));
+    expect(parsed.reactions[0][1]).toMatchObject({ products: [{ id: id('Wall'), probability: 1 }], minTemperature: -273.15, explosion: 12 });
+  });
+});
@@ -0,0 +1,195 @@
+import { BoundaryMode, ElementDef, Lineage, ReactionOutcome, ReactionRule } from '../types';
+import { AMBIENT_TEMPERATURE } from '../constants';
+import { GENE_COUNT, MAX_BLAST_RADIUS, SimulationEngine, simpleOutcome } from './SimulationEngine';
+
+export const WORLD_FORMAT_VERSION = 2;
+// Version 1 cached reactions as a single result ID
+const LEGACY_WORLD_FORMAT_VERSION = 1;
+
+// Saved world. Grids are stored as base64 of their raw (little-endian) bytes.
+export interface WorldFile {
+  version: number;
+  seed: number;
+  tick: number;
+  width: number;
+  height: number;
+  boundary?: BoundaryMode; // Missing in older worlds; they have solid edges
+  elements: ElementDef[];
+  reactions: [string, ReactionOutcome | null][]; // 'idA:idB' -> outcome, same as the engine cache
+  rules?: ReactionRule[]; // Missing in older worlds; they use the built-in rules
+  grid: string;
+  energyGrid: string;
+  density: string;
+  temperature?: string; // Missing in worlds saved before heat existed; they load at ambient
+  velocity?: string; // Flow field (x, y per cell); missing in older worlds, which start still
+  // Bot genomes (GENE_COUNT floats per cell) and lineages; missing in older worlds, whose bots
+  // start over with the default genome
+  genome?: string;
+  lineage?: string;
+  lineages?: Lineage[];
+  nextLineageId?: number;
+  rngState?: number; // Where the random sequence was; missing in older worlds, which start it over from the seed
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+const ABSOLUTE_ZERO = -273.15;
+
+const toBase64 = (view: ArrayBufferView) => {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const serializeWorld = (engine: SimulationEngine, seed: number): WorldFile => {
+  const state = engine.getState();
+  return {
+    version: WORLD_FORMAT_VERSION,
+    seed,
+    tick: state.tick,
+    width: engine.width,
+    height: engine.height,
+    boundary: engine.boundary,
+    elements: engine.getElements(),
+    reactions: [...engine.reactions.entries()],
+    rules: engine.rules,
+    grid: toBase64(state.grid),
+    energyGrid: toBase64(state.energyGrid),
+    density: toBase64(state.density),
+    temperature: toBase64(state.temperature),
+    velocity: toBase64(state.velocity),
+    genome: toBase64(state.genome),
+    lineage: toBase64(state.lineage),
+    lineages: [...engine.lineages.values()],
+    nextLineageId: engine.nextLineageId,
+    rngState: engine.getRngState(),
+  };
+};
+
+// Loads a saved world into an engine of the same size and boundary (and the world's elements).
+export const restoreWorld = (engine: SimulationEngine, world: WorldFile) => {
+  engine.setState({
+    tick: world.tick,
+    grid: new Int32Array(fromBase64(world.grid).buffer),
+    energyGrid: new Int32Array(fromBase64(world.energyGrid).buffer),
+    density: new Float32Array(fromBase64(world.density).buffer),
+    temperature: world.temperature
+      ? new Float32Array(fromBase64(world.temperature).buffer)
+      : new Float32Array(world.width * world.height).fill(AMBIENT_TEMPERATURE),
+    velocity: world.velocity
+      ? new Float32Array(fromBase64(world.velocity).buffer)
+      : new Float32Array(world.width * world.height * 2),
+    genome: world.genome
+      ? new Float32Array(fromBase64(world.genome).buffer)
+      : new Float32Array(world.width * world.height * GENE_COUNT),
+    lineage: world.lineage
+      ? new Int32Array(fromBase64(world.lineage).buffer)
+      : new Int32Array(world.width * world.height),
+  });
+  engine.lineages = new Map((world.lineages ?? []).map(l => [l.id, l]));
+  engine.nextLineageId = world.nextLineageId ?? 1;
+  if (world.rngState !== undefined) engine.setRngState(world.rngState);
+  if (world.rules) engine.setRules(world.rules);
+  engine.reactions = new Map(world.reactions);
+};
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+// A cached reaction as the engine runs it, or undefined when it names elements the world does not
+// have or its numbers are not finite. Probabilities, temperatures and blast radii are clamped.
+const parseOutcome = (data: any, ids: Set<number>): ReactionOutcome | null | undefined => {
+  if (data === null) return null;
+  const optional = (n: unknown) => n === undefined || isFiniteNumber(n);
+  if (
+    typeof data !== 'object' || !Array.isArray(data.products) ||
+    !data.products.every((p: any) => p && (p.id === 0 || ids.has(p.id)) && isFiniteNumber(p.probability)) ||
+    (data.energyId !== undefined && !ids.has(data.energyId)) ||
+    (data.catalystId !== undefined && !ids.has(data.catalystId)) ||
+    !optional(data.minTemperature) || !optional(data.maxTemperature) || !optional(data.explosion)
+  ) {
+    return undefined;
+  }
+  const temperature = (t?: number) => t === undefined ? undefined : Math.max(ABSOLUTE_ZERO, t);
+  return {
+    products: data.products.map((p: { id: number; probability: number }) => ({
+      id: p.id,
+      probability: Math.min(1, Math.max(0, p.probability)),
+    })),
+    energyId: data.energyId,
+    minTemperature: temperature(data.minTemperature),
+    maxTemperature: temperature(data.maxTemperature),
+    catalystId: data.catalystId,
+    explosion: data.explosion > 0 ? Math.min(data.explosion, MAX_BLAST_RADIUS) : undefined,
+  };
+};
+
+export const parseWorld = (data: any): WorldFile => {
+  if (!data || (data.version !== WORLD_FORMAT_VERSION && data.version !== LEGACY_WORLD_FORMAT_VERSION)) {
+    throw new Error('Unsupported world file');
+  }
+  const isSize = (n: unknown) => typeof n === 'number' && Number.isInteger(n) && n > 0;
+  if (
+    !isSize(data.width) || !isSize(data.height) || !Array.isArray(data.elements) || !Array.isArray(data.reactions) ||
+    (data.rules !== undefined && !Array.isArray(data.rules)) ||
+    (data.boundary !== undefined && !Object.values(BoundaryMode).includes(data.boundary)) ||
+    (data.lineages !== undefined && !Array.isArray(data.lineages)) ||
+    (data.nextLineageId !== undefined && !isSize(data.nextLineageId)) ||
+    (data.rngState !== undefined && !(Number.isInteger(data.rngState) && data.rngState >= 0))
+  ) {
+    throw new Error('Corrupt world file');
+  }
+  const cells = data.width * data.height;
+  const optional = ['temperature', 'velocity', 'genome', 'lineage'];
+  for (const layer of ['grid', 'energyGrid', 'density', ...optional]) {
+    if (optional.includes(layer) && data[layer] === undefined) continue;
+    const bytes = layer === 'velocity' ? cells * 8 : layer === 'genome' ? cells * 4 * GENE_COUNT : cells * 4;
+    if (typeof data[layer] !== 'string' || fromBase64(data[layer]).length !== bytes) {
+      throw new Error(`Corrupt world file (${layer})`);
+    }
+  }
+  if (data.version === LEGACY_WORLD_FORMAT_VERSION) {
+    data = {
+      ...data,
+      version: WORLD_FORMAT_VERSION,
+      reactions: data.reactions.map(([key, resultId]: [string, number]) => [key, simpleOutcome(resultId)]),
+    };
+  }
+  // Reactions are run as they are, so they may only name this world's elements
+  const ids = new Set<number>(data.elements.map((e: ElementDef) => e?.id));
+  const isKey = (key: unknown) =>
+    typeof key === 'string' && /^\d+:\d+$/.test(key) && key.split(':').every(id => ids.has(Number(id)));
+  const reactions = data.reactions.map((entry: unknown) => {
+    const outcome = Array.isArray(entry) && entry.length === 2 && isKey(entry[0]) ? parseOutcome(entry[1], ids) : undefined;
+    if (!Array.isArray(entry) || outcome === undefined) throw new Error('Corrupt world file (reactions)');
+    return [entry[0], outcome];
+  });
+  return { ...data, reactions } as WorldFile;
+};
+
+// JSON, optionally gzip-compressed into a binary blob.
+export const encodeWorld = async (world: WorldFile, compress: boolean): Promise<Blob> => {
+  const json = new Blob([JSON.stringify(world)], { type: 'application/json' });
+  if (!compress) return json;
+  const stream = json.stream().pipeThrough(new CompressionStream('gzip'));
+  return new Blob([await new Response(stream).arrayBuffer()], { type: 'application/gzip' });
+};
+
+// Accepts either format; gzip is detected by its magic bytes.
+export const decodeWorld = async (blob: Blob): Promise<WorldFile> => {
+  const head = new Uint8Array(await blob.slice(0, 2).arrayBuffer());
+  const isGzip = head[0] === GZIP_MAGIC[0] && head[1] === GZIP_MAGIC[1];
+  const text = isGzip
+    ? await new Response(blob.stream().pipeThrough(new DecompressionStream('gzip'))).text()
+    : await blob.text();
+  return parseWorld(JSON.parse(text));
+};
@@ -0,0 +1,577 @@
+import { Type, Schema } from "@google/genai";
+import { BoundaryMode, Direction, DrawTool, ElectricRole, ElementDef, FoodLink, MechanismBehavior, PhysicsType, ReactionResult, GrowthStyle, ElementCommandResult, SupervisorAction, ThermalProperties, WorldInfo } from "../types";
+
+// Prompts, response schemas and response sanitizing shared by every LLM provider.
+// Schemas use the Gemini schema format; other providers convert them (see openAiService.ts).
+
+const MAX_GROWTH_CHANCE = 0.15;
+const MAX_EXPLOSION_RADIUS = 12; // cells
+const MIN_DENSITY = 0.00001; // g/cm³, lighter than any real gas
+const MAX_DENSITY = 25; // g/cm³, heavier than any real metal
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+export const isRateLimitError = (error: unknown) => {
+  const message = isRecord(error) ? error.message : undefined;
+  const errorMessage = (typeof message === 'string' && message) || JSON.stringify(error) || '';
+  return (
+    errorMessage.includes('429') ||
+    errorMessage.includes('quota') ||
+    errorMessage.includes('RESOURCE_EXHAUSTED')
+  );
+};
+
+const isName = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// --- Heat ---
+
+const THERMAL_RULES = `
+    Heat (optional, degrees Celsius, ambient is 20):
+    - temperature: temperature of new pixels. heatSource: true keeps the pixel at that temperature (like Fire 800, Heater 400).
+    - heatCapacity: 1 (heats fast, metal) to 6 (heats slowly).
+    - State changes name an existing or new element: boilingPoint/boilsInto and meltingPoint/meltsInto apply above,
+      freezingPoint/freezesInto and condensationPoint/condensesInto apply below (e.g. Water boils into Steam at 100).
+    `;
+
+// Heat fields by the type of their value
+const THERMAL_NUMBERS = ['heatCapacity', 'temperature', 'meltingPoint', 'boilingPoint', 'freezingPoint', 'condensationPoint'] as const;
+const THERMAL_NAMES = ['meltsInto', 'boilsInto', 'freezesInto', 'condensesInto'] as const;
+const THERMAL_FLAGS = ['heatSource'] as const;
+const THERMAL_KEYS: (keyof ThermalProperties)[] = [...THERMAL_NUMBERS, ...THERMAL_NAMES, ...THERMAL_FLAGS];
+
+const THERMAL_SCHEMA_PROPERTIES: Record<string, Schema> = Object.fromEntries([
+  ...THERMAL_NUMBERS.map(key => [key, { type: Type.NUMBER, nullable: true }]),
+  ...THERMAL_NAMES.map(key => [key, { type: Type.STRING, nullable: true }]),
+  ...THERMAL_FLAGS.map(key => [key, { type: Type.BOOLEAN, nullable: true }]),
+]);
+
+// Keeps only well-typed heat fields (models send nulls for the ones they skip)
+const pickThermal = (data: unknown): ThermalProperties => {
+  const thermal: ThermalProperties = {};
+  if (!isRecord(data)) return thermal;
+  THERMAL_NUMBERS.forEach(key => {
+    const value = data[key];
+    if (isNumber(value)) thermal[key] = value;
+  });
+  THERMAL_NAMES.forEach(key => {
+    const value = data[key];
+    if (typeof value === 'string') thermal[key] = value;
+  });
+  THERMAL_FLAGS.forEach(key => {
+    const value = data[key];
+    if (typeof value === 'boolean') thermal[key] = value;
+  });
+  return thermal;
+};
+
+const withThermal = (data: Record<string, unknown>): Record<string, unknown> => {
+  const rest = { ...data };
+  THERMAL_KEYS.forEach(key => delete rest[key]);
+  return { ...rest, ...pickThermal(data) };
+};
+
+// --- Circuits ---
+
+const CIRCUIT_RULES = `
+    Circuits (optional):
+    - electric: CONDUCTOR (wire), INSULATOR (never carries power), BATTERY (powers what is wired to it),
+      SWITCH (conducts while something rests on it), LAMP (glows while powered), GENERATOR (powers its circuit while touching a liquid).
+    - needsPower: true for machines that only work while wired to a power source.
+    `;
+
+const CIRCUIT_SCHEMA_PROPERTIES: Record<string, Schema> = {
+  electric: { type: Type.STRING, enum: Object.values(ElectricRole), nullable: true },
+  needsPower: { type: Type.BOOLEAN, nullable: true },
+};
+
+const parseElectric = (value: unknown) =>
+  Object.values(ElectricRole).includes(value as ElectricRole) ? value as ElectricRole : undefined;
+
+// --- Machines ---
+
+const MACHINE_RULES = `
+    Machines (MECHANISM physics only, optional):
+    - behavior: what it does every tick while running (with needsPower, only while powered). Any of:
+      push (UP/DOWN/LEFT/RIGHT, a jet; LEFT/RIGHT also carries what rests on it, like a conveyor), pull (true, draws loose material in),
+      emitElement / emitEnergy (name of an element or energy it spawns next to itself), emitChance (0.0 to 0.25 per tick),
+      rotate (true, stirs loose material around it).
+      e.g. Conveyor {push: RIGHT}, Pump {pull: true}, Faucet {emitElement: "Water"}, Mixer {rotate: true}.
+    `;
+
+const MACHINE_SCHEMA_PROPERTIES: Record<string, Schema> = {
+  behavior: {
+    type: Type.OBJECT,
+    properties: {
+      push: { type: Type.STRING, enum: Object.values(Direction), nullable: true },
+      pull: { type: Type.BOOLEAN, nullable: true },
+      emitElement: { type: Type.STRING, nullable: true },
+      emitEnergy: { type: Type.STRING, nullable: true },
+      emitChance: { type: Type.NUMBER, nullable: true },
+      rotate: { type: Type.BOOLEAN, nullable: true },
+    },
+    nullable: true
+  },
+};
+
+// Keeps the well-formed parts; undefined when nothing is left. The engine clamps emitChance.
+const parseBehavior = (data: unknown): MechanismBehavior | undefined => {
+  if (!isRecord(data)) return undefined;
+  const behavior: MechanismBehavior = {
+    push: Object.values(Direction).includes(data.push as Direction) ? data.push as Direction : undefined,
+    pull: data.pull === true || undefined,
+    emitElement: isName(data.emitElement) ? data.emitElement : undefined,
+    emitEnergy: isName(data.emitEnergy) ? data.emitEnergy : undefined,
+    emitChance: isNumber(data.emitChance) ? data.emitChance : undefined,
+    rotate: data.rotate === true || undefined,
+  };
+  return Object.values(behavior).some(v => v !== undefined) ? behavior : undefined;
+};
+
+// --- Food web ---
+
+const FOOD_WEB_RULES = `
+    Food web (LIFE and BOT only, optional):
+    - diet: what the creature eats, a list of {eats, becomes, energy}. It eats touching pixels of "eats" (an element name),
+      which turn into "becomes" (default 'Empty', e.g. "Bones"); energy (0.0 to 1.0, default 0.5) is gained per meal.
+      LIFE with a diet is an animal: it does not drink Water, it wanders, breeds while well fed and starves without prey.
+      e.g. Sheep {eats: "Grass"}, Wolf {eats: "Sheep", becomes: "Bones"}. Predators keep their prey in check without decay.
+    `;
+
+const FOOD_WEB_SCHEMA_PROPERTIES: Record<string, Schema> = {
+  diet: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        eats: { type: Type.STRING },
+        becomes: { type: Type.STRING, nullable: true },
+        energy: { type: Type.NUMBER, nullable: true },
+      }
+    },
+    nullable: true
+  },
+};
+
+// Keeps the links that name their prey; undefined when none do. The engine clamps energy.
+const parseDiet = (data: unknown): FoodLink[] | undefined => {
+  if (!Array.isArray(data)) return undefined;
+  const diet = data
+    .filter(link => isName(link?.eats))
+    .map(link => ({
+      eats: link.eats,
+      becomes: isName(link.becomes) ? link.becomes : undefined,
+      energy: isNumber(link.energy) ? link.energy : undefined,
+    }));
+  return diet.length > 0 ? diet : undefined;
+};
+
+// --- Reaction Discovery ---
+
+export const buildReactionPrompt = (elemA: ElementDef, elemB: ElementDef) => `
+    Context: 2D Physics Sandbox.
+    Interaction:
+    1. "${elemA.name}"
+       - Physics: ${elemA.physics}
+       - Properties: ${elemA.description}
+    2. "${elemB.name}"
+       - Physics: ${elemB.physics}
+       - Properties: ${elemB.description}
+
+    Task: Determine if a NEW substance is created when these two mix.
+
+    Rules:
+    - Mass Conservation: 1 pixel of A + 1 pixel of B -> 2 pixels of Result. (A+B -> 2*C).
+    - Life Physics: All LIFE elements REQUIRE 'Water' to grow. 1 Water pixel is consumed to create 1 Plant pixel. (Animals with a diet eat instead, see Food web.)
+    - **Advanced Life**: Plants have a BIDIRECTIONAL vascular system. Water can be absorbed by ROOTS or LEAVES and transported throughout the organism.
+    - Energy (Fire/Elec) triggers reactions.
+    - BOT elements act like cellular automata, consume energy.
+
+    Safety Rules (CRITICAL):
+    - NO INFINITE GROWTH: Do not create 'Grey Goo' or elements that fill the screen instantly.
+    - If growthStyle is SPREAD/LIFE, growthChance MUST be low (< 0.1).
+    - Aggressive elements must have high decayChance (> 0.05) or consume a resource.
+
+    Output:
+    Return JSON.
+    If reaction:
+    - Name: Short unique name.
+    - Physics: SOLID, POWDER, LIQUID, GAS, ENERGY, MECHANISM, LIFE, BOT.
+    - growthStyle: If LIFE, choose SPREAD (mold), VERTICAL (tree), SURFACE (grass), or CLING (vine).
+    - growthChance: 0.0 to 1.0.
+    - relatedElementId: ID of a child element (e.g., fruit from tree). Optional.
+    - products: Optional. Several products made together, each with a probability (0.0 to 1.0), e.g. Acid + Stone -> [{Salt, 0.6}, {Gas, 0.8}].
+      The reacting pixel becomes the first product (its probability is how often the reaction happens), the pixel it touched the second,
+      and any further ones appear in free pixels next to them. Use the new element's name, existing names or 'Empty'.
+      A product that is neither the new element nor an existing one is created too: give it a color, physics and description.
+    - byproductEnergy: Optional energy spawned where the reaction happens (e.g. "Fire").
+    - explosion: Optional blast radius in cells (1 to 12) for violent reactions; pushes everything nearby outwards.
+    - density: Optional, g/cm³ with Water = 1 (Oil 0.85, Sand 1.6, Iron 7.9, Hydrogen 0.00009). Heavier powders/liquids/gases sink through lighter ones.
+    - condition: Optional. minTemperature / maxTemperature (°C) and/or a catalyst (energy or element that must touch), e.g. only reacts when heated.
+    - rule: Optional. Only if the reaction needs a catalyst, happens only sometimes, or each side turns into something different:
+      - products: [what "${elemA.name}" becomes, what "${elemB.name}" becomes]. The new element's name, an existing name, or 'Empty'.
+      - catalysts: energy or elements that must touch them (e.g. ["Fire"]). Not consumed.
+      - probability: 0.0 to 1.0 per tick. emitEnergy: energy released (e.g. "Fire"). explosion: blast radius. Optional.
+    ${THERMAL_RULES}${CIRCUIT_RULES}${MACHINE_RULES}${FOOD_WEB_RULES}`;
+
+export const REACTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    reactionOccurred: { type: Type.BOOLEAN },
+    result: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        color: { type: Type.STRING },
+        physics: {
+          type: Type.STRING,
+          enum: [
+            PhysicsType.SOLID,
+            PhysicsType.POWDER,
+            PhysicsType.LIQUID,
+            PhysicsType.GAS,
+            PhysicsType.ENERGY,
+            PhysicsType.MECHANISM,
+            PhysicsType.LIFE,
+            PhysicsType.BOT
+          ]
+        },
+        description: { type: Type.STRING },
+        growthChance: { type: Type.NUMBER, nullable: true },
+        decayChance: { type: Type.NUMBER, nullable: true },
+        growthStyle: {
+          type: Type.STRING,
+          enum: ["SPREAD", "VERTICAL", "SURFACE", "CLING"],
+          nullable: true
+        },
+        relatedElementId: { type: Type.NUMBER, nullable: true },
+        density: { type: Type.NUMBER, nullable: true },
+        ...THERMAL_SCHEMA_PROPERTIES,
+        ...CIRCUIT_SCHEMA_PROPERTIES,
+        ...MACHINE_SCHEMA_PROPERTIES,
+        ...FOOD_WEB_SCHEMA_PROPERTIES,
+        products: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              probability: { type: Type.NUMBER },
+              color: { type: Type.STRING, nullable: true },
+              physics: { type: Type.STRING, enum: Object.values(PhysicsType), nullable: true },
+              description: { type: Type.STRING, nullable: true }
+            }
+          },
+          nullable: true
+        },
+        byproductEnergy: { type: Type.STRING, nullable: true },
+        explosion: { type: Type.NUMBER, nullable: true },
+        condition: {
+          type: Type.OBJECT,
+          properties: {
+            minTemperature: { type: Type.NUMBER, nullable: true },
+            maxTemperature: { type: Type.NUMBER, nullable: true },
+            catalyst: { type: Type.STRING, nullable: true }
+          },
+          nullable: true
+        },
+        rule: {
+          type: Type.OBJECT,
+          properties: {
+            products: { type: Type.ARRAY, items: { type: Type.STRING } },
+            catalysts: { type: Type.ARRAY, items: { type: Type.STRING }, nullable: true },
+            probability: { type: Type.NUMBER, nullable: true },
+            emitEnergy: { type: Type.STRING, nullable: true },
+            explosion: { type: Type.NUMBER, nullable: true }
+          },
+          nullable: true
+        }
+      },
+      nullable: true
+    }
+  }
+};
+
+const parseExplosion = (value: unknown) =>
+  isNumber(value) && value > 0 ? Math.min(MAX_EXPLOSION_RADIUS, value) : undefined;
+
+const parseDensity = (value: unknown) =>
+  isNumber(value) && value > 0 ? Math.min(MAX_DENSITY, Math.max(MIN_DENSITY, value)) : undefined;
+
+const parseProducts = (data: unknown): ReactionResult['products'] => {
+  if (!Array.isArray(data)) return undefined;
+  const products = data
+    .filter((p: unknown): p is Record<string, unknown> & { name: string } => isRecord(p) && isName(p.name))
+    .map(p => ({
+      name: p.name,
+      probability: isNumber(p.probability) ? Math.min(1, Math.max(0, p.probability)) : 1,
+      // Only used when the product is a new element
+      color: isName(p.color) ? p.color : undefined,
+      physics: Object.values(PhysicsType).includes(p.physics as PhysicsType) ? p.physics as PhysicsType : undefined,
+      description: isName(p.description) ? p.description : undefined,
+    }));
+  return products.length > 0 ? products : undefined;
+};
+
+const parseCondition = (data: unknown): ReactionResult['condition'] => {
+  if (!isRecord(data)) return undefined;
+  const condition = {
+    minTemperature: isNumber(data.minTemperature) ? data.minTemperature : undefined,
+    maxTemperature: isNumber(data.maxTemperature) ? data.maxTemperature : undefined,
+    catalyst: isName(data.catalyst) ? data.catalyst : undefined,
+  };
+  return Object.values(condition).some(v => v !== undefined) ? condition : undefined;
+};
+
+// A rule is only usable with exactly one product per reactant
+const parseRule = (data: unknown): ReactionResult['rule'] => {
+  if (!isRecord(data) || !Array.isArray(data.products) || data.products.length !== 2 || !data.products.every(isName)) {
+    return undefined;
+  }
+  const probability = isNumber(data.probability) ? Math.min(1, Math.max(0, data.probability)) : 1;
+  return {
+    products: data.products,
+    catalysts: Array.isArray(data.catalysts) ? data.catalysts.filter(isName) : undefined,
+    probability,
+    emitEnergy: isName(data.emitEnergy) ? data.emitEnergy : undefined,
+    explosion: parseExplosion(data.explosion),
+  };
+};
+
+export const parseReactionResponse = (data: any): ReactionResult | null => {
+  if (data?.reactionOccurred && data.result) {
+    // Safety Clamp: Prevent infinite growth by capping chance
+    let gChance = data.result.growthChance;
+    if (typeof gChance === 'number' && gChance > MAX_GROWTH_CHANCE) gChance = MAX_GROWTH_CHANCE;
+
+    return {
+      name: data.result.name,
+      color: data.result.color,
+      physics: data.result.physics as PhysicsType,
+      description: data.result.description,
+      growthChance: gChance,
+      decayChance: data.result.decayChance,
+      growthStyle: data.result.growthStyle as GrowthStyle,
+      relatedElementId: data.result.relatedElementId,
+      density: parseDensity(data.result.density),
+      ...pickThermal(data.result),
+      electric: parseElectric(data.result.electric),
+      needsPower: data.result.needsPower === true || undefined,
+      behavior: parseBehavior(data.result.behavior),
+      diet: parseDiet(data.result.diet),
+      products: parseProducts(data.result.products),
+      byproductEnergy: isName(data.result.byproductEnergy) ? data.result.byproductEnergy : undefined,
+      explosion: parseExplosion(data.result.explosion),
+      condition: parseCondition(data.result.condition),
+      rule: parseRule(data.result.rule)
+    };
+  }
+  return null;
+};
+
+// --- Creator Console ---
+
+export const buildElementCommandPrompt = (userText: string, currentElements: ElementDef[]) => `
+    User Command: "${userText}"
+    Current Elements: ${currentElements.map(e => e.name).join(', ')}
+
+    Task: CREATE a new element or UPDATE an existing one based on natural language.
+
+    Logic:
+    - If LIFE/Plant:
+      - "grow on ground/floor" -> SURFACE
+      - "grow up/tall/tree" -> VERTICAL
+      - "climb/hang/vine" -> CLING
+      - "spread/mold" -> SPREAD
+
+    Physics Constraint:
+    - All LIFE elements strictly consume WATER to grow. 1 Water -> 1 Growth. Animals with a diet eat their prey instead (see Food web).
+    - If no water is present, Plants will not grow.
+    - **Vascular System**: Plants transport water bidirectionally (Roots <-> Leaves). Leaves can drink water too.
+    - density: Optional, g/cm³ with Water = 1 (Oil 0.85, Sand 1.6, Iron 7.9, Hydrogen 0.00009). Heavier powders/liquids/gases sink through lighter ones, so oil floats and sand sinks.
+
+    Safety Rules (CRITICAL):
+    - NO INFINITE GROWTH: Do not create 'Grey Goo' or elements that fill the screen instantly.
+    - If growthStyle is SPREAD/LIFE, growthChance MUST be low (< 0.1).
+    - Aggressive elements must have high decayChance (> 0.05) or consume a resource.
+    ${THERMAL_RULES}${CIRCUIT_RULES}${MACHINE_RULES}${FOOD_WEB_RULES}
+    Output JSON.
+    `;
+
+export const ELEMENT_COMMAND_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        operation: { type: Type.STRING, enum: ["CREATE", "UPDATE", "NONE"] },
+        targetName: { type: Type.STRING, nullable: true },
+        data: {
+            type: Type.OBJECT,
+            properties: {
+                name: { type: Type.STRING },
+                color: { type: Type.STRING },
+                physics: {
+                    type: Type.STRING,
+                    enum: ["SOLID", "POWDER", "LIQUID", "GAS", "ENERGY", "MECHANISM", "LIFE", "BOT"]
+                },
+                description: { type: Type.STRING },
+                growthChance: { type: Type.NUMBER, nullable: true },
+                decayChance: { type: Type.NUMBER, nullable: true },
+                growthStyle: {
+                  type: Type.STRING,
+                  enum: ["SPREAD", "VERTICAL", "SURFACE", "CLING"],
+                  nullable: true
+                },
+                relatedElementId: { type: Type.NUMBER, nullable: true },
+                density: { type: Type.NUMBER, nullable: true },
+                ...THERMAL_SCHEMA_PROPERTIES,
+                ...CIRCUIT_SCHEMA_PROPERTIES,
+                ...MACHINE_SCHEMA_PROPERTIES,
+                ...FOOD_WEB_SCHEMA_PROPERTIES
+            },
+            nullable: true
+        },
+        message: { type: Type.STRING }
+    }
+};
+
+export const parseElementCommandResponse = (res: any): ElementCommandResult => {
+    // Safety Clamp
+    if (res.data && typeof res.data.growthChance === 'number' && res.data.growthChance > MAX_GROWTH_CHANCE) {
+        res.data.growthChance = MAX_GROWTH_CHANCE;
+    }
+
+    const elementData = res.data ? withThermal(res.data) : res.data;
+    if (elementData) {
+        // Dropped rather than left undefined so an UPDATE keeps the element's current values
+        const checked: Partial<ElementDef> = {
+            density: parseDensity(res.data.density),
+            electric: parseElectric(res.data.electric),
+            needsPower: typeof res.data.needsPower === 'boolean' ? res.data.needsPower : undefined,
+            behavior: parseBehavior(res.data.behavior),
+            diet: parseDiet(res.data.diet),
+        };
+        for (const [key, value] of Object.entries(checked)) {
+            if (value === undefined) delete elementData[key];
+            else elementData[key] = value;
+        }
+    }
+
+    return {
+        operation: res.operation,
+        targetName: res.targetName,
+        elementData,
+        message: res.message
+    };
+};
+
+// --- Supervisor ---
+
+const BOUNDARY_TEXT: Record<BoundaryMode, string> = {
+    [BoundaryMode.WALLS]: 'solid walls on every side',
+    [BoundaryMode.VOID]: 'open on every side; powders, liquids, gases and bots that reach an edge are lost',
+    [BoundaryMode.WRAP_X]: 'the left and right edges are connected; top and bottom are solid',
+    [BoundaryMode.WRAP_Y]: 'the top and bottom edges are connected; left and right are solid',
+    [BoundaryMode.OPEN_TOP]: 'solid walls, but gases escape through the top',
+};
+
+export const buildSupervisorPrompt = (stats: Record<string, number>, userGuidance?: string, world?: WorldInfo) => {
+    const statStr = JSON.stringify(stats);
+    const worldStr = world
+        ? `${world.width}x${world.height} cells, ${BOUNDARY_TEXT[world.boundary]}`
+        : 'Unknown size, solid walls';
+
+    // Explicitly Calculate Dominance Percentage for Logic Check
+    const total = stats['Total'] || 1;
+    const dominanceChecks = Object.entries(stats)
+        .filter(([name]) => name !== 'Total' && name !== 'Empty')
+        .map(([name, count]) => {
+            const percentage = (count / total) * 100;
+            return `${name}: ${percentage.toFixed(1)}%`;
+        }).join(', ');
+
+    return `
+        Role: Supervisor of a 2D Physics Sandbox.
+        Goal: Maintain a BALANCED, evolving ecosystem. PREVENT MONOPOLIES.
+
+        Input:
+        1. Pixel Counts: ${statStr}
+        2. Dominance Analysis: ${dominanceChecks} (Threshold > 50% triggers ACTION).
+        3. Image: A screenshot of the current sandbox.
+        4. User Instructions: "${userGuidance ? userGuidance : "None. Act autonomously."}"
+        5. World: ${worldStr}. drawCommand x and y are percentages (0-100) of the width and height; radius is in cells.
+        6. Drawing tools (drawCommand.tool, default BRUSH):
+           - BRUSH: filled circle of radius at (x, y). SPRAY: sparse random cells in that circle (seeding, rain).
+           - LINE: from (x, y) to (x2, y2), radius thick. Build walls, floors and ramps with it.
+           - RECT: outline from corner (x, y) to corner (x2, y2), radius thick (containers, rooms). FILLED_RECT: solid block.
+           - FILL: floods the connected area of whatever is at (x, y) (e.g. fill a basin with Water).
+           - REPLACE: turns replaceName into elementName within the circle at (x, y) (e.g. Sand into Glass).
+
+        Instructions:
+        1. **PRIORITY - USER INSTRUCTIONS**: If "User Instructions" are provided, you MUST attempt to fulfill them immediately, overriding standard balancing logic.
+           - If user says "Make a forest", DRAW Trees or Grass.
+           - If user says "Destroy sand", DRAW Empty or Water.
+           - If user says "Make chaos", DRAW Fire.
+
+        2. IF NO USER INSTRUCTIONS:
+           - LOOK at the image to understand the spatial layout (clumps, flat lines, chaos).
+           - CHECK pixel stats for dominance.
+           - **Total Screen Pixels** = Use the 'Total' count in stats (includes 'Empty').
+           - **Dominance Threshold** = 50% of the TOTAL SCREEN PIXELS.
+           - Calculation: (ElementCount / TotalPixels) * 100. If > 50%, triggers dominance.
+
+        Physics Awareness:
+        - **LIFE NEEDS WATER**: Plants/Life will ONLY grow if there is Water to consume. If you want Life to flourish, ensure Water exists.
+        - **FOOD WEB**: Animals and bots with a diet eat their prey and starve without it, so predator and prey populations balance themselves. Let existing eaters work before drawing Empty.
+
+        Priorities (Autonomous Mode):
+        1. **DOMINANCE CHECK**: If a SINGLE element covers > 50% of the ENTIRE SCREEN, you MUST reduce it.
+           - Action: DRAW 'Empty' to create holes in the big blob.
+           - Action: DRAW a counter-element (Fire burns Wood, Water erodes Earth).
+           - Action: NEW_ELEMENT a predator (an animal whose diet eats that specific element), e.g. 'Sheep' for Grass.
+           - CONSTRAINT: When creating a counter-element, ensure it DECAYS naturally or starves once its prey is gone, so it doesn't become the new monopoly.
+        2. **STAGNATION CHECK**: If nothing is moving or growing (visually static), introduce Life or Energy.
+        3. **CHAOS CHECK**: If too much Fire/Energy visually, dump Water.
+        4. **BUILD**: If world is empty, build Terrain.
+
+        Output JSON.
+        `;
+};
+
+export const SUPERVISOR_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        actionType: { type: Type.STRING, enum: ["DRAW", "NEW_ELEMENT", "WAIT"] },
+        reason: { type: Type.STRING },
+        drawCommand: {
+            type: Type.OBJECT,
+            properties: {
+                elementName: { type: Type.STRING },
+                x: { type: Type.NUMBER },
+                y: { type: Type.NUMBER },
+                radius: { type: Type.NUMBER },
+                tool: { type: Type.STRING, enum: Object.values(DrawTool), nullable: true },
+                x2: { type: Type.NUMBER, nullable: true },
+                y2: { type: Type.NUMBER, nullable: true },
+                replaceName: { type: Type.STRING, nullable: true }
+            },
+            nullable: true
+        },
+        newElementCommand: {
+            type: Type.OBJECT,
+            properties: {
+                name: { type: Type.STRING },
+                description: { type: Type.STRING }
+            },
+            nullable: true
+        }
+    }
+};
+
+export const parseSupervisorResponse = (data: any): SupervisorAction => {
+    if (!data || !["DRAW", "NEW_ELEMENT", "WAIT"].includes(data.actionType)) {
+        return { actionType: 'WAIT', reason: "No decision." };
+    }
+    const draw = data.drawCommand;
+    if (draw && !Object.values(DrawTool).includes(draw.tool)) draw.tool = DrawTool.BRUSH;
+    return data as SupervisorAction;
+};
@@ -0,0 +1,41 @@
+import { AIProvider, ElementDef } from "../types";
+import { geminiProvider, hasGeminiKey } from "./geminiService";
+import { openAiProvider, hasOpenAiEndpoint } from "./openAiService";
+import { offlineProvider } from "./offlineService";
+
+// Entry point for everything the game asks an LLM. Delegates to the active provider.
+// Selection: AI_PROVIDER env ('gemini' | 'openai' | 'offline') if usable, otherwise the first
+// configured one, falling back to offline rules so the sandbox stays playable without network.
+
+const isConfigured = (provider: AIProvider) => {
+  if (provider.id === 'gemini') return hasGeminiKey();
+  if (provider.id === 'openai') return hasOpenAiEndpoint();
+  return true;
+};
+
+export const getAvailableProviders = () =>
+  [geminiProvider, openAiProvider, offlineProvider].filter(isConfigured);
+
+const pickDefault = () => {
+  const available = getAvailableProviders();
+  return available.find(p => p.id === process.env.AI_PROVIDER) ?? available[0];
+};
+
+let activeProvider: AIProvider = pickDefault();
+
+export const getActiveProvider = () => activeProvider;
+
+export const setActiveProvider = (id: AIProvider['id']) => {
+  const provider = getAvailableProviders().find(p => p.id === id);
+  if (provider) activeProvider = provider;
+  return activeProvider;
+};
+
+export const discoverReaction = (elemA: ElementDef, elemB: ElementDef) =>
+  activeProvider.discoverReaction(elemA, elemB);
+
+export const parseElementCommand = (userText: string, currentElements: ElementDef[]) =>
+  activeProvider.parseElementCommand(userText, currentElements);
+
+export const getSupervisorAction: AIProvider['getSupervisorAction'] = (stats, existingElementNames, imageBase64, userGuidance, world) =>
+  activeProvider.getSupervisorAction(stats, existingElementNames, imageBase64, userGuidance, world);
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { LogType } from '../types';
+import { createLogEntry, logsToJsonl } from './eventLog';
+
+describe('event log', () => {
+  it('gives every entry its own id', () => {
+    const a = createLogEntry(LogType.WORLD, 'New world');
+    const b = createLogEntry(LogType.WORLD, 'New world');
+    expect(b.id).toBeGreaterThan(a.id);
+    expect(a).not.toHaveProperty('reaction');
+  });
+
+  it('exports one JSON object per line, even for text with line breaks', () => {
+    const logs = [
+      createLogEntry(LogType.REACTION, 'Sand + Water', [2, 3], { reactants: ['Sand', 'Water'], products: ['Mud'], isNew: true }),
+      createLogEntry(LogType.ERROR, 'Model said:\n<b>no</b>'),
+    ];
+    const lines = logsToJsonl(logs).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('');
+    expect(lines.slice(0, 2).map(line => JSON.parse(line))).toEqual(logs);
+  });
+});
@@ -0,0 +1,22 @@
+import { LogEntry, LogType } from "../types";
+
+// Session log entries (see LogEntry) and their JSON Lines export.
+
+let nextLogId = 1;
+
+export const createLogEntry = (
+  type: LogType,
+  text: string,
+  elementIds: number[] = [],
+  reaction?: LogEntry['reaction']
+): LogEntry => ({
+  id: nextLogId++,
+  time: Date.now(),
+  type,
+  text,
+  elementIds,
+  ...(reaction ? { reaction } : {}),
+});
+
+// One JSON object per line
+export const logsToJsonl = (logs: LogEntry[]) => logs.map(entry => JSON.stringify(entry)).join('\n') + '\n';
@@ -0,0 +1,9 @@
+// Triggers a browser download for generated data (runs, worlds, exports).
+export const downloadFile = (filename: string, data: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
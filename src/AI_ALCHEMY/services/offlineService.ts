@@ -0,0 +1,246 @@
+import { AIProvider, Direction, DrawTool, ElectricRole, ElementDef, FoodLink, MechanismBehavior, PhysicsType, GrowthStyle, ReactionResult, ElementCommandResult, SupervisorAction, WorldInfo } from "../types";
+import { GRID_WIDTH } from "../constants";
+
+// Deterministic, network-free stand-in for the LLM.
+// Reactions are derived from the PhysicsType pair, so the same two elements always give the same answer.
+
+// Elements invented here are stable: they do not react again, which keeps offline worlds bounded.
+const OFFLINE_TAG = '(offline rule)';
+
+const hash = (text: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+const parseHex = (color: string) => {
+  const hex = color.replace('#', '');
+  return [0, 2, 4].map(i => parseInt(hex.substring(i, i + 2), 16) || 0);
+};
+
+const toHex = (rgb: number[]) =>
+  '#' + rgb.map(c => Math.max(0, Math.min(255, Math.round(c))).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const mixColors = (a: string, b: string, weightA = 0.5) => {
+  const ca = parseHex(a);
+  const cb = parseHex(b);
+  return toHex(ca.map((c, i) => c * weightA + cb[i] * (1 - weightA)));
+};
+
+const result = (
+  name: string,
+  color: string,
+  physics: PhysicsType,
+  description: string,
+  extra: Partial<ReactionResult> = {}
+): ReactionResult => ({ name, color, physics, description: `${description} ${OFFLINE_TAG}`, ...extra });
+
+const deriveReaction = (elemA: ElementDef, elemB: ElementDef): ReactionResult | null => {
+  if (elemA.description.endsWith(OFFLINE_TAG) || elemB.description.endsWith(OFFLINE_TAG)) return null;
+
+  // Order the pair by physics so each combination is handled once
+  const [a, b] = [elemA, elemB].sort((x, y) => x.physics.localeCompare(y.physics) || x.name.localeCompare(y.name));
+  const pair = `${a.physics}+${b.physics}`;
+  // Some pairs only react for some element combinations; decided by name so it is stable
+  const roll = (hash(`${a.name}|${b.name}`) % 1000) / 1000;
+
+  switch (pair) {
+    case `${PhysicsType.ENERGY}+${PhysicsType.LIQUID}`:
+      return result(`${b.name} Vapor`, mixColors(b.color, '#FFFFFF', 0.4), PhysicsType.GAS,
+        `${b.name} boiled by ${a.name}.`, { decayChance: 0.02, temperature: 110, condensationPoint: 60, condensesInto: b.name, density: 0.0006 });
+    case `${PhysicsType.ENERGY}+${PhysicsType.POWDER}`:
+      return result(`Fused ${b.name}`, mixColors(b.color, '#AADDFF', 0.6), PhysicsType.SOLID,
+        `${b.name} melted together by ${a.name}.`);
+    case `${PhysicsType.ENERGY}+${PhysicsType.LIFE}`:
+      return result('Ash', '#3A3A3A', PhysicsType.POWDER, `What is left of burnt ${b.name}.`, {
+        products: [{ name: 'Ash', probability: 0.7 }, { name: 'Smoke', probability: 1 }],
+        byproductEnergy: 'Fire',
+      });
+    case `${PhysicsType.BOT}+${PhysicsType.ENERGY}`:
+      return roll < 0.5 ? result(`Overcharged ${a.name}`, mixColors(a.color, b.color), PhysicsType.ENERGY,
+        `${a.name} fried by ${b.name}.`, { decayChance: 0.1 }) : null;
+    case `${PhysicsType.ENERGY}+${PhysicsType.SOLID}`:
+      return roll < 0.3 ? result(`Molten ${b.name}`, mixColors(b.color, '#FF6600', 0.5), PhysicsType.LIQUID,
+        `${b.name} liquefied by ${a.name}.`, { condition: { minTemperature: 400 }, freezingPoint: 300, freezesInto: b.name }) : null;
+    case `${PhysicsType.LIQUID}+${PhysicsType.POWDER}`:
+      return result(`${b.name} Mud`, mixColors(b.color, a.color, 0.6), PhysicsType.POWDER,
+        `${b.name} soaked with ${a.name}.`, { density: 1.8 });
+    case `${PhysicsType.LIQUID}+${PhysicsType.LIQUID}`:
+      return roll < 0.5 ? result(`${a.name}-${b.name} Mix`, mixColors(a.color, b.color), PhysicsType.LIQUID,
+        `A blend of ${a.name} and ${b.name}.`) : null;
+    case `${PhysicsType.GAS}+${PhysicsType.LIQUID}`:
+      return roll < 0.4 ? result(`Fizzy ${b.name}`, mixColors(b.color, a.color, 0.7), PhysicsType.LIQUID,
+        `${b.name} with dissolved ${a.name}.`) : null;
+    case `${PhysicsType.LIFE}+${PhysicsType.POWDER}`:
+      return roll < 0.4 ? result('Soil', mixColors(b.color, '#5C3A1E', 0.3), PhysicsType.POWDER,
+        `Rich ground made from ${a.name} and ${b.name}.`) : null;
+    case `${PhysicsType.BOT}+${PhysicsType.LIFE}`:
+      return roll < 0.3 ? result(`Cyber ${b.name}`, mixColors(b.color, a.color), PhysicsType.LIFE,
+        `${b.name} infested by ${a.name}.`, { growthChance: 0.03, decayChance: 0.01, growthStyle: b.growthStyle ?? GrowthStyle.SPREAD }) : null;
+    default:
+      return null;
+  }
+};
+
+const COLOR_WORDS: Record<string, string> = {
+  red: '#E53935', orange: '#FB8C00', yellow: '#FDD835', green: '#43A047', blue: '#1E88E5',
+  purple: '#8E24AA', pink: '#EC407A', white: '#FAFAFA', black: '#212121', gray: '#9E9E9E',
+  grey: '#9E9E9E', brown: '#6D4C41', cyan: '#00ACC1', gold: '#FFC107', silver: '#BDBDBD',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findColor = (text: string) => {
+  const word = Object.keys(COLOR_WORDS).find(w => new RegExp(`\\b${w}\\b`).test(text));
+  return word ? COLOR_WORDS[word] : undefined;
+};
+
+const guessPhysics = (text: string): PhysicsType => {
+  if (/\b(bot|robot|nano|drone|machine life)\b/.test(text)) return PhysicsType.BOT;
+  if (/\b(plant|grow|grows|tree|vine|grass|moss|mold|flower|fungus|animal|creature|herbivore|predator|grazes|hunts)\b/.test(text)) return PhysicsType.LIFE;
+  if (/\b(fan|pump|machine|engine|conveyor|motor|belt|mixer|faucet|vacuum)\b/.test(text)) return PhysicsType.MECHANISM;
+  if (/\b(fire|flame|spark|electric|energy|plasma|lightning)\b/.test(text)) return PhysicsType.ENERGY;
+  if (/\b(gas|smoke|steam|vapor|cloud|fog)\b/.test(text)) return PhysicsType.GAS;
+  if (/\b(liquid|acid|flows?|oil|lava|juice|slime)\b/.test(text)) return PhysicsType.LIQUID;
+  if (/\b(powder|sand|dust|dirt|salt|snow|ash)\b/.test(text)) return PhysicsType.POWDER;
+  return PhysicsType.SOLID;
+};
+
+// Undefined leaves the engine's default for the physics type
+const guessDensity = (text: string): number | undefined => {
+  if (/\b(oil|petrol|gasoline|alcohol|wax)\b/.test(text)) return 0.85;
+  if (/\b(mercury|lead|gold)\b/.test(text)) return 12;
+  if (/\b(metal|iron|steel|heavy|dense)\b/.test(text)) return 7.9;
+  if (/\b(light|foam|feather|float|floats)\b/.test(text)) return 0.3;
+  return undefined;
+};
+
+const guessElectric = (text: string): ElectricRole | undefined => {
+  if (/\b(battery|cell|power source)\b/.test(text)) return ElectricRole.BATTERY;
+  if (/\b(lamp|light|bulb|led)\b/.test(text)) return ElectricRole.LAMP;
+  if (/\b(switch|pressure plate|button)\b/.test(text)) return ElectricRole.SWITCH;
+  if (/\b(generator|dynamo|turbine)\b/.test(text)) return ElectricRole.GENERATOR;
+  if (/\b(insulator|insulates|rubber|plastic)\b/.test(text)) return ElectricRole.INSULATOR;
+  if (/\b(wire|conductor|conducts|copper)\b/.test(text)) return ElectricRole.CONDUCTOR;
+  return undefined;
+};
+
+// "Create Faucet that drips water" -> emits the first existing element named in the text
+const guessBehavior = (text: string, currentElements: ElementDef[]): MechanismBehavior | undefined => {
+  const named = currentElements.find(e => e.id !== 0 && new RegExp(`\\b(emits?|spawns?|drips?|sprays?|makes?|releases?)\\s+${escapeRegExp(e.name.toLowerCase())}\\b`).test(text));
+  const behavior: MechanismBehavior = {
+    push: /\b(conveyor|belt)\b/.test(text)
+      ? (/\bleft\b/.test(text) ? Direction.LEFT : Direction.RIGHT)
+      : /\b(fan|blower|blows?)\b/.test(text) ? (/\bdown\b/.test(text) ? Direction.DOWN : Direction.UP) : undefined,
+    pull: /\b(pump|vacuum|suck|sucks|pulls?|magnet)\b/.test(text) || undefined,
+    emitElement: named && named.physics !== PhysicsType.ENERGY ? named.name : undefined,
+    emitEnergy: named && named.physics === PhysicsType.ENERGY ? named.name : undefined,
+    rotate: /\b(mixer|stirs?|rotor|rotates?|spins?|wheel)\b/.test(text) || undefined,
+  };
+  return Object.values(behavior).some(v => v !== undefined) ? behavior : undefined;
+};
+
+// "Create Wolf that hunts sheep and leaves bones" -> eats every existing element named after the verb
+const guessDiet = (text: string, currentElements: ElementDef[]): FoodLink[] | undefined => {
+  const named = (part: string) => currentElements.filter(e =>
+    e.id !== 0 && e.physics !== PhysicsType.ENERGY && new RegExp(`\\b${escapeRegExp(e.name.toLowerCase())}s?\\b`).test(part)
+  );
+  const [meal, leftover] = text.split(/\b(?:leaves|leaving)\b/);
+  const prey = meal.match(/\b(?:eats?|hunts?|feeds on|grazes on|preys on|consumes?)\s+([^.;]+)/);
+  if (!prey) return undefined;
+  const becomes = leftover ? named(leftover)[0]?.name : undefined;
+  const diet = named(prey[1]).map(e => ({ eats: e.name, becomes }));
+  return diet.length > 0 ? diet : undefined;
+};
+
+const guessGrowthStyle = (text: string): GrowthStyle => {
+  if (/\b(climb|hang|vine|cling)/.test(text)) return GrowthStyle.CLING;
+  if (/\b(tall|tree|up|vertical)/.test(text)) return GrowthStyle.VERTICAL;
+  if (/\b(ground|floor|grass|surface)/.test(text)) return GrowthStyle.SURFACE;
+  return GrowthStyle.SPREAD;
+};
+
+const parseCommand = (userText: string, currentElements: ElementDef[]): ElementCommandResult => {
+  const text = userText.trim();
+  const lower = text.toLowerCase();
+
+  // "Make Fire blue" / "Update Sand ..." -> recolor an existing element
+  const target = currentElements.find(e => new RegExp(`\\b${escapeRegExp(e.name.toLowerCase())}\\b`).test(lower));
+  const color = findColor(lower);
+  if (target && /^(make|update|change|turn|set)\b/.test(lower) && color) {
+    return { operation: 'UPDATE', targetName: target.name, elementData: { color }, message: `Recolored ${target.name}.` };
+  }
+
+  // "Create Acid that melts stone"
+  const create = text.match(/^(?:create|make|add|invent)\s+(?:an?\s+)?([A-Za-z][\w-]*)(.*)$/i);
+  if (create) {
+    const name = create[1].charAt(0).toUpperCase() + create[1].slice(1);
+    if (currentElements.some(e => e.name.toLowerCase() === name.toLowerCase())) {
+      return { operation: 'NONE', message: `${name} already exists.` };
+    }
+    const physics = guessPhysics(lower);
+    const isLife = physics === PhysicsType.LIFE;
+    return {
+      operation: 'CREATE',
+      elementData: {
+        name,
+        color: color ?? '#' + (hash(name) & 0xFFFFFF).toString(16).padStart(6, '0').toUpperCase(),
+        physics,
+        description: create[2].trim() || `A ${physics.toLowerCase()} element.`,
+        growthChance: isLife ? 0.05 : undefined,
+        decayChance: isLife ? 0.005 : physics === PhysicsType.ENERGY ? 0.05 : undefined,
+        growthStyle: isLife ? guessGrowthStyle(lower) : undefined,
+        density: guessDensity(lower),
+        electric: guessElectric(lower),
+        needsPower: /\b(powered|needs power)\b/.test(lower) || undefined,
+        behavior: physics === PhysicsType.MECHANISM ? guessBehavior(lower, currentElements) : undefined,
+        diet: isLife || physics === PhysicsType.BOT ? guessDiet(lower, currentElements) : undefined,
+      },
+      message: `Created ${name} from offline rules.`,
+    };
+  }
+
+  return { operation: 'NONE', message: "Offline mode understands 'Create <Name> ...' and 'Make <Element> <color>'." };
+};
+
+const decideSupervisorAction = (stats: Record<string, number>, world?: WorldInfo): SupervisorAction => {
+  const total = stats['Total'] || 1;
+  // Radii are in cells; keep them the same share of the world as in the default size
+  const scale = world ? world.width / GRID_WIDTH : 1;
+  const radius = (cells: number) => Math.max(1, Math.round(cells * scale));
+  const materials = Object.entries(stats).filter(([name]) => name !== 'Total' && name !== 'Empty');
+  const [topName, topCount] = materials.reduce((best, entry) => entry[1] > best[1] ? entry : best, ['', 0]);
+
+  // Same world state -> same spot, so offline runs stay reproducible
+  const spot = hash(JSON.stringify(stats));
+  const x = 10 + (spot % 80);
+  const y = 10 + ((spot >>> 8) % 80);
+
+  if (topCount / total > 0.5) {
+    return {
+      actionType: 'DRAW',
+      reason: `${topName} covers over half the world; clearing a gap.`,
+      drawCommand: { elementName: 'Empty', x, y, radius: radius(10) },
+    };
+  }
+  if ((stats['Empty'] ?? total) / total > 0.97) {
+    return {
+      actionType: 'DRAW',
+      reason: 'World is empty; laying down terrain.',
+      drawCommand: { elementName: 'Sand', tool: DrawTool.FILLED_RECT, x: 0, y: 90, x2: 100, y2: 100, radius: 0 },
+    };
+  }
+  return { actionType: 'WAIT', reason: 'World looks balanced.' };
+};
+
+export const offlineProvider: AIProvider = {
+  id: 'offline',
+  label: 'Offline rules',
+  remote: false,
+  discoverReaction: async (elemA, elemB) => deriveReaction(elemA, elemB),
+  parseElementCommand: async (userText, currentElements) => parseCommand(userText, currentElements),
+  getSupervisorAction: async (stats, existingElementNames, imageBase64, userGuidance, world) => decideSupervisorAction(stats, world),
+};
@@ -0,0 +1,100 @@
+import { Schema } from "@google/genai";
+import { AIProvider } from "../types";
+import {
+  isRateLimitError,
+  buildReactionPrompt, REACTION_SCHEMA, parseReactionResponse,
+  buildElementCommandPrompt, ELEMENT_COMMAND_SCHEMA, parseElementCommandResponse,
+  buildSupervisorPrompt, SUPERVISOR_SCHEMA, parseSupervisorResponse,
+} from "./aiPrompts";
+
+// Any server speaking the OpenAI chat completions API (OpenAI, vLLM, llama.cpp, Ollama, LM Studio...).
+const BASE_URL = (process.env.OPENAI_BASE_URL || '').replace(/\/+$/, '');
+const API_KEY = process.env.OPENAI_API_KEY;
+const MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+export const hasOpenAiEndpoint = () => !!BASE_URL;
+
+// Gemini schema -> JSON Schema (lowercase types, `nullable` -> union with null)
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const type = String(schema.type).toLowerCase();
+  const json: Record<string, unknown> = {
+    type: schema.nullable ? [type, 'null'] : type,
+  };
+  if (schema.enum) json.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  return json;
+};
+
+type MessageContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+const complete = async (content: MessageContent, schema: Schema, schemaName: string) => {
+  const response = await fetch(`${BASE_URL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {}),
+    },
+    body: JSON.stringify({
+      model: MODEL,
+      messages: [{ role: 'user', content }],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: schemaName, schema: toJsonSchema(schema) },
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status} ${await response.text()}`);
+  }
+  const data = await response.json();
+  const text = data?.choices?.[0]?.message?.content;
+  return text ? JSON.parse(text) : null;
+};
+
+export const openAiProvider: AIProvider = {
+  id: 'openai',
+  label: `OpenAI-compatible (${MODEL})`,
+  remote: true,
+
+  discoverReaction: async (elemA, elemB) => {
+    try {
+      const data = await complete(buildReactionPrompt(elemA, elemB), REACTION_SCHEMA, 'reaction');
+      return parseReactionResponse(data);
+    } catch (error: any) {
+      if (isRateLimitError(error)) {
+          throw new Error("RATE_LIMIT");
+      }
+      console.error("OpenAI-compatible API Error:", error);
+      throw error;
+    }
+  },
+
+  parseElementCommand: async (userText, currentElements) => {
+    try {
+      const data = await complete(buildElementCommandPrompt(userText, currentElements), ELEMENT_COMMAND_SCHEMA, 'element_command');
+      return parseElementCommandResponse(data || {});
+    } catch (e) {
+      console.error(e);
+      return { operation: 'NONE', message: "Failed to process command." };
+    }
+  },
+
+  getSupervisorAction: async (stats, existingElementNames, imageBase64, userGuidance, world) => {
+    try {
+      const data = await complete([
+        { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${imageBase64}` } },
+        { type: 'text', text: buildSupervisorPrompt(stats, userGuidance, world) },
+      ], SUPERVISOR_SCHEMA, 'supervisor_action');
+      return parseSupervisorResponse(data);
+    } catch (e) {
+      console.error("Supervisor Error", e);
+      return { actionType: 'WAIT', reason: "Error connecting to AI." };
+    }
+  },
+};
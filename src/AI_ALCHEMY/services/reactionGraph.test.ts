@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_ELEMENTS, INITIAL_RULES } from '../constants';
+import { buildReactionGraph, consumersOf, findPath, producersOf } from './reactionGraph';
+
+const id = (name: string) => INITIAL_ELEMENTS.find(e => e.name === name)!.id;
+
+describe('reaction graph', () => {
+  const sandWater = `${id('Sand')}:${id('Water')}`;
+  const graph = buildReactionGraph(INITIAL_ELEMENTS, [[sandWater, { products: [{ id: id('Scrap'), probability: 0.5 }] }]], INITIAL_RULES);
+
+  it('has an edge for cached reactions, with their odds', () => {
+    const edge = producersOf(graph, id('Scrap')).find(e => e.kind === 'reaction')!;
+    expect(edge.inputs).toEqual([id('Sand'), id('Water')]);
+    expect(edge.note).toBe('50%');
+    expect(consumersOf(graph, id('Sand'))).toContain(edge);
+  });
+
+  it('finds the shortest chain from one element to another', () => {
+    const path = findPath(graph, id('Ice'), id('Steam'))!;
+    expect(path.map(edge => edge.kind)).toEqual(['heat', 'heat']);
+    expect(path[0].outputs).toEqual([id('Water')]);
+    expect(findPath(graph, id('Sand'), id('Scrap'))).toHaveLength(1);
+    expect(findPath(graph, id('Sand'), id('Sand'))).toEqual([]);
+  });
+
+  it('finds no chain when nothing leads there', () => {
+    expect(findPath(graph, id('Wall'), id('Sand'))).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { ElementDef, ReactionOutcome, ReactionRule } from "../types";
+
+// The reaction network as a graph for the encyclopedia: elements are the nodes, and every way an
+// element turns into others is an edge from what it consumes to what it produces. Built from the
+// engine's reaction cache and rules plus what elements declare themselves (decay, state changes,
+// diets).
+
+export type ReactionEdgeKind = 'reaction' | 'rule' | 'decay' | 'heat' | 'diet';
+
+export interface ReactionEdge {
+  kind: ReactionEdgeKind;
+  inputs: number[]; // Element IDs used up
+  outputs: number[]; // Element IDs produced ('Empty' left out)
+  catalysts: number[]; // Must be there but are not used up (catalysts, the eater)
+  note?: string; // Conditions and odds, e.g. '> 100°C', '60%'
+}
+
+export interface ReactionGraph {
+  nodes: ElementDef[];
+  edges: ReactionEdge[];
+}
+
+const percent = (p: number) => `${Math.round(p * 100)}%`;
+
+const outcomeEdge = (key: string, outcome: ReactionOutcome): ReactionEdge => {
+  const [a, b] = key.split(':').map(Number);
+  const notes: string[] = [];
+  if (outcome.products.length > 1 || outcome.products.some(p => p.probability < 1)) {
+    notes.push(outcome.products.map(p => percent(p.probability)).join(' + '));
+  }
+  if (outcome.minTemperature !== undefined) notes.push(`≥ ${outcome.minTemperature}°C`);
+  if (outcome.maxTemperature !== undefined) notes.push(`≤ ${outcome.maxTemperature}°C`);
+  if (outcome.explosion) notes.push('explodes');
+  return {
+    kind: 'reaction',
+    inputs: a === b ? [a] : [a, b],
+    outputs: [...outcome.products.map(p => p.id), ...(outcome.energyId ? [outcome.energyId] : [])],
+    catalysts: outcome.catalystId ? [outcome.catalystId] : [],
+    note: notes.length > 0 ? notes.join(', ') : undefined,
+  };
+};
+
+export const buildReactionGraph = (
+  elements: ElementDef[],
+  reactions: [string, ReactionOutcome | null][],
+  rules: ReactionRule[]
+): ReactionGraph => {
+  const byName = new Map(elements.map(e => [e.name, e.id]));
+  // Unknown names (elements that do not exist yet) and 'Empty' are left out
+  const ids = (names: (string | undefined)[]) =>
+    names.map(n => n === undefined ? undefined : byName.get(n)).filter((id): id is number => id !== undefined && id !== 0);
+
+  const edges: ReactionEdge[] = [];
+  const add = (edge: ReactionEdge) => {
+    edge.outputs = edge.outputs.filter(id => id !== 0);
+    if (edge.inputs.length > 0) edges.push(edge);
+  };
+
+  reactions.forEach(([key, outcome]) => {
+    if (outcome) add(outcomeEdge(key, outcome));
+  });
+  rules.forEach(rule => add({
+    kind: 'rule',
+    inputs: ids(rule.reactants),
+    outputs: ids([...rule.products, rule.emitEnergy]),
+    catalysts: ids(rule.catalysts ?? []),
+    note: [
+      rule.probability < 1 ? percent(rule.probability) : undefined,
+      rule.minTemperature !== undefined ? `≥ ${rule.minTemperature}°C` : undefined,
+      rule.explosion ? 'explodes' : undefined,
+    ].filter(Boolean).join(', ') || undefined,
+  }));
+  elements.forEach(e => {
+    if (e.id === 0) return;
+    if (e.decayTo !== undefined && (e.decayChance ?? 0) > 0) {
+      add({ kind: 'decay', inputs: [e.id], outputs: [e.decayTo], catalysts: [] });
+    }
+    const change = (point: number | undefined, into: string | undefined, sign: string) => {
+      if (typeof point === 'number') add({ kind: 'heat', inputs: [e.id], outputs: ids([into]), catalysts: [], note: `${sign} ${point}°C` });
+    };
+    change(e.meltingPoint, e.meltsInto, '>');
+    change(e.boilingPoint, e.boilsInto, '>');
+    change(e.freezingPoint, e.freezesInto, '<');
+    change(e.condensationPoint, e.condensesInto, '<');
+    (e.diet ?? []).forEach(link => add({
+      kind: 'diet',
+      inputs: ids([link.eats]),
+      outputs: ids([link.becomes]),
+      catalysts: [e.id],
+      note: 'eaten',
+    }));
+  });
+
+  return { nodes: elements.filter(e => e.id !== 0), edges };
+};
+
+export const producersOf = (graph: ReactionGraph, id: number) => graph.edges.filter(edge => edge.outputs.includes(id));
+
+export const consumersOf = (graph: ReactionGraph, id: number) =>
+  graph.edges.filter(edge => edge.inputs.includes(id) || edge.catalysts.includes(id));
+
+// Shortest chain of edges that turns `from` into `to`, following each edge from one of its inputs
+// to its outputs (the other inputs and catalysts are assumed to be at hand). Null if there is none.
+export const findPath = (graph: ReactionGraph, from: number, to: number): ReactionEdge[] | null => {
+  if (from === to) return [];
+  const cameBy = new Map<number, { edge: ReactionEdge; from: number }>();
+  const queue = [from];
+  const seen = new Set([from]);
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of graph.edges) {
+      if (!edge.inputs.includes(current)) continue;
+      for (const out of edge.outputs) {
+        if (seen.has(out)) continue;
+        seen.add(out);
+        cameBy.set(out, { edge, from: current });
+        if (out === to) {
+          const path: ReactionEdge[] = [];
+          for (let id = to; id !== from; id = cameBy.get(id)!.from) path.unshift(cameBy.get(id)!.edge);
+          return path;
+        }
+        queue.push(out);
+      }
+    }
+  }
+  return null;
+};
@@ -0,0 +1,99 @@
+import { ReactionResult } from "../types";
+
+// Persistent knowledge base of discovered reactions.
+// Keyed by canonical element names (element IDs are only valid within one session),
+// so a discovery can be reused in later sessions and shared between players.
+
+export interface ReactionLibraryEntry {
+  reactants: [string, string];
+  result: ReactionResult | null; // null = known to not react
+  discoveredAt: number;
+}
+
+interface ReactionLibraryFile {
+  version: number;
+  entries: ReactionLibraryEntry[];
+}
+
+const STORAGE_KEY = 'ai-alchemy.reactionLibrary';
+const LIBRARY_VERSION = 1;
+
+let library: Map<string, ReactionLibraryEntry> | null = null;
+
+const canonicalName = (name: string) => name.trim().toLowerCase();
+
+export const libraryKey = (nameA: string, nameB: string) => {
+  const [a, b] = [canonicalName(nameA), canonicalName(nameB)].sort();
+  return `${a}+${b}`;
+};
+
+const isEntry = (value: any): value is ReactionLibraryEntry =>
+  !!value &&
+  Array.isArray(value.reactants) &&
+  value.reactants.length === 2 &&
+  value.reactants.every((n: unknown) => typeof n === 'string') &&
+  (value.result === null || (typeof value.result === 'object' && typeof value.result.name === 'string'));
+
+const getLibrary = () => {
+  if (library) return library;
+  library = new Map();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) mergeEntries(JSON.parse(raw).entries);
+  } catch (e) {
+    console.warn("Reaction library could not be read", e);
+  }
+  return library;
+};
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, exportReactionLibrary());
+  } catch (e) {
+    console.warn("Reaction library could not be saved", e);
+  }
+};
+
+// Adds entries that are not already known; returns how many were added.
+const mergeEntries = (entries: unknown) => {
+  if (!Array.isArray(entries)) return 0;
+  const lib = library!;
+  let added = 0;
+  for (const entry of entries) {
+    if (!isEntry(entry)) continue;
+    const key = libraryKey(entry.reactants[0], entry.reactants[1]);
+    if (lib.has(key)) continue;
+    lib.set(key, { reactants: entry.reactants, result: entry.result, discoveredAt: entry.discoveredAt || Date.now() });
+    added++;
+  }
+  return added;
+};
+
+// undefined = never tried, entry.result === null = known to not react
+export const lookupReaction = (nameA: string, nameB: string): ReactionLibraryEntry | undefined =>
+  getLibrary().get(libraryKey(nameA, nameB));
+
+export const rememberReaction = (nameA: string, nameB: string, result: ReactionResult | null) => {
+  getLibrary().set(libraryKey(nameA, nameB), {
+    reactants: [nameA, nameB],
+    result,
+    discoveredAt: Date.now(),
+  });
+  persist();
+};
+
+export const getReactionLibrarySize = () => getLibrary().size;
+
+export const exportReactionLibrary = () => {
+  const file: ReactionLibraryFile = { version: LIBRARY_VERSION, entries: [...getLibrary().values()] };
+  return JSON.stringify(file);
+};
+
+export const importReactionLibrary = (json: string) => {
+  const data = JSON.parse(json);
+  if (!data || data.version !== LIBRARY_VERSION) throw new Error('Unsupported reaction library');
+  getLibrary();
+  const added = mergeEntries(data.entries);
+  if (added > 0) persist();
+  return added;
+};
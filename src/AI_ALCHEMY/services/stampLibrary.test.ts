@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_ELEMENTS } from '../constants';
+import { Stamp, resolveStamp, transformStamp } from './stampLibrary';
+
+const id = (name: string) => INITIAL_ELEMENTS.find(e => e.name === name)!.id;
+
+// 3×2:  Sand  Water Empty
+//       Empty Sand  Unobtainium
+const stamp: Stamp = {
+  name: 'Test', width: 3, height: 2,
+  palette: ['Empty', 'Sand', 'Water', 'Unobtainium'],
+  grid: [1, 2, 0, 0, 1, 3],
+  energy: [0, 0, 0, 0, 0, 0],
+  thumbnail: '', createdAt: 0,
+};
+
+describe('stamps', () => {
+  it('turn clockwise a quarter at a time', () => {
+    const turned = transformStamp(stamp, 1, false);
+    expect([turned.width, turned.height]).toEqual([2, 3]);
+    expect(turned.grid).toEqual([0, 1, 1, 2, 3, 0]);
+    expect(transformStamp(stamp, 4, false).grid).toEqual(stamp.grid);
+    expect(transformStamp(stamp, -1, false).grid).toEqual(transformStamp(stamp, 3, false).grid);
+  });
+
+  it('mirror left to right', () => {
+    expect(transformStamp(stamp, 0, true).grid).toEqual([0, 2, 1, 3, 1, 0]);
+  });
+
+  it('leave cells alone whose element this world does not have', () => {
+    const placed = resolveStamp(stamp, INITIAL_ELEMENTS);
+    expect(placed.grid).toEqual([id('Sand'), id('Water'), 0, 0, id('Sand'), -1]);
+    expect(placed.missing).toEqual(['Unobtainium']);
+    expect(placed.forbidden).toEqual([]);
+  });
+
+  it('only paste the elements allowed', () => {
+    const placed = resolveStamp(stamp, INITIAL_ELEMENTS, ['Sand']);
+    expect(placed.grid).toEqual([id('Sand'), -1, -1, -1, id('Sand'), -1]);
+    expect(placed.energy.every(cell => cell === -1)).toBe(true);
+    expect(placed.forbidden).toEqual(['Water', 'Unobtainium']);
+  });
+});
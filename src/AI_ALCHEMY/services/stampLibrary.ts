@@ -0,0 +1,182 @@
+import { ElementDef } from "../types";
+
+// Saved regions of the grid (stamps) that can be pasted into any world, kept in localStorage.
+// Cells refer to elements by name (element IDs are only valid within one session), so a stamp
+// still works in a later session where the same elements got other IDs.
+
+export interface Stamp {
+  name: string;
+  width: number;
+  height: number;
+  palette: string[]; // Element names used by the stamp; palette[0] is always 'Empty'
+  grid: number[]; // Row-major palette indexes of the material layer
+  energy: number[]; // Same for the energy layer (0 = none)
+  thumbnail: string; // PNG data URL
+  createdAt: number;
+}
+
+// A stamp resolved against the current elements, ready to paste. -1 leaves a cell alone (its
+// element does not exist in this session, or may not be painted).
+export interface PlacedStamp {
+  width: number;
+  height: number;
+  grid: number[];
+  energy: number[];
+  missing: string[]; // Names of elements the current world does not have
+  forbidden: string[]; // Names of elements left out because they are not allowed
+}
+
+export interface StampRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const STORAGE_KEY = 'ai-alchemy.stamps';
+const LIBRARY_VERSION = 1;
+export const MAX_STAMP_SIZE = 128; // Cells along either side
+const THUMBNAIL_SIZE = 48;
+
+let stamps: Stamp[] | null = null;
+
+const isStamp = (value: any): value is Stamp =>
+  !!value &&
+  typeof value.name === 'string' &&
+  Number.isInteger(value.width) && Number.isInteger(value.height) &&
+  Array.isArray(value.palette) && value.palette.every((n: unknown) => typeof n === 'string') &&
+  Array.isArray(value.grid) && value.grid.length === value.width * value.height &&
+  Array.isArray(value.energy) && value.energy.length === value.width * value.height &&
+  typeof value.thumbnail === 'string';
+
+export const getStamps = (): Stamp[] => {
+  if (stamps) return stamps;
+  stamps = [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) stamps = (JSON.parse(raw).stamps ?? []).filter(isStamp);
+  } catch (e) {
+    console.warn("Stamps could not be read", e);
+  }
+  return stamps!;
+};
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: LIBRARY_VERSION, stamps }));
+  } catch (e) {
+    console.warn("Stamps could not be saved", e);
+  }
+};
+
+// A stamp with the same name is replaced. Returns the new list.
+export const saveStamp = (stamp: Stamp) => {
+  stamps = [...getStamps().filter(s => s.name !== stamp.name), stamp];
+  persist();
+  return stamps;
+};
+
+export const deleteStamp = (name: string) => {
+  stamps = getStamps().filter(s => s.name !== name);
+  persist();
+  return stamps;
+};
+
+const renderThumbnail = (width: number, height: number, colors: (string | undefined)[]) => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  colors.forEach((color, i) => {
+    if (!color) return;
+    ctx.fillStyle = color;
+    ctx.fillRect(i % width, Math.floor(i / width), 1, 1);
+  });
+  if (scale === 1) return canvas.toDataURL('image/png');
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.round(width * scale));
+  small.height = Math.max(1, Math.round(height * scale));
+  small.getContext('2d')?.drawImage(canvas, 0, 0, small.width, small.height);
+  return small.toDataURL('image/png');
+};
+
+// Copies a region of a world's layers (clipped to MAX_STAMP_SIZE) into an unnamed stamp
+export const captureStamp = (
+  grid: Int32Array, energyGrid: Int32Array, worldWidth: number, elements: ElementDef[], region: StampRegion
+): Omit<Stamp, 'name'> => {
+  const width = Math.min(region.width, MAX_STAMP_SIZE);
+  const height = Math.min(region.height, MAX_STAMP_SIZE);
+  const byId = new Map<number, ElementDef>(elements.map(e => [e.id, e]));
+  const palette = ['Empty'];
+  const indexOf = (id: number) => {
+    const name = id > 0 ? byId.get(id)?.name : undefined;
+    if (!name) return 0;
+    const index = palette.indexOf(name);
+    return index !== -1 ? index : palette.push(name) - 1;
+  };
+
+  const stampGrid: number[] = [];
+  const stampEnergy: number[] = [];
+  const colors: (string | undefined)[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (region.y + y) * worldWidth + region.x + x;
+      stampGrid.push(indexOf(grid[i]));
+      stampEnergy.push(indexOf(energyGrid[i]));
+      colors.push((grid[i] > 0 ? byId.get(grid[i]) : undefined)?.color ?? (energyGrid[i] > 0 ? byId.get(energyGrid[i])?.color : undefined));
+    }
+  }
+  return {
+    width, height, palette,
+    grid: stampGrid,
+    energy: stampEnergy,
+    thumbnail: renderThumbnail(width, height, colors),
+    createdAt: Date.now(),
+  };
+};
+
+// Quarter turns clockwise, then an optional left-right mirror
+export const transformStamp = (stamp: Stamp, quarterTurns: number, mirrored: boolean): Stamp => {
+  let { width, height, grid, energy } = stamp;
+  for (let turn = 0; turn < ((quarterTurns % 4) + 4) % 4; turn++) {
+    // (x, y) of the old layout lands on (height - 1 - y, x) of the new one
+    const rotate = (cells: number[]) => {
+      const out = new Array<number>(cells.length);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) out[x * height + (height - 1 - y)] = cells[y * width + x];
+      }
+      return out;
+    };
+    grid = rotate(grid);
+    energy = rotate(energy);
+    [width, height] = [height, width];
+  }
+  if (mirrored) {
+    const mirror = (cells: number[]) => cells.map((_, i) => {
+      const x = i % width;
+      return cells[i - x + (width - 1 - x)];
+    });
+    grid = mirror(grid);
+    energy = mirror(energy);
+  }
+  return { ...stamp, width, height, grid, energy };
+};
+
+// `allowed` limits what is pasted to those element names (a scenario's palette, where 'Empty'
+// has to be listed for the stamp to erase)
+export const resolveStamp = (stamp: Stamp, elements: ElementDef[], allowed?: string[]): PlacedStamp => {
+  const isAllowed = (name: string) => !allowed || allowed.some(a => a.toLowerCase() === name.toLowerCase());
+  const ids = stamp.palette.map(name =>
+    isAllowed(name) ? elements.find(e => e.name.toLowerCase() === name.toLowerCase())?.id ?? -1 : -1
+  );
+  return {
+    width: stamp.width,
+    height: stamp.height,
+    grid: stamp.grid.map(p => ids[p] ?? -1),
+    energy: stamp.energy.map(p => ids[p] ?? -1),
+    missing: stamp.palette.filter((name, p) => ids[p] === -1 && isAllowed(name)),
+    forbidden: stamp.palette.filter(name => !isAllowed(name) && name !== 'Empty'),
+  };
+};
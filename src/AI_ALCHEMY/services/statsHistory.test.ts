@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { createStatsHistory, statsToCsv } from './statsHistory';
+
+const sample = (tick: number, counts: Record<string, number> = { Sand: tick }) => ({ tick, counts });
+
+describe('stats history', () => {
+  it('keeps the newest samples once full, oldest first', () => {
+    const history = createStatsHistory(3);
+    [30, 60, 90, 120, 150].forEach(tick => history.push(sample(tick)));
+    expect(history.samples().map(s => s.tick)).toEqual([90, 120, 150]);
+  });
+
+  it('drops the samples after a tick the world went back to', () => {
+    const history = createStatsHistory(3);
+    [30, 60, 90, 120].forEach(tick => history.push(sample(tick)));
+    history.dropAfter(60);
+    expect(history.samples().map(s => s.tick)).toEqual([60]);
+    history.push(sample(90));
+    expect(history.samples().map(s => s.tick)).toEqual([60, 90]);
+    history.clear();
+    expect(history.samples()).toEqual([]);
+  });
+
+  it('writes one CSV column per element, with 0 where a sample lacks it', () => {
+    const csv = statsToCsv([sample(0, { Sand: 5 }), sample(30, { Sand: 4, 'Acid, "strong"': 2 })]);
+    expect(csv).toBe('tick,Sand,"Acid, ""strong"""\n0,5,0\n30,4,2\n');
+  });
+});
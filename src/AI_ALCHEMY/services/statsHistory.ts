@@ -0,0 +1,54 @@
+import { StatsSample } from "../types";
+
+// Element counts over time, as sampled by the Sandbox every STATS_INTERVAL ticks.
+// A fixed-size ring buffer: once full, each new sample replaces the oldest one.
+
+export const createStatsHistory = (capacity: number) => {
+  const buffer: (StatsSample | undefined)[] = new Array(capacity).fill(undefined);
+  let next = 0;
+  let size = 0;
+
+  return {
+    push: (sample: StatsSample) => {
+      buffer[next] = sample;
+      next = (next + 1) % capacity;
+      size = Math.min(size + 1, capacity);
+    },
+    // Oldest first
+    samples: (): StatsSample[] => {
+      const start = (next - size + capacity) % capacity;
+      return Array.from({ length: size }, (_, k) => buffer[(start + k) % capacity]!);
+    },
+    // Forgets samples newer than `tick`, after the world went back in time
+    dropAfter: (tick: number) => {
+      while (size > 0 && buffer[(next - 1 + capacity) % capacity]!.tick > tick) {
+        next = (next - 1 + capacity) % capacity;
+        buffer[next] = undefined;
+        size--;
+      }
+    },
+    clear: () => {
+      buffer.fill(undefined);
+      next = 0;
+      size = 0;
+    },
+  };
+};
+
+export type StatsHistory = ReturnType<typeof createStatsHistory>;
+
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// One row per sample and one column per element name seen in any sample (0 where it was missing)
+export const statsToCsv = (samples: StatsSample[]) => {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  samples.forEach(sample => Object.keys(sample.counts).forEach(name => {
+    if (!seen.has(name)) {
+      seen.add(name);
+      names.push(name);
+    }
+  }));
+  const rows = samples.map(sample => [sample.tick, ...names.map(name => sample.counts[name] ?? 0)].join(','));
+  return [['tick', ...names].map(csvField).join(','), ...rows].join('\n') + '\n';
+};
@@ -0,0 +1,43 @@
+import { WorldFile, parseWorld } from '../engine/worldFile';
+
+// IndexedDB autosave so a session survives page refreshes.
+const DB_NAME = 'ai-alchemy';
+const DB_VERSION = 1;
+const STORE = 'worlds';
+const AUTOSAVE_KEY = 'autosave';
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveAutosave = async (world: WorldFile) => {
+  await withStore('readwrite', store => store.put(world, AUTOSAVE_KEY));
+};
+
+export const loadAutosave = async (): Promise<WorldFile | null> => {
+  try {
+    const data = await withStore('readonly', store => store.get(AUTOSAVE_KEY));
+    return data ? parseWorld(data) : null;
+  } catch (e) {
+    console.warn("Autosave unavailable", e);
+    return null;
+  }
+};
@@ -10,6 +10,52 @@ export enum PhysicsType {
   BOT = 'BOT',       // Artificial life, consumes energy, moves
 }
 
+// What happens at the edges of the world
+export enum BoundaryMode {
+  WALLS = 'WALLS',       // Edges are solid
+  VOID = 'VOID',         // Loose material that reaches an edge falls out of the world
+  WRAP_X = 'WRAP_X',     // Left and right edges are connected (top and bottom stay solid)
+  WRAP_Y = 'WRAP_Y',     // Top and bottom edges are connected (left and right stay solid)
+  OPEN_TOP = 'OPEN_TOP', // Solid edges, except that gases escape through the top
+}
+
+// How an element takes part in electrical circuits
+export enum ElectricRole {
+  CONDUCTOR = 'CONDUCTOR', // Carries charge to connected conductive cells (Copper)
+  INSULATOR = 'INSULATOR', // Never carries charge; Electricity on it is grounded (Rubber)
+  BATTERY = 'BATTERY',     // Charges everything it is connected to
+  SWITCH = 'SWITCH',       // Conducts only while something rests on top of it
+  LAMP = 'LAMP',           // Conducts and glows while charged
+  GENERATOR = 'GENERATOR', // Charges its circuit while a liquid touches it; a MECHANISM only runs while charged (Water Wheel)
+}
+
+export enum Direction {
+  UP = 'UP',
+  DOWN = 'DOWN',
+  LEFT = 'LEFT',
+  RIGHT = 'RIGHT',
+}
+
+// What a MECHANISM does every tick while it runs (see `needsPower`). Everything is optional and
+// interpreted by the engine, so invented machines (Conveyor, Pump, Mixer) work without new code.
+// Elements are referenced by name, like in reaction rules.
+export interface MechanismBehavior {
+  push?: Direction; // Blows a jet of flow that way; sideways pushers also carry what rests on them (Fan, Conveyor)
+  pull?: boolean; // Draws loose material around it towards itself (Pump, Vacuum)
+  emitElement?: string; // Spawns this material into an empty neighbor (Faucet)
+  emitEnergy?: string; // Spawns this energy on a neighbor (Water Wheel sparks)
+  emitChance?: number; // 0-1 per tick for each emit (default 0.05)
+  rotate?: boolean; // Stirs loose material around it clockwise (Water Wheel, Mixer)
+}
+
+// One link of the food web: a LIFE or BOT element eats touching cells of `eats`. Elements are
+// referenced by name, like in reaction rules.
+export interface FoodLink {
+  eats: string; // Prey (Grass for a Sheep, Sheep for a Wolf)
+  becomes?: string; // What the eaten cell turns into (default 'Empty'), e.g. Bones
+  energy?: number; // 0-1 gained per meal (default 0.5)
+}
+
 export enum GrowthStyle {
   SPREAD = 'SPREAD', // Grows in all directions (Mold, Moss)
   VERTICAL = 'VERTICAL', // Grows upwards, needs support (Tree, Corn)
@@ -17,7 +63,23 @@ export enum GrowthStyle {
   CLING = 'CLING', // Grows on walls or hangs (Vines)
 }
 
-export interface ElementDef {
+// Heat behaviour (°C). State changes name the element a cell turns into, so they can point at
+// elements that do not exist yet (the change simply waits until they do).
+export interface ThermalProperties {
+  heatCapacity?: number; // Resistance to temperature change (>= 1, default depends on physics)
+  temperature?: number; // Temperature of freshly placed cells (default ambient)
+  heatSource?: boolean; // Holds its cell at `temperature` (Fire, Heater)
+  meltingPoint?: number; // Above: turns into `meltsInto` (Ice -> Water)
+  meltsInto?: string;
+  boilingPoint?: number; // Above: turns into `boilsInto` (Water -> Steam)
+  boilsInto?: string;
+  freezingPoint?: number; // Below: turns into `freezesInto` (Water -> Ice)
+  freezesInto?: string;
+  condensationPoint?: number; // Below: turns into `condensesInto` (Steam -> Water)
+  condensesInto?: string;
+}
+
+export interface ElementDef extends ThermalProperties {
   id: number;
   name: string;
   color: string; // Hex code
@@ -28,9 +90,44 @@ export interface ElementDef {
   growthChance?: number; // 0-1 probability to spread to neighbor per tick
   growthStyle?: GrowthStyle; // How it behaves if it is LIFE
   relatedElementId?: number; // ID of element produced (e.g., Tree -> Leaf)
+  density?: number; // g/cm³ (Water = 1). Powders, liquids and gases sink through lighter ones
+  electric?: ElectricRole;
+  needsPower?: boolean; // Only works while its circuit is charged (Fan, Heater); conducts like a wire
+  behavior?: MechanismBehavior; // For MECHANISM elements
+  diet?: FoodLink[]; // For LIFE and BOT elements: what it eats. LIFE eaters starve without food instead of drinking Water
 }
 
-export interface ReactionResult {
+// Declarative reaction, evaluated by the engine every tick. Elements are referenced by name, so rules
+// can be written before their elements exist ('Empty' removes a cell).
+export interface ReactionRule {
+  reactants: string[]; // 1 or 2 touching materials
+  catalysts?: string[]; // Energy or materials that must touch the first reactant (not consumed)
+  minTemperature?: number; // °C at the first reactant
+  probability: number; // 0-1 per tick once everything is in place
+  products: string[]; // What each reactant becomes, in order
+  emitEnergy?: string; // Energy element spawned on the first reactant
+  explosion?: number; // Blast radius in cells; pushes everything around outwards
+}
+
+// One product of a reaction. The reacting cell becomes the first, the cell it reacted with the
+// second, and further products appear in free cells next to it.
+export interface ReactionProduct {
+  name: string; // Element name, or 'Empty' to remove the cell
+  probability: number; // 0-1. The first product's is how often the reaction happens; the others' how often they come along
+  // Only for products that are not elements yet; missing ones are taken from the result
+  color?: string;
+  physics?: PhysicsType;
+  description?: string;
+}
+
+// When a discovered reaction is allowed to happen (all given parts must hold)
+export interface ReactionCondition {
+  minTemperature?: number; // °C at the reacting cell
+  maxTemperature?: number;
+  catalyst?: string; // Energy or element that must touch the reacting cell
+}
+
+export interface ReactionResult extends ThermalProperties {
   name: string;
   color: string;
   physics: PhysicsType;
@@ -39,7 +136,149 @@ export interface ReactionResult {
   decayChance?: number;
   growthStyle?: GrowthStyle;
   relatedElementId?: number;
+  density?: number;
+  electric?: ElectricRole;
+  needsPower?: boolean;
+  behavior?: MechanismBehavior;
+  diet?: FoodLink[];
+  // Several products instead of only `name` (which should be one of them)
+  products?: ReactionProduct[];
+  byproductEnergy?: string; // Energy spawned where the reaction happens (e.g. 'Fire')
+  explosion?: number; // Blast radius in cells around each reacting cell
+  condition?: ReactionCondition;
+  // Set when the pair only reacts under conditions or gives each side its own product;
+  // the reactants are the two discovered elements
+  rule?: Omit<ReactionRule, 'reactants'>;
+}
+
+// A ReactionResult with names resolved to element IDs, as cached by the engine
+export interface ReactionOutcome {
+  products: { id: number; probability: number }[];
+  energyId?: number;
+  minTemperature?: number;
+  maxTemperature?: number;
+  catalystId?: number;
+  explosion?: number;
+}
+
+// Map 'idA:idB' -> outcome for a cell of either element touching the other (null = no reaction)
+export type ReactionMap = Map<string, ReactionOutcome | null>;
+
+export interface ElementCommandResult {
+  operation: 'CREATE' | 'UPDATE' | 'NONE';
+  elementData?: Partial<ElementDef>;
+  targetName?: string; // For updates
+  message?: string;
+}
+
+// Drawing tools of the toolbar, also available to the Supervisor
+export enum DrawTool {
+  BRUSH = 'BRUSH',             // Filled circle, dragged
+  SPRAY = 'SPRAY',             // A few random cells of the circle, dragged
+  LINE = 'LINE',               // Straight line from press to release
+  RECT = 'RECT',               // Rectangle outline from press to release
+  FILLED_RECT = 'FILLED_RECT',
+  FILL = 'FILL',               // Flood fill of the connected area clicked
+  REPLACE = 'REPLACE',         // Brush that only paints over one element
+}
+
+export interface SupervisorAction {
+    actionType: 'DRAW' | 'NEW_ELEMENT' | 'WAIT';
+    reason: string;
+    drawCommand?: {
+        elementName: string;
+        x: number; // 0-100 percentage
+        y: number; // 0-100 percentage
+        radius: number;
+        tool?: DrawTool; // BRUSH when missing
+        x2?: number; // End point of LINE and RECT/FILLED_RECT (percentages)
+        y2?: number;
+        replaceName?: string; // REPLACE: the element turned into elementName
+    };
+    newElementCommand?: {
+        name: string;
+        description: string;
+    }
+}
+
+// Backend that plays the rule engine (Gemini, an OpenAI-compatible server, or offline rules)
+export interface AIProvider {
+  id: 'gemini' | 'openai' | 'offline';
+  label: string;
+  // Remote results cost quota and are worth persisting in the reaction library
+  remote: boolean;
+  discoverReaction: (elemA: ElementDef, elemB: ElementDef) => Promise<ReactionResult | null>;
+  parseElementCommand: (userText: string, currentElements: ElementDef[]) => Promise<ElementCommandResult>;
+  getSupervisorAction: (
+    stats: Record<string, number>,
+    existingElementNames: string[],
+    imageBase64: string,
+    userGuidance?: string,
+    world?: WorldInfo
+  ) => Promise<SupervisorAction>;
+}
+
+// Heritable traits of a BOT cell. The engine keeps one per bot cell in its `genome` grid.
+export interface Genome {
+  moveBias: number; // -1 (crawls left) to 1 (crawls right)
+  climb: number; // 0-1 chance to climb a step when blocked
+  food: number; // ID of the element it builds offspring from (Scrap at first)
+  replicateAt: number; // Battery level (0-1) needed to replicate
+  mutationRate: number; // 0-0.5 chance per gene to change in an offspring
+}
+
+// Bots sharing a genome. Painted bots found a lineage; a mutated offspring founds a new one.
+export interface Lineage {
+  id: number;
+  parent?: number; // Lineage it mutated from
+  elementId: number;
+  founded: number; // Tick
+  genome: Genome; // The founder's
+}
+
+export interface LineageStats extends Lineage {
+  population: number; // Living cells (0 for extinct ancestors of living lineages)
+  generation: number; // Mutations since a painted founder
 }
 
-// Map 'ElementID_ElementID' -> ResultingElementID
-export type ReactionMap = Map<string, number>;
\ No newline at end of file
+// Pixel counts per element name (as from getStats) at one tick
+export interface StatsSample {
+  tick: number;
+  counts: Record<string, number>;
+}
+
+export enum LogType {
+  REACTION = 'REACTION',     // Two elements reacted for the first time this session
+  DISCOVERY = 'DISCOVERY',   // An element was created
+  COMMAND = 'COMMAND',       // Creator Console commands and their outcome
+  SUPERVISOR = 'SUPERVISOR', // Supervisor actions and guidance
+  WORLD = 'WORLD',           // New, loaded, reset and replayed worlds, library imports
+  ERROR = 'ERROR',
+}
+
+// One line of the session log. Plain data: `text` is never rendered as HTML (element names come
+// from the model), and `elementIds` lets the log be filtered by element.
+export interface LogEntry {
+  id: number;
+  time: number; // ms since the epoch
+  type: LogType;
+  text: string;
+  elementIds: number[];
+  reaction?: { reactants: [string, string]; products: string[]; isNew: boolean }; // REACTION only
+}
+
+export interface WorldSize {
+  width: number;
+  height: number;
+}
+
+// Shape of the running world, as told to the Supervisor
+export interface WorldInfo extends WorldSize {
+  boundary: BoundaryMode;
+}
+
+// Whether the simulation runs and how fast (ticks per rendered frame, one of SIMULATION_SPEEDS)
+export interface RunState {
+  paused: boolean;
+  speed: number;
+}